@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from './ThemeProvider';
+import { armTheme, drawScene } from './armCanvas';
+import { ClipFormat, ClipRecorder, clipFilename, createClipRecorder, renderClip, supportsWebm } from '../lib/clip/recorder';
+import { EpisodeRecording } from '../lib/rl/recorder';
+import { downloadBlob } from '../lib/download';
+
+// Exports an arm canvas as a WebM or GIF clip: either a live span between
+// Record and Stop, or (when given) a recorded episode rendered frame by frame.
+
+interface ClipExportProps {
+  name: string; // file name, without extension
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  // Overlay lines for the live frame being captured, e.g. episode and reward
+  overlay?: () => string[];
+  recording?: EpisodeRecording | null;
+}
+
+type Background = 'themed' | 'transparent';
+type Status = { kind: 'idle' } | { kind: 'recording'; frames: number } | { kind: 'encoding'; done: number; total: number };
+
+const WIDTHS = [320, 480, 720, 1080];
+const FRAME_RATES = [15, 24, 30, 60];
+const MAX_LIVE_SECONDS = 30;
+const SIM_STEPS_PER_SECOND = 60;
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 text-xs font-mono border transition-colors disabled:opacity-40 ${
+    active
+      ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+      : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200'
+  }`;
+
+const OptionRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    <span className="w-20 text-xs font-mono text-zinc-500">{label}</span>
+    {children}
+  </div>
+);
+
+export const ClipExport: React.FC<ClipExportProps> = ({ name, canvasRef, overlay, recording }) => {
+  const { isDark } = useTheme();
+  const [canWebm] = useState(supportsWebm);
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ClipFormat>(() => (supportsWebm() ? 'webm' : 'gif'));
+  const [width, setWidth] = useState(480);
+  const [fps, setFps] = useState(30);
+  const [background, setBackground] = useState<Background>('themed');
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [status, setStatus] = useState<Status>({ kind: 'idle' });
+  const [error, setError] = useState<string | null>(null);
+
+  const overlayRef = useRef(overlay);
+  const liveRef = useRef<{ clip: ClipRecorder; timer: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    overlayRef.current = overlay;
+  }, [overlay]);
+
+  useEffect(
+    () => () => {
+      if (liveRef.current) {
+        window.clearInterval(liveRef.current.timer);
+        liveRef.current.clip.cancel();
+      }
+      abortRef.current?.abort();
+    },
+    []
+  );
+
+  const newClip = (source: { width: number; height: number }) => {
+    const theme = armTheme(isDark);
+    return createClipRecorder(source, {
+      format,
+      width,
+      fps,
+      background: background === 'themed' ? theme.background : null,
+      overlayColor: theme.text,
+    });
+  };
+
+  const save = (blob: Blob | null, suffix: string) => {
+    if (blob) downloadBlob(blob, clipFilename(`${name}-${suffix}`, format));
+  };
+
+  // ── Live span ─────────────────────────────────────────────────────────────
+  const stopLive = async () => {
+    const live = liveRef.current;
+    if (!live) return;
+    liveRef.current = null;
+    window.clearInterval(live.timer);
+    setStatus({ kind: 'encoding', done: live.clip.frames(), total: live.clip.frames() });
+    try {
+      save(await live.clip.finish(), 'live');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+    setStatus({ kind: 'idle' });
+  };
+
+  const startLive = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setError(null);
+    // The canvas backing store is scaled by devicePixelRatio; draw it at its
+    // CSS size so it lines up with the clip's coordinates.
+    const source = { width: canvas.clientWidth, height: canvas.clientHeight };
+    try {
+      const clip = newClip(source);
+      const maxFrames = MAX_LIVE_SECONDS * fps;
+      let last = performance.now();
+      const timer = window.setInterval(() => {
+        const now = performance.now();
+        clip.addFrame(
+          ctx => ctx.drawImage(canvas, 0, 0, source.width, source.height),
+          showOverlay ? overlayRef.current?.() : undefined,
+          Math.max(clip.frameMs, now - last)
+        );
+        last = now;
+        setStatus({ kind: 'recording', frames: clip.frames() });
+        if (clip.frames() >= maxFrames) void stopLive();
+      }, clip.frameMs);
+      liveRef.current = { clip, timer };
+      setStatus({ kind: 'recording', frames: 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording failed');
+    }
+  };
+
+  // ── Recorded episode ──────────────────────────────────────────────────────
+  const exportRecording = async () => {
+    if (!recording || recording.steps.length === 0) return;
+    setError(null);
+    const { steps } = recording;
+    const theme = armTheme(isDark);
+    const total = Math.max(1, Math.ceil((steps.length * fps) / SIM_STEPS_PER_SECOND));
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setStatus({ kind: 'encoding', done: 0, total });
+
+    try {
+      const clip = newClip(steps[0].state.viewport);
+      let returnSoFar = 0;
+      let summed = 0;
+      const blob = await renderClip(
+        clip,
+        total,
+        index => {
+          const at = Math.min(steps.length - 1, Math.floor((index * SIM_STEPS_PER_SECOND) / fps));
+          for (; summed <= at; summed++) returnSoFar += steps[summed].reward;
+          const episode = recording.episode.toString().padStart(3, '0');
+          return {
+            draw: ctx => drawScene(ctx, steps[at].state, theme),
+            overlay: showOverlay
+              ? [`Ep ${episode} · ${recording.result}`, `reward ${steps[at].reward.toFixed(3)} · return ${returnSoFar.toFixed(2)}`]
+              : undefined,
+          };
+        },
+        abort.signal,
+        done => setStatus({ kind: 'encoding', done, total })
+      );
+      save(blob, `ep${recording.episode}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+    abortRef.current = null;
+    setStatus({ kind: 'idle' });
+  };
+
+  const isBusy = status.kind !== 'idle';
+
+  return (
+    <div className="text-xs font-mono text-zinc-500">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+      >
+        {isOpen ? 'Clip ▾' : 'Clip ▸'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <OptionRow label="Format">
+            <button
+              onClick={() => setFormat('webm')}
+              disabled={!canWebm || isBusy}
+              title={canWebm ? undefined : 'This browser cannot record WebM'}
+              className={optionClass(format === 'webm')}
+            >
+              WebM
+            </button>
+            <button onClick={() => setFormat('gif')} disabled={isBusy} className={optionClass(format === 'gif')}>
+              GIF
+            </button>
+          </OptionRow>
+          <OptionRow label="Width">
+            {WIDTHS.map(value => (
+              <button key={value} onClick={() => setWidth(value)} disabled={isBusy} className={optionClass(width === value)}>
+                {value}
+              </button>
+            ))}
+          </OptionRow>
+          <OptionRow label="Frame rate">
+            {FRAME_RATES.map(value => (
+              <button key={value} onClick={() => setFps(value)} disabled={isBusy} className={optionClass(fps === value)}>
+                {value}
+              </button>
+            ))}
+          </OptionRow>
+          <OptionRow label="Background">
+            {(['themed', 'transparent'] as Background[]).map(value => (
+              <button
+                key={value}
+                onClick={() => setBackground(value)}
+                disabled={isBusy}
+                className={optionClass(background === value)}
+              >
+                {value}
+              </button>
+            ))}
+          </OptionRow>
+          <OptionRow label="Overlay">
+            <button
+              onClick={() => setShowOverlay(on => !on)}
+              disabled={isBusy}
+              aria-pressed={showOverlay}
+              className={optionClass(showOverlay)}
+            >
+              {showOverlay ? 'On' : 'Off'}
+            </button>
+          </OptionRow>
+
+          <div className="pt-1 flex flex-wrap items-center gap-2">
+            {status.kind === 'recording' ? (
+              <button onClick={() => void stopLive()} className={optionClass(true)}>
+                Stop · {(status.frames / fps).toFixed(1)}s
+              </button>
+            ) : (
+              <button onClick={startLive} disabled={isBusy} className={optionClass(false)}>
+                Record
+              </button>
+            )}
+            {recording && (
+              <button onClick={() => void exportRecording()} disabled={isBusy} className={optionClass(false)}>
+                Export replay (ep {recording.episode})
+              </button>
+            )}
+            {status.kind === 'encoding' && (
+              <>
+                <span>
+                  Encoding {status.done}/{status.total}
+                </span>
+                {abortRef.current && (
+                  <button onClick={() => abortRef.current?.abort()} className="hover:text-zinc-900 dark:hover:text-zinc-200">
+                    Cancel
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+          <div className="text-zinc-400">
+            Live spans stop after {MAX_LIVE_SECONDS}s. Transparent WebM needs a browser that encodes alpha; GIF always keeps it.
+          </div>
+          {error && <div className="text-rose-600 dark:text-rose-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
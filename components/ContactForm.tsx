@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ContactError,
+  ContactErrors,
+  ContactMessage,
+  ContactTransport,
+  HONEYPOT_FIELD,
+  checkBot,
+  isRateLimited,
+  queueMessage,
+  recordSend,
+  validateContact,
+} from '../lib/contact';
+
+type ContactStatus = 'idle' | 'sending' | 'success' | 'queued' | 'retrying' | 'error' | 'rate-limited' | 'too-fast';
+
+const inputClass =
+  'w-full p-3 bg-zinc-50 dark:bg-zinc-950 border rounded-sm text-sm text-zinc-700 dark:text-zinc-200 placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-accent-500/40';
+
+const statusCopy: Partial<Record<ContactStatus, { text: string; tone: 'ok' | 'warn' }>> = {
+  success: { text: 'Message sent. I’ll get back to you soon.', tone: 'ok' },
+  queued: { text: 'You’re offline. The message is saved and will send when you reconnect.', tone: 'ok' },
+  retrying: { text: 'The message couldn’t be delivered just now. It’s saved and will be retried shortly.', tone: 'ok' },
+  error: { text: 'Something went wrong. Please try again.', tone: 'warn' },
+  'rate-limited': { text: 'That’s a few messages already. Please try again in a little while.', tone: 'warn' },
+  'too-fast': { text: 'That was quick! Give it a second and send again.', tone: 'warn' },
+};
+
+const emptyMessage: ContactMessage = { name: '', email: '', message: '' };
+
+export const ContactForm: React.FC<{ transport: ContactTransport }> = ({ transport }) => {
+  const [values, setValues] = useState<ContactMessage>(emptyMessage);
+  const [errors, setErrors] = useState<ContactErrors>({});
+  const [status, setStatus] = useState<ContactStatus>('idle');
+  const openedAtRef = useRef(Date.now());
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    openedAtRef.current = Date.now();
+  }, []);
+
+  const update = (field: keyof ContactMessage) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (status === 'sending') return;
+
+    const fieldErrors = validateContact(values);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    const verdict = checkBot(honeypotRef.current?.value ?? '', openedAtRef.current);
+    if (verdict === 'honeypot') {
+      // Look successful so bots don't learn anything.
+      setStatus('success');
+      setValues(emptyMessage);
+      return;
+    }
+    if (verdict === 'too-fast') {
+      setStatus('too-fast');
+      return;
+    }
+    if (isRateLimited()) {
+      setStatus('rate-limited');
+      return;
+    }
+
+    setStatus('sending');
+    try {
+      await transport.send(values);
+      recordSend();
+      setStatus('success');
+      setValues(emptyMessage);
+    } catch (err) {
+      if (err instanceof ContactError && err.retryable) {
+        queueMessage(values);
+        recordSend();
+        setStatus(err.offline || !navigator.onLine ? 'queued' : 'retrying');
+        setValues(emptyMessage);
+      } else {
+        setStatus('error');
+      }
+    }
+  };
+
+  const fieldClass = (field: keyof ContactMessage) =>
+    `${inputClass} ${errors[field] ? 'border-rose-400 dark:border-rose-700' : 'border-zinc-200 dark:border-zinc-800'}`;
+
+  const feedback = statusCopy[status];
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+      {/* Honeypot: hidden from people and assistive tech, filled by naive bots */}
+      <input
+        ref={honeypotRef}
+        type="text"
+        name={HONEYPOT_FIELD}
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+        className="absolute left-[-9999px] w-px h-px opacity-0"
+      />
+      <div>
+        <input
+          type="text"
+          name="name"
+          value={values.name}
+          onChange={update('name')}
+          placeholder="Name"
+          aria-invalid={!!errors.name}
+          className={fieldClass('name')}
+        />
+        {errors.name && <div className="mt-1 text-xs text-rose-600 dark:text-rose-400">{errors.name}</div>}
+      </div>
+      <div>
+        <input
+          type="email"
+          name="email"
+          value={values.email}
+          onChange={update('email')}
+          placeholder="Email"
+          aria-invalid={!!errors.email}
+          className={fieldClass('email')}
+        />
+        {errors.email && <div className="mt-1 text-xs text-rose-600 dark:text-rose-400">{errors.email}</div>}
+      </div>
+      <div>
+        <textarea
+          name="message"
+          rows={4}
+          value={values.message}
+          onChange={update('message')}
+          placeholder="Message"
+          aria-invalid={!!errors.message}
+          className={`${fieldClass('message')} resize-none`}
+        />
+        {errors.message && <div className="mt-1 text-xs text-rose-600 dark:text-rose-400">{errors.message}</div>}
+      </div>
+      {feedback && (
+        <div
+          className={`text-sm ${
+            feedback.tone === 'ok' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {feedback.text}
+        </div>
+      )}
+      <button
+        type="submit"
+        className="block w-full text-center text-sm bg-zinc-900 dark:bg-zinc-100 text-zinc-100 dark:text-zinc-900 py-3 font-medium hover:bg-accent-500 dark:hover:bg-accent-500 hover:text-white dark:hover:text-white transition-colors rounded-sm disabled:opacity-70 disabled:cursor-not-allowed"
+        disabled={status === 'sending'}
+      >
+        {status === 'sending' ? 'Sending...' : 'Send Message'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Issue } from '../lib/schema';
+
+// Dev-only banner listing content that failed schema validation. Production
+// builds never get here because the build itself fails on the same issues.
+export const ContentIssues: React.FC<{ issues: Issue[] }> = ({ issues }) => {
+  if (!import.meta.env.DEV || issues.length === 0) return null;
+
+  return (
+    <div className="mb-12 border border-rose-300 dark:border-rose-900 bg-rose-50 dark:bg-rose-950/40 p-6 rounded-sm font-mono text-sm text-rose-700 dark:text-rose-300">
+      <div className="font-medium mb-3">Content validation failed ({issues.length})</div>
+      <ul className="space-y-1">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            {issue.path} {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
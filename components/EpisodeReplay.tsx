@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { EpisodeRecording } from '../lib/rl/recorder';
+import { PhysicsState } from '../lib/sim/physics';
+
+// Playback controls for a recorded episode. The frame itself is drawn by the
+// arm canvas, which reads `frameRef`; this component only moves the cursor.
+
+interface EpisodeReplayProps {
+  recording: EpisodeRecording;
+  frameRef: React.MutableRefObject<PhysicsState | null>;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const EpisodeReplay: React.FC<EpisodeReplayProps> = ({ recording, frameRef, onClose }) => {
+  const { steps } = recording;
+  const last = Math.max(0, steps.length - 1);
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const cursorRef = useRef(0);
+
+  useEffect(() => {
+    cursorRef.current = 0;
+    setFrame(0);
+    setIsPlaying(true);
+  }, [recording]);
+
+  useEffect(() => {
+    frameRef.current = steps[frame]?.state ?? null;
+  }, [frameRef, steps, frame]);
+
+  useEffect(() => () => {
+    frameRef.current = null;
+  }, [frameRef]);
+
+  // Recorded at the sim's fixed 60 steps per second
+  useEffect(() => {
+    if (!isPlaying) return;
+    let rafId = 0;
+    let lastT = performance.now();
+    const tick = (t: number) => {
+      cursorRef.current = Math.min(last, cursorRef.current + ((t - lastT) / 1000) * 60 * speed);
+      lastT = t;
+      setFrame(Math.floor(cursorRef.current));
+      if (cursorRef.current >= last) setIsPlaying(false);
+      else rafId = requestAnimationFrame(tick);
+    };
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPlaying, speed, last]);
+
+  const seek = (next: number) => {
+    const clamped = Math.max(0, Math.min(last, next));
+    cursorRef.current = clamped;
+    setFrame(clamped);
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && frame >= last) seek(0);
+    setIsPlaying(playing => !playing);
+  };
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    seek(frame + delta);
+  };
+
+  const handleKey = (e: React.KeyboardEvent) => {
+    if (e.key === ' ') {
+      e.preventDefault();
+      togglePlay();
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      stepBy(-1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      stepBy(1);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const step = steps[frame];
+  const returnSoFar = steps.slice(0, frame + 1).reduce((sum, s) => sum + s.reward, 0);
+  const buttonClass =
+    'p-2 border border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors';
+
+  return (
+    <div
+      role="region"
+      aria-label={`Replay of episode ${recording.episode}`}
+      onKeyDown={handleKey}
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 w-[min(640px,calc(100%-3rem))] border border-zinc-200 dark:border-zinc-800 bg-white/85 dark:bg-zinc-900/80 backdrop-blur-sm p-5 shadow-sm"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm font-mono text-zinc-500">
+          Replay · Ep {recording.episode.toString().padStart(3, '0')} ·{' '}
+          <span className={recording.result === 'goal' ? 'text-accent-600 dark:text-accent-500' : ''}>
+            {recording.result}
+          </span>
+          {recording.stage !== null && ` · stage ${recording.stage + 1}`} · return {recording.totalReward.toFixed(2)}
+        </div>
+        <button onClick={onClose} aria-label="Close replay" className="text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button onClick={() => stepBy(-1)} aria-label="Previous frame" className={buttonClass}>
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={togglePlay} aria-label={isPlaying ? 'Pause' : 'Play'} className={buttonClass} autoFocus>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => stepBy(1)} aria-label="Next frame" className={buttonClass}>
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <div className="flex gap-1 ml-2">
+          {SPEEDS.map(value => (
+            <button
+              key={value}
+              onClick={() => setSpeed(value)}
+              className={`px-2 py-1 text-xs font-mono border transition-colors ${
+                speed === value
+                  ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+                  : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200'
+              }`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto text-xs font-mono text-zinc-500">
+          {frame + 1}/{steps.length}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={last}
+        step={1}
+        value={frame}
+        onChange={e => {
+          setIsPlaying(false);
+          seek(Number(e.target.value));
+        }}
+        aria-label="Timeline"
+        className="mt-4 w-full accent-accent-500"
+      />
+
+      {step && (
+        <div className="mt-2 grid grid-cols-3 gap-4 text-xs font-mono text-zinc-500">
+          <div>
+            Action: <span className="text-zinc-900 dark:text-zinc-100">{step.action.dx.toFixed(1)}, {step.action.dy.toFixed(1)}</span>
+          </div>
+          <div>
+            Reward: <span className="text-zinc-900 dark:text-zinc-100">{step.reward.toFixed(3)}</span>
+          </div>
+          <div>
+            Return: <span className="text-zinc-900 dark:text-zinc-100">{returnSoFar.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { GAME_MODES, GameStatus, describeRun } from '../lib/game/modes';
+import { LeaderboardEntry } from '../lib/game/leaderboard';
+
+// Shown by the Home game when a run ends.
+
+interface GameResultsProps {
+  status: GameStatus;
+  rank: number | null; // leaderboard position of this run, if it placed
+  entries: LeaderboardEntry[];
+  onPlayAgain: () => void;
+  onClose: () => void;
+}
+
+export const GameResults: React.FC<GameResultsProps> = ({ status, rank, entries, onPlayAgain, onClose }) => {
+  const mode = GAME_MODES.find(item => item.id === status.mode);
+
+  return (
+    <motion.div
+      role="dialog"
+      aria-label="Run results"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+      className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-40 w-[min(360px,calc(100%-3rem))] border border-zinc-200 dark:border-zinc-800 bg-white/90 dark:bg-zinc-900/90 backdrop-blur-sm p-6 shadow-sm pointer-events-auto font-mono"
+    >
+      <div className="text-sm text-zinc-500">{mode?.label} · run over</div>
+      <div className="mt-2 text-4xl font-medium text-zinc-900 dark:text-zinc-100">{status.score}</div>
+      <div className="text-sm text-zinc-500">{describeRun(status)}</div>
+      {rank !== null && (
+        <div className="mt-3 text-sm text-accent-600 dark:text-accent-500">
+          {rank === 0 ? 'New high score!' : `#${rank + 1} on this browser`}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <ol className="mt-4 space-y-1 text-xs text-zinc-500">
+          {entries.map((entry, index) => (
+            <li key={`${entry.at}-${index}`} className={index === rank ? 'text-zinc-900 dark:text-zinc-100' : ''}>
+              {index + 1}. {entry.score.toString().padStart(2, '0')} · {entry.detail}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-6 flex gap-3">
+        <button
+          onClick={onPlayAgain}
+          autoFocus
+          className="px-4 py-2 text-sm border border-accent-500 text-accent-600 dark:text-accent-500 transition-colors hover:bg-accent-500/10"
+        >
+          Play again
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm border border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </motion.div>
+  );
+};
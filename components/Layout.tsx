@@ -1,24 +1,46 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { NavLink, Outlet, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Mail, Plus, Sun, Moon } from 'lucide-react';
+import { Mail, Plus, Sun, Moon, Monitor } from 'lucide-react';
+import { ThemeMode, useTheme } from './ThemeProvider';
+import { ContactTransport, createTransport, watchOutbox } from '../lib/contact';
+import { MetricsCounts, cachedCounts, metricsAvailable, reportPageView } from '../lib/metrics';
+import { FEEDS } from '../lib/site';
+import { ContactForm } from './ContactForm';
+
+const NEXT_THEME: Record<ThemeMode, ThemeMode> = { system: 'light', light: 'dark', dark: 'system' };
+
+// A misconfigured transport disables the contact form, not the whole app
+const loadTransport = (): { transport: ContactTransport | null; error: string | null } => {
+  try {
+    return { transport: createTransport(), error: null };
+  } catch (err) {
+    return { transport: null, error: err instanceof Error ? err.message : String(err) };
+  }
+};
 
 export const Layout: React.FC = () => {
   const location = useLocation();
   const isPlayground = location.pathname === '/experiments';
   const [contactOpen, setContactOpen] = useState(false);
-  const [contactStatus, setContactStatus] = useState<'idle' | 'sending' | 'success' | 'error'>('idle');
-  const [isDark, setIsDark] = useState(true);
+  const { mode, setMode } = useTheme();
+  const [contact] = useState(loadTransport);
 
-  // Toggle Theme
+  const [counts, setCounts] = useState<MetricsCounts | null>(cachedCounts);
+
+  // Deliver messages queued while offline, now and on reconnect
+  useEffect(() => (contact.transport ? watchOutbox(contact.transport) : undefined), [contact]);
+
+  // Report each route as a page view; falls back to the last known counts
   useEffect(() => {
-    const root = window.document.documentElement;
-    if (isDark) {
-      root.classList.add('dark');
-    } else {
-      root.classList.remove('dark');
-    }
-  }, [isDark]);
+    let cancelled = false;
+    reportPageView(location.pathname).then(result => {
+      if (!cancelled && result.counts) setCounts(result.counts);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [location.pathname]);
 
   const navLinks = [
     { path: '/', label: 'Home' },
@@ -29,7 +51,12 @@ export const Layout: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col selection:bg-accent-500/30 selection:text-accent-500 relative bg-zinc-50 dark:bg-zinc-950 transition-colors duration-500">
-      
+      {/* React hoists these into <head>. Relative, since the site is served
+          from a subpath (see SITE.url) and routes live in the hash. */}
+      {FEEDS.map(feed => (
+        <link key={feed.href} rel="alternate" type={feed.type} title={feed.title} href={feed.href} />
+      ))}
+
       {/* Global Texture & Gradient Background */}
       <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden">
         {/* Noise overlay */}
@@ -92,13 +119,14 @@ export const Layout: React.FC = () => {
               ))}
             </nav>
             
-            {/* Theme Toggle */}
+            {/* Theme Toggle: system → light → dark */}
             <button 
-              onClick={() => setIsDark(!isDark)}
+              onClick={() => setMode(NEXT_THEME[mode])}
               className="w-10 h-10 flex items-center justify-center text-zinc-500 hover:text-accent-500 transition-colors"
-              aria-label="Toggle theme"
+              aria-label={`Theme: ${mode}. Switch to ${NEXT_THEME[mode]}`}
+              title={`Theme: ${mode}`}
             >
-              {isDark ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+              {mode === 'system' ? <Monitor className="w-5 h-5" /> : mode === 'light' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
           </div>
         </header>
@@ -115,7 +143,7 @@ export const Layout: React.FC = () => {
             transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }} 
             className="flex-grow flex flex-col"
           >
-            <Outlet context={{ isDark }} />
+            <Outlet />
           </motion.div>
         </AnimatePresence>
       </main>
@@ -124,8 +152,12 @@ export const Layout: React.FC = () => {
         <div className="fixed bottom-0 w-full p-6 md:p-12 flex justify-end md:justify-between items-end pointer-events-none z-50">
           {/* Dynamic Counters */}
           <div className="hidden md:block font-mono text-xs md:text-sm text-zinc-600 dark:text-zinc-500 space-y-1">
-             <Counter label="humans" initialValue={1421} updateInterval={null} />
-             <Counter label="agents" initialValue={37} updateInterval={5000} />
+             {metricsAvailable() && (
+               <>
+                 <Counter label="humans" value={counts ? counts.visitors.human : null} />
+                 <Counter label="agents" value={counts ? counts.visitors.ai + counts.visitors.bot : null} />
+               </>
+             )}
           </div>
 
           {/* Contact Trigger */}
@@ -144,70 +176,13 @@ export const Layout: React.FC = () => {
                         <Plus className="rotate-45 w-5 h-5" />
                       </button>
                    </div>
-                   <form
-                     action="https://formspree.io/f/xqedyrjl"
-                     method="POST"
-                     className="space-y-4"
-                     onSubmit={async (e) => {
-                       e.preventDefault();
-                       if (contactStatus === 'sending') return;
-                       setContactStatus('sending');
-                       try {
-                         const form = e.currentTarget;
-                         const formData = new FormData(form);
-                         const res = await fetch('https://formspree.io/f/xqedyrjl', {
-                           method: 'POST',
-                           body: formData,
-                           headers: { Accept: 'application/json' }
-                         });
-                         if (!res.ok) throw new Error('Request failed');
-                         setContactStatus('success');
-                         form.reset();
-                       } catch {
-                         setContactStatus('error');
-                       }
-                     }}
-                   >
-                     <input type="hidden" name="_subject" value="New message from portfolio contact form" />
-                     <input
-                       type="text"
-                       name="name"
-                       required
-                       placeholder="Name"
-                       className="w-full p-3 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-sm text-sm text-zinc-700 dark:text-zinc-200 placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-accent-500/40"
-                     />
-                     <input
-                       type="email"
-                       name="email"
-                       required
-                       placeholder="Email"
-                       className="w-full p-3 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-sm text-sm text-zinc-700 dark:text-zinc-200 placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-accent-500/40"
-                     />
-                     <textarea
-                       name="message"
-                       required
-                       rows={4}
-                       placeholder="Message"
-                       className="w-full p-3 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-sm text-sm text-zinc-700 dark:text-zinc-200 placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-accent-500/40 resize-none"
-                     />
-                     {contactStatus === 'success' && (
-                       <div className="text-sm text-emerald-600 dark:text-emerald-400">
-                         Message sent. I’ll get back to you soon.
-                       </div>
-                     )}
-                     {contactStatus === 'error' && (
-                       <div className="text-sm text-rose-600 dark:text-rose-400">
-                         Something went wrong. Please try again.
-                       </div>
-                     )}
-                     <button
-                       type="submit"
-                       className="block w-full text-center text-sm bg-zinc-900 dark:bg-zinc-100 text-zinc-100 dark:text-zinc-900 py-3 font-medium hover:bg-accent-500 dark:hover:bg-accent-500 hover:text-white dark:hover:text-white transition-colors rounded-sm disabled:opacity-70 disabled:cursor-not-allowed"
-                       disabled={contactStatus === 'sending'}
-                     >
-                       {contactStatus === 'sending' ? 'Sending...' : 'Send Message'}
-                     </button>
-                   </form>
+                   {contact.transport ? (
+                     <ContactForm transport={contact.transport} />
+                   ) : (
+                     <div role="alert" className="text-sm text-rose-600 dark:text-rose-400">
+                       The contact form is unavailable right now ({contact.error}).
+                     </div>
+                   )}
                  </motion.div>
                )}
              </AnimatePresence>
@@ -230,21 +205,9 @@ export const Layout: React.FC = () => {
   );
 };
 
-const Counter: React.FC<{ label: string; initialValue: number; updateInterval: number | null }> = ({ label, initialValue, updateInterval }) => {
-  const [count, setCount] = React.useState(initialValue);
-
-  React.useEffect(() => {
-    if (!updateInterval) return;
-    const interval = setInterval(() => {
-       setCount(c => c + 1);
-    }, updateInterval);
-    return () => clearInterval(interval);
-  }, [updateInterval]);
-
-  return (
-    <div className="flex items-center gap-6">
-      <span className="opacity-50 text-xs md:text-sm">{label}</span>
-      <span className="text-sm md:text-base">{count.toString().padStart(4, '0')}</span>
-    </div>
-  );
-}
+const Counter: React.FC<{ label: string; value: number | null }> = ({ label, value }) => (
+  <div className="flex items-center gap-6">
+    <span className="opacity-50 text-xs md:text-sm">{label}</span>
+    <span className="text-sm md:text-base">{value === null ? '----' : value.toString().padStart(4, '0')}</span>
+  </div>
+);
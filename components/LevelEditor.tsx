@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Level, Obstacle } from '../lib/sim/level';
+
+// DOM overlay for editing a level on top of the arm canvas. Every item is a
+// focusable handle: drag to move, drag the corner to resize, arrow keys to
+// nudge (Shift for 10px), Delete to remove an obstacle.
+
+export const GOAL_ITEM = 'goal';
+export const SPAWN_ITEM = 'spawn';
+
+interface LevelEditorProps {
+  level: Level;
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (level: Level) => void;
+}
+
+type DragMode = 'move' | 'resize';
+
+const MIN_SIZE = 12;
+const round = (v: number) => Math.round(v);
+
+// Applies a pointer delta to one item, returning a new level.
+const transform = (level: Level, id: string, mode: DragMode, dx: number, dy: number): Level => {
+  if (id === GOAL_ITEM) {
+    const { goal } = level;
+    return {
+      ...level,
+      goal:
+        mode === 'move'
+          ? { ...goal, x: round(goal.x + dx), y: Math.max(0, round(goal.y + dy)) }
+          : { ...goal, width: Math.max(MIN_SIZE, round(goal.width + dx)), height: Math.max(MIN_SIZE, round(goal.height + dy)) },
+    };
+  }
+
+  if (id === SPAWN_ITEM) {
+    const { x, y } = level.spawn;
+    return {
+      ...level,
+      spawn: {
+        ...level.spawn,
+        ...(mode === 'move'
+          ? { x: [round(x[0] + dx), round(x[1] + dx)], y: [round(y[0] + dy), round(y[1] + dy)] }
+          : { x: [x[0], Math.max(x[0], round(x[1] + dx))], y: [y[0], Math.max(y[0], round(y[1] + dy))] }),
+      },
+    };
+  }
+
+  return {
+    ...level,
+    obstacles: level.obstacles.map((o): Obstacle => {
+      if (o.id !== id) return o;
+      if (mode === 'move') return { ...o, x: round(o.x + dx), y: round(o.y + dy) };
+      return o.kind === 'bumper'
+        ? { ...o, radius: Math.max(MIN_SIZE / 2, round(o.radius + dx)) }
+        : { ...o, width: Math.max(MIN_SIZE, round(o.width + dx)), height: Math.max(MIN_SIZE, round(o.height + dy)) };
+    }),
+  };
+};
+
+// Screen-space box for an item, in viewport px.
+const itemBox = (level: Level, id: string, centre: number) => {
+  if (id === GOAL_ITEM) {
+    const { goal } = level;
+    return { left: centre + goal.x, top: goal.y, width: goal.width, height: goal.height, round: false };
+  }
+  if (id === SPAWN_ITEM) {
+    const { x, y } = level.spawn;
+    const width = Math.max(24, x[1] - x[0]);
+    const height = Math.max(24, y[1] - y[0]);
+    return {
+      left: centre + (x[0] + x[1]) / 2 - width / 2,
+      top: (y[0] + y[1]) / 2 - height / 2,
+      width,
+      height,
+      round: false,
+    };
+  }
+  const o = level.obstacles.find(item => item.id === id);
+  if (!o) return null;
+  return o.kind === 'bumper'
+    ? { left: centre + o.x - o.radius, top: o.y - o.radius, width: o.radius * 2, height: o.radius * 2, round: true }
+    : { left: centre + o.x, top: o.y, width: o.width, height: o.height, round: false };
+};
+
+const itemLabel = (level: Level, id: string) => {
+  if (id === GOAL_ITEM) return 'goal';
+  if (id === SPAWN_ITEM) return 'spawn';
+  const o = level.obstacles.find(item => item.id === id);
+  return o?.motion ? `${id} ↔ ${o.motion.axis}` : id;
+};
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ level, selected, onSelect, onChange }) => {
+  const [centre, setCentre] = useState(() => window.innerWidth / 2);
+  const dragRef = useRef<{ id: string; mode: DragMode; x: number; y: number; start: Level } | null>(null);
+
+  useEffect(() => {
+    const resize = () => setCentre(window.innerWidth / 2);
+    window.addEventListener('resize', resize);
+    return () => window.removeEventListener('resize', resize);
+  }, []);
+
+  const beginDrag = (e: React.PointerEvent, id: string, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { id, mode, x: e.clientX, y: e.clientY, start: level };
+    onSelect(id);
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    onChange(transform(drag.start, drag.id, drag.mode, e.clientX - drag.x, e.clientY - drag.y));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleKey = (e: React.KeyboardEvent, id: string) => {
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      onChange(transform(level, id, 'move', ...moves[e.key]));
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && id !== GOAL_ITEM && id !== SPAWN_ITEM) {
+      e.preventDefault();
+      onChange({ ...level, obstacles: level.obstacles.filter(o => o.id !== id) });
+      onSelect(null);
+    }
+  };
+
+  const items = [GOAL_ITEM, SPAWN_ITEM, ...level.obstacles.map(o => o.id)];
+
+  return (
+    <div className="absolute inset-0 z-20 cursor-crosshair" onPointerDown={() => onSelect(null)}>
+      {items.map(id => {
+        const box = itemBox(level, id, centre);
+        if (!box) return null;
+        const isSelected = selected === id;
+        const tone =
+          id === GOAL_ITEM || id === SPAWN_ITEM
+            ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+            : 'border-zinc-500 text-zinc-500';
+        return (
+          <div
+            key={id}
+            role="button"
+            tabIndex={0}
+            aria-label={`Level item ${itemLabel(level, id)}`}
+            aria-pressed={isSelected}
+            onPointerDown={e => beginDrag(e, id, 'move')}
+            onPointerMove={moveDrag}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onFocus={() => onSelect(id)}
+            onKeyDown={e => handleKey(e, id)}
+            className={`absolute border-2 border-dashed ${tone} cursor-move touch-none select-none focus:outline-none ${
+              box.round ? 'rounded-full' : ''
+            } ${isSelected ? 'ring-2 ring-accent-500/60 bg-accent-500/10' : 'bg-transparent'}`}
+            style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+          >
+            <span className="absolute -top-5 left-0 text-[10px] font-mono whitespace-nowrap">{itemLabel(level, id)}</span>
+            {isSelected && (
+              <span
+                aria-hidden
+                onPointerDown={e => beginDrag(e, id, 'resize')}
+                onPointerMove={moveDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-accent-500 cursor-nwse-resize"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,79 +1,50 @@
 import React, { useEffect, useRef } from 'react';
-
-export type PhysicsState = {
-  ball: { x: number; y: number; vx: number; vy: number; radius: number };
-  effector: { x: number; y: number };
-  goal: { x: number; y: number; width: number; height: number };
-  viewport: { width: number; height: number };
-};
-
-export type SimulationControl = {
-  reset: () => void;
-};
+import { useTheme } from './ThemeProvider';
+import { armTheme, drawScene, fitCanvas } from './armCanvas';
+import { ArmModel, PhysicsState } from '../lib/sim/physics';
+import { Level } from '../lib/sim/level';
+import { TrainingClient } from '../lib/rl/client';
 
 interface RoboticArmProps {
-  isDark: boolean;
-  isRunning: boolean;
-  simulationSpeed: number;
-  onGetAction: (state: PhysicsState) => { dx: number; dy: number };
-  onEpisodeEnd: (result: 'goal' | 'miss') => void;
-  controlRef: React.MutableRefObject<SimulationControl | null>;
+  // The training worker runs the environment; this canvas only draws the
+  // frames it posts and tells it about the arm, level and viewport.
+  client: TrainingClient | null;
+  arm: ArmModel;
+  level: Level;
+  // When it holds a frame, that frame is drawn instead of the worker's
+  // (episode replays). A ref, so playback doesn't re-render the page.
+  frameRef?: React.MutableRefObject<PhysicsState | null>;
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>; // for clip export
 }
 
 export const RoboticArm: React.FC<RoboticArmProps> = ({
-  isDark,
-  isRunning,
-  simulationSpeed,
-  onGetAction,
-  onEpisodeEnd,
-  controlRef,
+  client,
+  arm,
+  level,
+  frameRef,
+  canvasRef: externalCanvasRef,
 }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ownCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = externalCanvasRef ?? ownCanvasRef;
+  const { isDark } = useTheme();
 
-  // Keep callbacks stable so the RAF loop effect doesn't restart every render
-  const onGetActionRef = useRef(onGetAction);
-  const onEpisodeEndRef = useRef(onEpisodeEnd);
+  // Keep props in refs so the RAF loop effect doesn't restart every render
+  const isDarkRef = useRef(isDark);
   useEffect(() => {
-    onGetActionRef.current = onGetAction;
-  }, [onGetAction]);
-  useEffect(() => {
-    onEpisodeEndRef.current = onEpisodeEnd;
-  }, [onEpisodeEnd]);
-
-  const phys = useRef({
-    l1: 280,
-    l2: 260,
-    theta1: Math.PI / 2,
-    theta2: Math.PI / 4,
-    targetX: 0,
-    targetY: 0,
-    ball: { x: 0, y: 0, vx: 0, vy: 0, radius: 28, active: false },
-    goal: { x: 0, y: 40, width: 200, height: 50 },
-    width: 0,
-    height: 0,
-  });
-
-  const resetEpisode = () => {
-    const p = phys.current;
-    if (p.width <= 0 || p.height <= 0) return;
-
-    p.ball.x = p.width / 2 + 140 + (Math.random() * 120 - 60);
-    p.ball.y = Math.min(p.height / 2 - 40, 260);
-    p.ball.vx = (Math.random() - 0.5) * 6;
-    p.ball.vy = (Math.random() - 0.5) * 4;
-    p.ball.active = true;
+    isDarkRef.current = isDark;
+  }, [isDark]);
 
-    p.targetX = p.width / 2;
-    p.targetY = p.height / 2;
-  };
+  useEffect(() => {
+    client?.send({ type: 'arm', arm });
+  }, [client, arm]);
 
   useEffect(() => {
-    controlRef.current = { reset: () => resetEpisode() };
-  }, [controlRef]);
+    client?.send({ type: 'level', level });
+  }, [client, level]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !client) return;
 
     const ctx = canvas.getContext('2d', { alpha: true, desynchronized: true });
     if (!ctx) return;
@@ -82,286 +53,22 @@ export const RoboticArm: React.FC<RoboticArmProps> = ({
     ctx.imageSmoothingQuality = 'high';
 
     const resize = () => {
-      const dpr = window.devicePixelRatio || 1;
-      const width = window.innerWidth;
-      const height = window.innerHeight;
-
-      const p = phys.current;
-      p.width = width;
-      p.height = height;
-      p.goal.x = width / 2 - p.goal.width / 2;
-
-      canvas.width = Math.floor(width * dpr);
-      canvas.height = Math.floor(height * dpr);
-      canvas.style.width = `${width}px`;
-      canvas.style.height = `${height}px`;
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-
-      resetEpisode();
+      fitCanvas(canvas, ctx, window.innerWidth, window.innerHeight);
+      client.send({ type: 'resize', width: window.innerWidth, height: window.innerHeight });
     };
 
     resize();
     window.addEventListener('resize', resize);
 
-    const solveIK = (tx: number, ty: number) => {
-      const p = phys.current;
-      const bx = p.width / 2;
-      const by = p.height;
-
-      let dx = tx - bx;
-      let dy = ty - by;
-
-      let dist = Math.sqrt(dx * dx + dy * dy);
-      dist = Math.max(dist, 1e-6);
-
-      const maxReach = p.l1 + p.l2 - 2;
-      if (dist > maxReach) {
-        const ratio = maxReach / dist;
-        dx *= ratio;
-        dy *= ratio;
-        dist = maxReach;
-      }
-
-      const alpha = Math.atan2(dy, dx);
-
-      const cosBeta = (dist * dist + p.l1 * p.l1 - p.l2 * p.l2) / (2 * dist * p.l1);
-      const beta = Math.acos(Math.max(-1, Math.min(1, cosBeta)));
-
-      const cosGamma = (p.l1 * p.l1 + p.l2 * p.l2 - dist * dist) / (2 * p.l1 * p.l2);
-      const gamma = Math.acos(Math.max(-1, Math.min(1, cosGamma)));
-
-      return { t1: alpha - beta, t2: Math.PI - gamma };
-    };
-
-    const FIXED_DT = 1 / 60;
-    const MAX_STEPS_PER_FRAME = 10;
-    const GRAVITY_PER_SEC = 22.8;
-    const RESTITUTION = 0.65;
-    const FRICTION_TANGENTIAL = 0.98;
-
-    const updatePhysics = (dt: number) => {
-      const p = phys.current;
-
-      const bx = p.width / 2;
-      const by = p.height;
-
-      // Pre-IK joint positions (where arm is NOW, before this step's IK)
-      const preJ1x = bx + Math.cos(p.theta1) * p.l1;
-      const preJ1y = by + Math.sin(p.theta1) * p.l1;
-      const preEx = preJ1x + Math.cos(p.theta1 + p.theta2) * p.l2;
-      const preEy = preJ1y + Math.sin(p.theta1 + p.theta2) * p.l2;
-
-      if (isRunning && p.ball.active) {
-        const action = onGetActionRef.current({
-          ball: { x: p.ball.x, y: p.ball.y, vx: p.ball.vx, vy: p.ball.vy, radius: p.ball.radius },
-          effector: { x: preEx, y: preEy },
-          goal: { x: p.goal.x, y: p.goal.y, width: p.goal.width, height: p.goal.height },
-          viewport: { width: p.width, height: p.height },
-        });
-
-        const frameScale = dt / FIXED_DT;
-
-        p.targetX = Math.max(0, Math.min(p.width, p.targetX + action.dx * frameScale));
-        p.targetY = Math.max(0, Math.min(p.height, p.targetY + action.dy * frameScale));
-      }
-
-      const { t1, t2 } = solveIK(p.targetX, p.targetY);
-      const ikAlpha = 1 - Math.pow(1 - 0.12, dt / FIXED_DT);
-      p.theta1 += (t1 - p.theta1) * ikAlpha;
-      p.theta2 += (t2 - p.theta2) * ikAlpha;
-
-      // Post-IK joint positions (where arm IS after moving)
-      const j1x = bx + Math.cos(p.theta1) * p.l1;
-      const j1y = by + Math.sin(p.theta1) * p.l1;
-      const ex = j1x + Math.cos(p.theta1 + p.theta2) * p.l2;
-      const ey = j1y + Math.sin(p.theta1 + p.theta2) * p.l2;
-
-      // Arm segment velocities (displacement this step, same units as ball.vx/vy)
-      const j1vx = j1x - preJ1x;
-      const j1vy = j1y - preJ1y;
-      const evx = ex - preEx;
-      const evy = ey - preEy;
-
-      if (!p.ball.active) return;
-
-      p.ball.vy += GRAVITY_PER_SEC * dt;
-      p.ball.x += p.ball.vx * dt * 60;
-      p.ball.y += p.ball.vy * dt * 60;
-
-      // Collision with arm segments — uses RELATIVE velocity so arm motion
-      // transfers momentum to the ball (critical for reaching the goal)
-      const collideSegment = (
-        ax: number,
-        ay: number,
-        bx2: number,
-        by2: number,
-        radius: number,
-        startVx: number,
-        startVy: number,
-        endVx: number,
-        endVy: number
-      ) => {
-        const abx = bx2 - ax;
-        const aby = by2 - ay;
-        const apx = p.ball.x - ax;
-        const apy = p.ball.y - ay;
-        const abLenSq = abx * abx + aby * aby || 1;
-
-        const t = Math.max(0, Math.min(1, (apx * abx + apy * aby) / abLenSq));
-        const cx = ax + abx * t;
-        const cy = ay + aby * t;
-
-        const dx = p.ball.x - cx;
-        const dy = p.ball.y - cy;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (dist >= radius) return false;
-
-        const nx = dist === 0 ? 0 : dx / dist;
-        const ny = dist === 0 ? -1 : dy / dist;
-
-        const pushOut = radius - dist + 0.5;
-        p.ball.x += nx * pushOut;
-        p.ball.y += ny * pushOut;
-
-        // Arm velocity at the collision point (interpolated along segment)
-        const segVx = (1 - t) * startVx + t * endVx;
-        const segVy = (1 - t) * startVy + t * endVy;
-
-        // Relative velocity of ball w.r.t. the moving arm
-        const relVx = p.ball.vx - segVx;
-        const relVy = p.ball.vy - segVy;
-        const vN = relVx * nx + relVy * ny;
-
-        if (vN < 0) {
-          // Bounce using relative velocity — arm motion adds energy to the ball
-          p.ball.vx -= (1 + RESTITUTION) * vN * nx;
-          p.ball.vy -= (1 + RESTITUTION) * vN * ny;
-
-          const tx = -ny;
-          const ty = nx;
-          const vT = p.ball.vx * tx + p.ball.vy * ty;
-          p.ball.vx -= (1 - FRICTION_TANGENTIAL) * vT * tx;
-          p.ball.vy -= (1 - FRICTION_TANGENTIAL) * vT * ty;
-        }
-
-        return true;
-      };
-
-      const armRadius = p.ball.radius + 14;
-      // Segment 1: base(fixed) → joint1(moving)
-      collideSegment(bx, by, j1x, j1y, armRadius, 0, 0, j1vx, j1vy);
-      // Segment 2: joint1(moving) → effector(moving)
-      collideSegment(j1x, j1y, ex, ey, armRadius, j1vx, j1vy, evx, evy);
-
-      const r = p.ball.radius;
-      if (p.ball.x - r < 0) {
-        p.ball.x = r;
-        if (p.ball.vx < 0) p.ball.vx *= -0.85;
-      }
-      if (p.ball.x + r > p.width) {
-        p.ball.x = p.width - r;
-        if (p.ball.vx > 0) p.ball.vx *= -0.85;
-      }
-
-      if (p.ball.y + r > p.height) {
-        onEpisodeEndRef.current('miss');
-        resetEpisode();
-        return;
-      }
-
-      const gx = p.goal.x;
-      const gy = p.goal.y;
-      const gw = p.goal.width;
-      const gh = p.goal.height;
-
-      const closestX = Math.max(gx, Math.min(p.ball.x, gx + gw));
-      const closestY = Math.max(gy, Math.min(p.ball.y, gy + gh));
-      const ddx = p.ball.x - closestX;
-      const ddy = p.ball.y - closestY;
-
-      if (ddx * ddx + ddy * ddy <= r * r) {
-        onEpisodeEndRef.current('goal');
-        resetEpisode();
-        return;
-      }
-    };
+    let latest: PhysicsState | null = null;
+    const unsubscribe = client.subscribe(event => {
+      if (event.type === 'frame') latest = event.state;
+    });
 
     let rafId = 0;
-    let lastT = performance.now();
-    let acc = 0;
-
-    const loop = (t: number) => {
-      const p = phys.current;
-
-      const dtReal = Math.min(0.05, (t - lastT) / 1000);
-      lastT = t;
-
-      const speedScale = isRunning ? Math.max(1, simulationSpeed) : 1;
-      acc += dtReal * speedScale;
-
-      let steps = 0;
-      while (acc >= FIXED_DT && steps < MAX_STEPS_PER_FRAME) {
-        updatePhysics(FIXED_DT);
-        acc -= FIXED_DT;
-        steps += 1;
-      }
-      if (steps >= MAX_STEPS_PER_FRAME) acc = 0;
-
-      ctx.clearRect(0, 0, p.width, p.height);
-
-      const theme = isDark
-        ? { stroke: '#f59e0b', jointFill: '#18181b', jointStroke: '#f59e0b', accent: '#f59e0b' }
-        : { stroke: '#d97706', jointFill: '#f4f4f5', jointStroke: '#d97706', accent: '#d97706' };
-
-      ctx.strokeStyle = theme.accent;
-      ctx.lineWidth = 4;
-      ctx.beginPath();
-      ctx.moveTo(p.goal.x, p.goal.y + p.goal.height);
-      ctx.lineTo(p.goal.x, p.goal.y);
-      ctx.lineTo(p.goal.x + p.goal.width, p.goal.y);
-      ctx.lineTo(p.goal.x + p.goal.width, p.goal.y + p.goal.height);
-      ctx.stroke();
-
-      const bx = p.width / 2;
-      const by = p.height;
-      const j1x = bx + Math.cos(p.theta1) * p.l1;
-      const j1y = by + Math.sin(p.theta1) * p.l1;
-      const ex = j1x + Math.cos(p.theta1 + p.theta2) * p.l2;
-      const ey = j1y + Math.sin(p.theta1 + p.theta2) * p.l2;
-
-      ctx.strokeStyle = theme.stroke;
-      ctx.lineWidth = 3;
-      ctx.lineCap = 'round';
-      ctx.beginPath();
-      ctx.moveTo(bx, by);
-      ctx.lineTo(j1x, j1y);
-      ctx.lineTo(ex, ey);
-      ctx.stroke();
-
-      ctx.fillStyle = theme.jointFill;
-      ctx.strokeStyle = theme.jointStroke;
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.arc(j1x, j1y, 4, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-
-      ctx.fillStyle = theme.accent;
-      ctx.beginPath();
-      ctx.arc(ex, ey, 3, 0, Math.PI * 2);
-      ctx.fill();
-
-      if (p.ball.active) {
-        ctx.fillStyle = theme.accent;
-        ctx.beginPath();
-        ctx.arc(p.ball.x, p.ball.y, p.ball.radius, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.strokeStyle = isDark ? '#fbbf24' : '#b45309';
-        ctx.lineWidth = 2;
-        ctx.stroke();
-      }
-
+    const loop = () => {
+      const frame = frameRef?.current ?? latest;
+      if (frame) drawScene(ctx, frame, armTheme(isDarkRef.current));
       rafId = requestAnimationFrame(loop);
     };
 
@@ -369,9 +76,10 @@ export const RoboticArm: React.FC<RoboticArmProps> = ({
 
     return () => {
       cancelAnimationFrame(rafId);
+      unsubscribe();
       window.removeEventListener('resize', resize);
     };
-  }, [isDark, isRunning, simulationSpeed, controlRef]);
+  }, [client]);
 
   return <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full" />;
 };
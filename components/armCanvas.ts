@@ -0,0 +1,151 @@
+import { Ball, ObstacleState, PhysicsState, Rect } from '../lib/sim/physics';
+
+// Canvas drawing shared by the arm components. Everything here is stateless:
+// pass a PhysicsState snapshot and a theme.
+
+export interface ArmTheme {
+  stroke: string;
+  jointFill: string;
+  jointStroke: string;
+  accent: string;
+  ballStroke: string;
+  obstacleFill: string;
+  obstacleStroke: string;
+  background: string; // the page background, for exported clips
+  text: string;
+}
+
+export const armTheme = (isDark: boolean): ArmTheme =>
+  isDark
+    ? {
+        stroke: '#f59e0b',
+        jointFill: '#18181b',
+        jointStroke: '#f59e0b',
+        accent: '#f59e0b',
+        ballStroke: '#fbbf24',
+        obstacleFill: '#27272a',
+        obstacleStroke: '#a1a1aa',
+        background: '#09090b',
+        text: '#e4e4e7',
+      }
+    : {
+        stroke: '#d97706',
+        jointFill: '#f4f4f5',
+        jointStroke: '#d97706',
+        accent: '#d97706',
+        ballStroke: '#b45309',
+        obstacleFill: '#e4e4e7',
+        obstacleStroke: '#71717a',
+        background: '#fafafa',
+        text: '#18181b',
+      };
+
+// Sizes the canvas backing store for the device pixel ratio and returns the
+// CSS-pixel viewport.
+export const fitCanvas = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(width * dpr);
+  canvas.height = Math.floor(height * dpr);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+};
+
+export const drawGoal = (ctx: CanvasRenderingContext2D, goal: Rect, theme: ArmTheme, lineWidth = 4) => {
+  ctx.strokeStyle = theme.accent;
+  ctx.lineWidth = lineWidth;
+  ctx.beginPath();
+  ctx.moveTo(goal.x, goal.y + goal.height);
+  ctx.lineTo(goal.x, goal.y);
+  ctx.lineTo(goal.x + goal.width, goal.y);
+  ctx.lineTo(goal.x + goal.width, goal.y + goal.height);
+  ctx.stroke();
+};
+
+export const drawObstacles = (ctx: CanvasRenderingContext2D, obstacles: ObstacleState[], theme: ArmTheme) => {
+  ctx.fillStyle = theme.obstacleFill;
+  ctx.strokeStyle = theme.obstacleStroke;
+  ctx.lineWidth = 2;
+  for (const o of obstacles) {
+    ctx.beginPath();
+    if (o.kind === 'bumper') ctx.arc(o.x, o.y, o.radius, 0, Math.PI * 2);
+    else ctx.rect(o.x, o.y, o.width, o.height);
+    ctx.fill();
+    ctx.stroke();
+  }
+};
+
+export const drawArm = (
+  ctx: CanvasRenderingContext2D,
+  state: PhysicsState,
+  theme: ArmTheme,
+  options: { gripper?: boolean; baseArc?: boolean } = {}
+) => {
+  const { joints, angles } = state.arm;
+  const base = joints[0];
+  const effector = joints[joints.length - 1];
+
+  ctx.strokeStyle = theme.stroke;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (options.baseArc) {
+    ctx.beginPath();
+    ctx.arc(base.x, base.y, 6, Math.PI, 0);
+    ctx.stroke();
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(base.x, base.y);
+  for (let i = 1; i < joints.length; i++) ctx.lineTo(joints[i].x, joints[i].y);
+  ctx.stroke();
+
+  ctx.fillStyle = theme.jointFill;
+  ctx.strokeStyle = theme.jointStroke;
+  ctx.lineWidth = 1;
+  for (let i = 1; i < joints.length - 1; i++) {
+    ctx.beginPath();
+    ctx.arc(joints[i].x, joints[i].y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  let tip = effector;
+  if (options.gripper) {
+    const heading = angles.reduce((sum, a) => sum + a, 0);
+    const gripLen = 15;
+    tip = { x: effector.x + Math.cos(heading) * gripLen, y: effector.y + Math.sin(heading) * gripLen };
+    ctx.strokeStyle = theme.stroke;
+    ctx.beginPath();
+    ctx.moveTo(effector.x, effector.y);
+    ctx.lineTo(tip.x, tip.y);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = theme.accent;
+  ctx.beginPath();
+  ctx.arc(tip.x, tip.y, 3, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+export const drawBall = (ctx: CanvasRenderingContext2D, ball: Ball, theme: ArmTheme, alpha = 1) => {
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = theme.accent;
+  ctx.beginPath();
+  ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = theme.ballStroke;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+};
+
+// One full frame of the training scene, as drawn by the live canvas and replays.
+export const drawScene = (ctx: CanvasRenderingContext2D, state: PhysicsState, theme: ArmTheme) => {
+  ctx.clearRect(0, 0, state.viewport.width, state.viewport.height);
+  drawGoal(ctx, state.goal, theme);
+  drawObstacles(ctx, state.obstacles, theme);
+  drawArm(ctx, state, theme);
+  if (state.ballActive) drawBall(ctx, state.ball, theme);
+};
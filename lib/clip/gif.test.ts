@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '../random';
+import { GifOptions, createGifEncoder } from './gif';
+
+// ── A small GIF reader, just enough for what the encoder writes ──
+
+const decodeLzw = (data: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const indices: number[] = [];
+  let clears = 0;
+  let codeSize = minCodeSize + 1;
+  let dict: number[][] = [];
+  let prev: number[] | null = null;
+  let bitPos = 0;
+
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+    return code;
+  };
+
+  for (;;) {
+    if (bitPos + codeSize > data.length * 8) throw new Error('LZW stream ended without an end code');
+    const code = read();
+    if (code === clearCode) {
+      clears += 1;
+      codeSize = minCodeSize + 1;
+      dict = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+      prev = null;
+      continue;
+    }
+    if (code === endCode) break;
+    if (code > dict.length || (code === dict.length && !prev)) throw new Error(`Unexpected code ${code}`);
+    const entry = code < dict.length ? dict[code] : [...prev!, prev![0]];
+    indices.push(...entry);
+    if (prev) dict.push([...prev, entry[0]]);
+    prev = entry;
+    if (dict.length === 1 << codeSize && codeSize < 12) codeSize += 1;
+  }
+  // Not counting the clear every stream starts with
+  return { indices, clears: clears - 1 };
+};
+
+interface GifFrame {
+  disposal: number;
+  transparentIndex: number | null;
+  delay: number;
+  width: number;
+  height: number;
+  palette: Uint8Array;
+  indices: number[];
+  clears: number;
+}
+
+const readGif = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let pos = 0;
+  const byte = () => bytes[pos++];
+  const short = () => byte() | (byte() << 8);
+  const text = (length: number) => String.fromCharCode(...bytes.subarray(pos, (pos += length)));
+  const subBlocks = () => {
+    const parts: number[] = [];
+    for (let size = byte(); size > 0; size = byte()) parts.push(...bytes.subarray(pos, (pos += size)));
+    return new Uint8Array(parts);
+  };
+
+  const header = { signature: text(6), width: short(), height: short(), flags: byte() };
+  pos += 2; // background colour, aspect ratio
+  const extensions: { label: number; data: Uint8Array }[] = [];
+  const frames: GifFrame[] = [];
+  let control = { disposal: 0, transparentIndex: null as number | null, delay: 0 };
+
+  for (let block = byte(); block !== 0x3b; block = byte()) {
+    if (block === 0x21) {
+      const label = byte();
+      if (label === 0xf9) {
+        const [packed, delayLo, delayHi, transparent] = subBlocks();
+        control = {
+          disposal: (packed >> 2) & 7,
+          transparentIndex: packed & 1 ? transparent : null,
+          delay: delayLo | (delayHi << 8),
+        };
+      } else {
+        extensions.push({ label, data: subBlocks() });
+      }
+    } else if (block === 0x2c) {
+      pos += 4; // left, top
+      const width = short();
+      const height = short();
+      const flags = byte();
+      const palette = bytes.slice(pos, (pos += 3 << ((flags & 7) + 1)));
+      const minCodeSize = byte();
+      frames.push({ ...control, width, height, palette, ...decodeLzw(subBlocks(), minCodeSize) });
+    } else {
+      throw new Error(`Unexpected block 0x${block.toString(16)} at ${pos - 1}`);
+    }
+  }
+  return { header, extensions, frames, trailing: bytes.length - pos };
+};
+
+// ── Frames ──
+
+// 64 flat colours, each in its own 5-bit bucket so the palette keeps them exact
+const COLORS = Array.from({ length: 64 }, (_, c) => [(c & 7) * 32, ((c >> 3) & 7) * 32, 96]);
+
+const frameOf = (width: number, height: number, colorAt: (i: number) => number, alphaAt = (_i: number) => 255) => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    rgba.set([...COLORS[colorAt(i)], alphaAt(i)], i * 4);
+  }
+  return rgba;
+};
+
+const pixelsOf = ({ palette, indices }: GifFrame) => indices.map(index => [...palette.subarray(index * 3, index * 3 + 3)]);
+
+const encode = async (options: GifOptions, frames: Uint8ClampedArray[], delay = 40) => {
+  const gif = createGifEncoder(options);
+  frames.forEach(frame => gif.addFrame(frame, delay));
+  return readGif(gif.finish());
+};
+
+describe('createGifEncoder', () => {
+  it('writes a looping GIF89a header and a trailer', async () => {
+    const blob = createGifEncoder({ width: 320, height: 180 }).finish();
+    expect(blob.type).toBe('image/gif');
+
+    const { header, extensions, frames, trailing } = await readGif(blob);
+    expect(header).toEqual({ signature: 'GIF89a', width: 320, height: 180, flags: 0 });
+    expect(extensions).toHaveLength(1);
+    expect(extensions[0].label).toBe(0xff);
+    // NETSCAPE2.0 application block: sub-block 1 holds the loop count, 0 = forever
+    expect(String.fromCharCode(...extensions[0].data.subarray(0, 11))).toBe('NETSCAPE2.0');
+    expect([...extensions[0].data.subarray(11)]).toEqual([1, 0, 0]);
+    expect(frames).toEqual([]);
+    expect(trailing).toBe(0);
+  });
+
+  it('round-trips a multi-colour frame', async () => {
+    const rgba = frameOf(12, 10, i => (i * 7 + (i >> 2)) % COLORS.length);
+    const { frames } = await encode({ width: 12, height: 10 }, [rgba]);
+
+    expect(frames).toHaveLength(1);
+    const [frame] = frames;
+    expect(frame).toMatchObject({ width: 12, height: 10, disposal: 1, transparentIndex: null, delay: 4, clears: 0 });
+    expect(frame.palette.length).toBe(256 * 3);
+    expect(pixelsOf(frame)).toEqual(Array.from({ length: 120 }, (_, i) => COLORS[(i * 7 + (i >> 2)) % COLORS.length]));
+  });
+
+  it('clears the code table when it fills up and keeps decoding', async () => {
+    const rng = createRng(17);
+    const colors = Array.from({ length: 160 * 120 }, () => Math.floor(rng.next() * COLORS.length));
+    const { frames } = await encode({ width: 160, height: 120 }, [frameOf(160, 120, i => colors[i])]);
+
+    expect(frames[0].clears).toBeGreaterThan(0);
+    expect(pixelsOf(frames[0])).toEqual(colors.map(c => COLORS[c]));
+  });
+
+  it('gives every frame its own palette and delay', async () => {
+    const halves = frameOf(4, 4, i => (i < 8 ? 2 : 3));
+    const { frames } = await encode({ width: 4, height: 4 }, [frameOf(4, 4, () => 1), halves], 15);
+
+    expect(frames.map(frame => frame.delay)).toEqual([2, 2]);
+    expect(pixelsOf(frames[0])).toEqual(Array(16).fill(COLORS[1]));
+    expect(pixelsOf(frames[1])).toEqual([...Array(8).fill(COLORS[2]), ...Array(8).fill(COLORS[3])]);
+  });
+
+  it('maps see-through pixels to the transparent index', async () => {
+    const alphaAt = (i: number) => (i % 3 === 0 ? 0 : 255);
+    const { frames } = await encode({ width: 6, height: 6, transparent: true }, [frameOf(6, 6, i => i % 5, alphaAt)]);
+    const [frame] = frames;
+
+    expect(frame.transparentIndex).toBe(255);
+    expect(frame.disposal).toBe(2);
+    frame.indices.forEach((index, i) => {
+      if (alphaAt(i) === 0) expect(index).toBe(255);
+      else expect([...frame.palette.subarray(index * 3, index * 3 + 3)]).toEqual(COLORS[i % 5]);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+// Minimal animated GIF (GIF89a) encoder, for browsers without MediaRecorder.
+// Each frame gets its own 256-colour palette, built from the most common
+// colours in that frame: the scenes are a handful of flat colours plus
+// anti-aliasing, which a popularity palette covers well.
+
+const MAX_COLORS = 256;
+const TRANSPARENT_INDEX = 255;
+const MAX_CODE = 4096;
+
+// Growable byte buffer; finished chunks become Blob parts.
+const createByteWriter = () => {
+  const chunks: Uint8Array[] = [];
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const byte = (value: number) => {
+    if (length === buffer.length) {
+      chunks.push(buffer);
+      buffer = new Uint8Array(buffer.length);
+      length = 0;
+    }
+    buffer[length++] = value;
+  };
+
+  return {
+    byte,
+    bytes: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    short: (value: number) => {
+      byte(value & 0xff);
+      byte((value >> 8) & 0xff);
+    },
+    text: (value: string) => {
+      for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+    },
+    parts: (): Uint8Array[] => [...chunks, buffer.slice(0, length)],
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// 5 bits per channel: close enough to merge anti-aliasing shades, small
+// enough for a flat lookup table.
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// Maps RGBA pixels to palette indices. Pixels under half alpha become the
+// transparent index when `transparent` is set.
+const quantize = (rgba: Uint8ClampedArray, transparent: boolean) => {
+  const pixelCount = rgba.length / 4;
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  const opaque = (i: number) => !transparent || rgba[i * 4 + 3] >= 128;
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (!opaque(i)) continue;
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const bucket = bucketOf(r, g, b);
+    counts[bucket] += 1;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < counts.length; bucket++) if (counts[bucket] > 0) used.push(bucket);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const top = used.slice(0, transparent ? MAX_COLORS - 1 : MAX_COLORS);
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  top.forEach((bucket, index) => {
+    for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(sums[bucket * 3 + c] / counts[bucket]);
+  });
+
+  // Nearest palette entry per bucket, filled on first use
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < top.length; index++) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    if (!opaque(i)) {
+      indices[i] = TRANSPARENT_INDEX;
+      continue;
+    }
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const bucket = bucketOf(r, g, b);
+    if (lookup[bucket] < 0) lookup[bucket] = nearest(r, g, b);
+    indices[i] = lookup[bucket];
+  }
+
+  return { palette, indices };
+};
+
+// Variable-width LZW as GIF specifies it, packed LSB-first into sub-blocks
+// of at most 255 bytes.
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // Grows when the next entry no longer fits, in step with the decoder
+      if (nextCode >= 1 << codeSize) codeSize += 1;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0);
+};
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  transparent?: boolean; // pixels under half alpha become see-through
+}
+
+export const createGifEncoder = ({ width, height, transparent = false }: GifOptions) => {
+  const out = createByteWriter();
+
+  out.text('GIF89a');
+  out.short(width);
+  out.short(height);
+  out.bytes([0, 0, 0]); // no global colour table; every frame carries its own
+
+  // NETSCAPE2.0 application extension: loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.text('NETSCAPE2.0');
+  out.bytes([0x03, 0x01]);
+  out.short(0);
+  out.byte(0);
+
+  // `rgba` is width × height RGBA pixels, as from getImageData; `delay` in ms.
+  const addFrame = (rgba: Uint8ClampedArray, delay: number) => {
+    const { palette, indices } = quantize(rgba, transparent);
+
+    // Graphic control extension. Transparent clips clear each frame to the
+    // background, otherwise frames simply replace each other.
+    const disposal = transparent ? 2 : 1;
+    out.bytes([0x21, 0xf9, 0x04, (disposal << 2) | (transparent ? 1 : 0)]);
+    out.short(Math.max(2, Math.round(delay / 10)));
+    out.bytes([transparent ? TRANSPARENT_INDEX : 0, 0]);
+
+    // Image descriptor with a 256-entry local colour table
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0x80 | 7);
+    out.bytes(palette);
+
+    writeLzw(out, indices, 8);
+  };
+
+  const finish = () => {
+    out.byte(0x3b);
+    return new Blob(out.parts() as BlobPart[], { type: 'image/gif' });
+  };
+
+  return { addFrame, finish };
+};
+
+export type GifEncoder = ReturnType<typeof createGifEncoder>;
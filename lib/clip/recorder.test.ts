@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { clipSize } from './recorder';
+
+describe('clipSize', () => {
+  it('keeps the aspect ratio with even dimensions', () => {
+    expect(clipSize({ width: 800, height: 450 }, 640)).toEqual({ width: 640, height: 360 });
+    for (const [sourceWidth, sourceHeight, width] of [[801, 451, 640], [333, 177, 500], [1000, 563, 321]]) {
+      const size = clipSize({ width: sourceWidth, height: sourceHeight }, width);
+      expect(size.width % 2).toBe(0);
+      expect(size.height % 2).toBe(0);
+      const aspect = sourceWidth / sourceHeight;
+      expect(Math.abs(size.width / size.height - aspect)).toBeLessThan(0.05 * aspect);
+    }
+  });
+
+  it('never upscales the source or drops below 2px', () => {
+    expect(clipSize({ width: 400, height: 300 }, 1920)).toEqual({ width: 400, height: 300 });
+    expect(clipSize({ width: 1000, height: 10 }, 100)).toEqual({ width: 100, height: 2 });
+  });
+});
@@ -0,0 +1,155 @@
+import { createGifEncoder } from './gif';
+
+// Renders frames into an offscreen canvas at the clip's resolution and encodes
+// them as WebM (MediaRecorder over captureStream) or GIF (pure JS). Callers
+// draw in the source's CSS-pixel coordinates; the recorder scales, adds the
+// background and overlay, and hands the frame to the encoder.
+
+export type ClipFormat = 'webm' | 'gif';
+
+export interface ClipOptions {
+  format: ClipFormat;
+  width: number; // output px; height follows the source's aspect ratio
+  fps: number;
+  background: string | null; // null keeps the canvas transparent
+  overlayColor: string;
+}
+
+export interface ClipSource {
+  width: number;
+  height: number;
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const webmType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const supportsWebm = () =>
+  typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype && !!webmType();
+
+// Even dimensions, since video encoders reject odd ones.
+export const clipSize = (source: ClipSource, width: number) => {
+  const w = Math.min(width, source.width);
+  const even = (v: number) => Math.max(2, Math.round(v / 2) * 2);
+  return { width: even(w), height: even((w * source.height) / source.width) };
+};
+
+export const clipFilename = (name: string, format: ClipFormat) => `${name}.${format}`;
+
+// WebM timestamps come from the wall clock, so its frames must be added in
+// real time; GIF frames carry their own delay and can be added as fast as
+// they render.
+export const createClipRecorder = (source: ClipSource, options: ClipOptions) => {
+  const { width, height } = clipSize(source, options.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'gif' });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  const scale = width / source.width;
+  const frameMs = 1000 / options.fps;
+
+  const gif = options.format === 'gif' ? createGifEncoder({ width, height, transparent: !options.background }) : null;
+
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  const chunks: Blob[] = [];
+  const type = webmType();
+  if (!gif) {
+    if (!supportsWebm() || !type) throw new Error('WebM recording is not supported in this browser');
+    // Frame rate 0: frames are pushed with requestFrame() as they're drawn
+    const stream = canvas.captureStream(0);
+    track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    recorder = new MediaRecorder(stream, { mimeType: type });
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.start();
+  }
+
+  let frames = 0;
+
+  const drawOverlay = (lines: string[]) => {
+    const size = Math.max(10, Math.round(height / 28));
+    ctx.font = `${size}px monospace`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = options.overlayColor;
+    lines.forEach((line, i) => ctx.fillText(line, size, size + i * size * 1.4));
+  };
+
+  // `draw` paints the source frame; it may clear the canvas, so the
+  // background goes in behind it afterwards. `delay` is how long a GIF frame
+  // shows, for live captures that fall behind their frame rate.
+  const addFrame = (draw: (ctx: CanvasRenderingContext2D) => void, overlay: string[] = [], delay = frameMs) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    draw(ctx);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (options.background) {
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = options.background;
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+    if (overlay.length > 0) drawOverlay(overlay);
+
+    if (gif) gif.addFrame(ctx.getImageData(0, 0, width, height).data, delay);
+    else track?.requestFrame();
+    frames += 1;
+  };
+
+  const finish = (): Promise<Blob> => {
+    if (gif) return Promise.resolve(gif.finish());
+    return new Promise((resolve, reject) => {
+      if (!recorder) return reject(new Error('Recorder is not running'));
+      recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+      recorder.onerror = () => reject(new Error('Recording failed'));
+      recorder.stop();
+    });
+  };
+
+  const cancel = () => {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return {
+    addFrame,
+    finish,
+    cancel,
+    frameMs,
+    realtime: !gif,
+    frames: () => frames,
+  };
+};
+
+export type ClipRecorder = ReturnType<typeof createClipRecorder>;
+
+// Renders `count` frames from a function, pacing them for WebM and yielding
+// to the page now and then for GIF. Resolves with the encoded clip, or null
+// when `signal` aborts it.
+export const renderClip = async (
+  clip: ClipRecorder,
+  count: number,
+  frame: (index: number) => { draw: (ctx: CanvasRenderingContext2D) => void; overlay?: string[] },
+  signal?: AbortSignal,
+  onProgress?: (done: number) => void
+): Promise<Blob | null> => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const started = performance.now();
+  for (let i = 0; i < count; i++) {
+    if (signal?.aborted) {
+      clip.cancel();
+      return null;
+    }
+    const { draw, overlay } = frame(i);
+    clip.addFrame(draw, overlay);
+    onProgress?.(i + 1);
+    if (clip.realtime) await wait(Math.max(0, started + (i + 1) * clip.frameMs - performance.now()));
+    else if (i % 4 === 3) await wait(0);
+  }
+  return clip.finish();
+};
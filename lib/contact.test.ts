@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ContactError,
+  ContactMessage,
+  ContactTransport,
+  MIN_FILL_MS,
+  OUTBOX_RETRY_MS,
+  checkBot,
+  createTransport,
+  flushOutbox,
+  isRateLimited,
+  outboxSize,
+  queueMessage,
+  recordSend,
+  validateContact,
+  watchOutbox,
+} from './contact';
+
+const MESSAGE: ContactMessage = { name: 'Ada', email: 'ada@example.com', message: 'Hello there, nice site!' };
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const failWith = (error: Error): ContactTransport => ({ name: 'failing', send: () => Promise.reject(error) });
+
+describe('createTransport', () => {
+  it('defaults to the dev endpoint in dev and formspree otherwise', () => {
+    expect(createTransport({ DEV: true }).name).toBe('dev');
+    expect(createTransport({ DEV: false }).name).toBe('formspree');
+    expect(createTransport({ DEV: true, VITE_CONTACT_TRANSPORT: 'formspree' }).name).toBe('formspree');
+  });
+
+  it('needs a URL for the webhook and rejects unknown transports', () => {
+    expect(createTransport({ VITE_CONTACT_TRANSPORT: 'webhook', VITE_CONTACT_WEBHOOK_URL: 'https://hook' }).name).toBe('webhook');
+    expect(() => createTransport({ VITE_CONTACT_TRANSPORT: 'webhook' })).toThrow(/VITE_CONTACT_WEBHOOK_URL/);
+    expect(() => createTransport({ VITE_CONTACT_TRANSPORT: 'pigeon' })).toThrow(/Unknown contact transport "pigeon"/);
+  });
+});
+
+describe('transport errors', () => {
+  const fetch = vi.fn();
+
+  beforeEach(() => vi.stubGlobal('fetch', fetch));
+
+  afterEach(() => {
+    fetch.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  const sendError = async (transport: ContactTransport) => {
+    try {
+      await transport.send(MESSAGE);
+    } catch (err) {
+      return err as ContactError;
+    }
+    throw new Error('send succeeded');
+  };
+
+  it('posts the message as JSON', async () => {
+    fetch.mockResolvedValue(new Response(null, { status: 200 }));
+    await createTransport({ VITE_CONTACT_TRANSPORT: 'webhook', VITE_CONTACT_WEBHOOK_URL: 'https://hook' }).send(MESSAGE);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://hook');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toMatchObject(MESSAGE);
+  });
+
+  it('marks network failures as offline and retryable', async () => {
+    fetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    const err = await sendError(createTransport({ VITE_FORMSPREE_ID: 'abc' }));
+    expect(err).toBeInstanceOf(ContactError);
+    expect(err).toMatchObject({ retryable: true, offline: true });
+  });
+
+  it('retries server errors and rate limits but not other rejections', async () => {
+    const transport = createTransport({ VITE_FORMSPREE_ID: 'abc' });
+    for (const [status, retryable] of [[503, true], [429, true], [422, false]] as const) {
+      fetch.mockResolvedValueOnce(new Response(null, { status }));
+      expect(await sendError(transport)).toMatchObject({ retryable, offline: false });
+    }
+  });
+});
+
+describe('validateContact', () => {
+  it('accepts a complete message', () => {
+    expect(validateContact(MESSAGE)).toEqual({});
+  });
+
+  it('flags each field on its own', () => {
+    expect(validateContact({ name: ' A ', email: 'ada@', message: 'Too short' })).toEqual({
+      name: expect.any(String),
+      email: expect.any(String),
+      message: expect.any(String),
+    });
+    expect(validateContact({ ...MESSAGE, message: 'x'.repeat(5001) })).toEqual({ message: expect.stringMatching(/5000/) });
+  });
+});
+
+describe('checkBot', () => {
+  it('catches a filled honeypot before anything else', () => {
+    expect(checkBot('Acme Inc', 0, 0)).toBe('honeypot');
+    expect(checkBot('  ', 0, MIN_FILL_MS)).toBe('ok');
+  });
+
+  it('catches forms sent faster than a person could fill them', () => {
+    expect(checkBot('', 1000, 1000 + MIN_FILL_MS - 1)).toBe('too-fast');
+    expect(checkBot('', 1000, 1000 + MIN_FILL_MS)).toBe('ok');
+  });
+});
+
+describe('storage', () => {
+  let online: boolean;
+  const listeners = new Map<string, () => void>();
+
+  beforeEach(() => {
+    online = true;
+    vi.stubGlobal('window', {
+      localStorage: memoryStorage(),
+      addEventListener: (type: string, listener: () => void) => listeners.set(type, listener),
+      removeEventListener: (type: string) => listeners.delete(type),
+    });
+    vi.stubGlobal('navigator', {
+      get onLine() {
+        return online;
+      },
+    });
+  });
+
+  afterEach(() => {
+    listeners.clear();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('allows three sends per ten minutes', () => {
+    for (let i = 0; i < 3; i++) {
+      expect(isRateLimited(1000 + i)).toBe(false);
+      recordSend(1000 + i);
+    }
+    expect(isRateLimited(1003)).toBe(true);
+    expect(isRateLimited(1000 + 10 * 60 * 1000)).toBe(false);
+  });
+
+  it('delivers queued messages in order and empties the outbox', async () => {
+    queueMessage(MESSAGE);
+    queueMessage({ ...MESSAGE, name: 'Grace' });
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    expect(await flushOutbox({ name: 'ok', send })).toBe(2);
+    expect(send.mock.calls.map(([message]) => message)).toEqual([MESSAGE, { ...MESSAGE, name: 'Grace' }]);
+    expect(outboxSize()).toBe(0);
+  });
+
+  it('keeps retryable failures and drops rejected messages', async () => {
+    queueMessage(MESSAGE);
+    expect(await flushOutbox(failWith(new ContactError('Request failed (503)', true)))).toBe(0);
+    expect(outboxSize()).toBe(1);
+
+    expect(await flushOutbox(failWith(new ContactError('Request failed (422)', false)))).toBe(0);
+    expect(outboxSize()).toBe(0);
+  });
+
+  it('keeps messages queued while a flush is running', async () => {
+    queueMessage(MESSAGE);
+    let release = () => {};
+    const send = vi.fn(() => new Promise<void>(resolve => (release = resolve)));
+
+    const flushing = flushOutbox({ name: 'slow', send });
+    queueMessage({ ...MESSAGE, name: 'Grace' });
+    expect(flushOutbox({ name: 'slow', send })).toBe(flushing);
+    release();
+
+    expect(await flushing).toBe(1);
+    expect(outboxSize()).toBe(1);
+  });
+
+  it('retries on a timer while online and on reconnect', async () => {
+    vi.useFakeTimers();
+    queueMessage(MESSAGE);
+    const send = vi.fn().mockRejectedValue(new ContactError('Request failed (503)', true));
+    const onDelivered = vi.fn();
+    const stop = watchOutbox({ name: 'flaky', send }, onDelivered);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    online = false;
+    await vi.advanceTimersByTimeAsync(OUTBOX_RETRY_MS);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    online = true;
+    await vi.advanceTimersByTimeAsync(OUTBOX_RETRY_MS);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    send.mockResolvedValue(undefined);
+    listeners.get('online')!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onDelivered).toHaveBeenCalledWith(1);
+    expect(outboxSize()).toBe(0);
+
+    stop();
+    expect(listeners.has('online')).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
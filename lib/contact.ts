@@ -0,0 +1,207 @@
+// Contact form plumbing: pluggable transports, validation, bot checks, a
+// client-side rate limit and an offline outbox. The UI lives in
+// components/ContactForm.tsx.
+
+export interface ContactMessage {
+  name: string;
+  email: string;
+  message: string;
+}
+
+export type ContactField = keyof ContactMessage;
+export type ContactErrors = Partial<Record<ContactField, string>>;
+
+export class ContactError extends Error {
+  // Retryable errors (network down, 5xx, 429) go to the outbox; the rest are
+  // shown. Offline errors never reached the server at all.
+  constructor(message: string, readonly retryable: boolean, readonly offline = false) {
+    super(message);
+    this.name = 'ContactError';
+  }
+}
+
+export interface ContactTransport {
+  name: string;
+  send: (message: ContactMessage) => Promise<void>;
+}
+
+// ─── Transports ──────────────────────────────────────────────────────────────
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}) => {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new ContactError('Network unavailable', true, true);
+  }
+  if (!res.ok) throw new ContactError(`Request failed (${res.status})`, res.status >= 500 || res.status === 429);
+};
+
+export const formspreeTransport = (formId: string): ContactTransport => ({
+  name: 'formspree',
+  send: message =>
+    postJson(`https://formspree.io/f/${formId}`, {
+      ...message,
+      _subject: 'New message from portfolio contact form',
+    }),
+});
+
+export const webhookTransport = (url: string): ContactTransport => ({
+  name: 'webhook',
+  send: message => postJson(url, { ...message, sentAt: new Date().toISOString() }),
+});
+
+// Talks to the stand-in endpoint from plugins/devContact.ts, which writes
+// each message to disk instead of sending it anywhere.
+export const devTransport = (url = '/__contact'): ContactTransport => ({
+  name: 'dev',
+  send: message => postJson(url, message),
+});
+
+export const createTransport = (env: Record<string, string | boolean | undefined> = import.meta.env): ContactTransport => {
+  const kind = (env.VITE_CONTACT_TRANSPORT as string | undefined) ?? (env.DEV ? 'dev' : 'formspree');
+  switch (kind) {
+    case 'webhook': {
+      const url = env.VITE_CONTACT_WEBHOOK_URL as string | undefined;
+      if (!url) throw new Error('VITE_CONTACT_WEBHOOK_URL is required for the webhook contact transport');
+      return webhookTransport(url);
+    }
+    case 'dev':
+      return devTransport();
+    case 'formspree':
+      return formspreeTransport((env.VITE_FORMSPREE_ID as string | undefined) ?? 'xqedyrjl');
+    default:
+      throw new Error(`Unknown contact transport "${kind}"`);
+  }
+};
+
+// ─── Validation and bot checks ───────────────────────────────────────────────
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateContact = (message: ContactMessage): ContactErrors => {
+  const errors: ContactErrors = {};
+  if (message.name.trim().length < 2) errors.name = 'Please enter your name.';
+  if (!EMAIL.test(message.email.trim())) errors.email = 'Please enter a valid email address.';
+  if (message.message.trim().length < 10) errors.message = 'A few more words, please (10+ characters).';
+  else if (message.message.length > 5000) errors.message = 'Please keep it under 5000 characters.';
+  return errors;
+};
+
+export const HONEYPOT_FIELD = 'company';
+export const MIN_FILL_MS = 3000;
+
+export type BotVerdict = 'ok' | 'honeypot' | 'too-fast';
+
+// Real people never see the honeypot input and take more than a few seconds
+// to write a message.
+export const checkBot = (honeypot: string, openedAt: number, now = Date.now()): BotVerdict => {
+  if (honeypot.trim() !== '') return 'honeypot';
+  if (now - openedAt < MIN_FILL_MS) return 'too-fast';
+  return 'ok';
+};
+
+// ─── Rate limit ──────────────────────────────────────────────────────────────
+
+const RATE_KEY = 'contact-sent-at';
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+const RATE_MAX = 3;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled: rate limit and outbox degrade to no-ops.
+  }
+};
+
+const recentSends = (now: number) => readJson<number[]>(RATE_KEY, []).filter(t => now - t < RATE_WINDOW_MS);
+
+export const isRateLimited = (now = Date.now()) => recentSends(now).length >= RATE_MAX;
+
+export const recordSend = (now = Date.now()) => writeJson(RATE_KEY, [...recentSends(now), now]);
+
+// ─── Offline outbox ──────────────────────────────────────────────────────────
+
+const OUTBOX_KEY = 'contact-outbox';
+
+interface QueuedMessage extends ContactMessage {
+  queuedAt: number;
+}
+
+export const queueMessage = (message: ContactMessage) =>
+  writeJson(OUTBOX_KEY, [...readJson<QueuedMessage[]>(OUTBOX_KEY, []), { ...message, queuedAt: Date.now() }]);
+
+export const outboxSize = () => readJson<QueuedMessage[]>(OUTBOX_KEY, []).length;
+
+const sendQueued = async (transport: ContactTransport) => {
+  const queued = readJson<QueuedMessage[]>(OUTBOX_KEY, []);
+  if (queued.length === 0) return 0;
+
+  const finished = new Set<QueuedMessage>(); // delivered or permanently rejected
+  let delivered = 0;
+  for (const item of queued) {
+    try {
+      const { queuedAt: _queuedAt, ...message } = item;
+      await transport.send(message);
+      delivered += 1;
+      finished.add(item);
+    } catch (err) {
+      if (err instanceof ContactError && !err.retryable) finished.add(item);
+    }
+  }
+
+  const done = [...finished].map(item => JSON.stringify(item));
+  const remaining = readJson<QueuedMessage[]>(OUTBOX_KEY, []).filter(item => {
+    const index = done.indexOf(JSON.stringify(item));
+    if (index === -1) return true;
+    done.splice(index, 1);
+    return false;
+  });
+  writeJson(OUTBOX_KEY, remaining);
+  return delivered;
+};
+
+// Sends queued messages in order and keeps whatever still fails. Returns the
+// number delivered. Only one flush runs at a time; a call made meanwhile
+// shares the running one. Messages queued during the sends stay queued, since
+// finished ones are removed from a fresh read of the outbox.
+let flushing: Promise<number> | null = null;
+
+export const flushOutbox = (transport: ContactTransport): Promise<number> => {
+  flushing ??= sendQueued(transport).finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
+
+export const OUTBOX_RETRY_MS = 60 * 1000;
+
+// Flushes now, whenever the browser comes back online, and every minute while
+// online so messages refused by a struggling server (5xx, 429) go out too.
+export const watchOutbox = (transport: ContactTransport, onDelivered?: (count: number) => void) => {
+  const flush = () => {
+    if (!navigator.onLine || outboxSize() === 0) return;
+    flushOutbox(transport).then(count => count > 0 && onDelivered?.(count));
+  };
+  flush();
+  window.addEventListener('online', flush);
+  const timer = setInterval(flush, OUTBOX_RETRY_MS);
+  return () => {
+    window.removeEventListener('online', flush);
+    clearInterval(timer);
+  };
+};
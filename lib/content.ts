@@ -0,0 +1,41 @@
+import writing from 'virtual:writing';
+import { CaseStudyFrontmatter, MarkdownDocument, Post } from '../types';
+
+// Case studies live in content/work/<project-id>.md and are compiled to HTML
+// by the Markdown plugin during the build.
+const caseStudyModules = import.meta.glob<MarkdownDocument<CaseStudyFrontmatter>>('../content/work/*.md', {
+  eager: true,
+  import: 'default',
+});
+
+const idFromPath = (path: string) => path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+
+const CASE_STUDIES: Record<string, MarkdownDocument<CaseStudyFrontmatter>> = Object.fromEntries(
+  Object.entries(caseStudyModules).map(([path, doc]) => [idFromPath(path), doc])
+);
+
+export const getCaseStudy = (projectId: string): MarkdownDocument<CaseStudyFrontmatter> | undefined =>
+  CASE_STUDIES[projectId];
+
+// Posts live in content/writing/<slug>.md and arrive by slug from the
+// Markdown plugin. Drafts are only listed in dev; production builds leave
+// them out of the module entirely.
+const ALL_POSTS: Post[] = Object.entries(writing)
+  .map(([slug, doc]) => ({
+    ...doc.frontmatter,
+    tags: doc.frontmatter.tags ?? [],
+    slug,
+    html: doc.html,
+    headings: doc.headings,
+  }))
+  .sort((a, b) => b.date.localeCompare(a.date));
+
+const isVisible = (post: Post) => post.status === 'published' || import.meta.env.DEV;
+
+export const getPosts = (): Post[] => ALL_POSTS.filter(isVisible);
+
+export const getPost = (slug: string | undefined): Post | undefined =>
+  ALL_POSTS.find(post => post.slug === slug && isVisible(post));
+
+export const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
@@ -1,4 +1,4 @@
-import { Project } from '../types';
+import { Interest, Project, Role } from '../types';
 
 export const PROJECTS: Project[] = [
   {
@@ -12,6 +12,7 @@ export const PROJECTS: Project[] = [
       'Delivered the end-to-end system in 36 hours for real-time CCTV risk forecasting.'
     ],
     imageUrl: '/images/sentinel.avif',
+    featured: true,
     tech: ['PyTorch', 'CUDA', 'World Models', 'CCTV'],
     links: { github: 'https://github.com/timsinashok/Sentinel-AI' }
   },
@@ -26,6 +27,7 @@ export const PROJECTS: Project[] = [
       'Extracted structured insights from responses to reduce time-to-insight from weeks to minutes.'
     ],
     imageUrl: '/images/mesh.avif',
+    featured: true,
     tech: ['FastAPI', 'LLMs', 'WhatsApp', 'PostgreSQL'],
     links: { github: 'https://github.com/timsinashok' }
   },
@@ -69,3 +71,65 @@ export const PROJECTS: Project[] = [
     links: { github: 'https://github.com/timsinashok/assignmeant-mvp' }
   }
 ];
+
+export const ROLES: Role[] = [
+  {
+    id: 'trace-robotics',
+    organisation: 'Trace Robotics',
+    title: 'Founder',
+    url: 'https://tracerobotics.tech',
+    summary: 'Developing diagnostic and robustness evaluation tools for robot policies, stress-testing real-world deployment conditions.',
+  },
+  {
+    id: 'nyuad-dl-lab',
+    organisation: 'NYUAD Deep Learning Lab',
+    title: 'Deep Learning Researcher',
+    summary: 'Researching learning from state-only data and building sample-efficient offline RL and world-model pipelines for robot learning.',
+  },
+  {
+    id: 'confyde',
+    organisation: 'Confyde.ai',
+    title: 'Founding Engineer, Backend & AI',
+    url: 'https://confyde.ai',
+    summary: 'Building scalable AI backends and agent orchestration for pharma market research, from data pipelines to deployed services.',
+  },
+];
+
+export const INTERESTS: Interest[] = [
+  { kind: 'building', label: 'Sample-efficient offline RL algorithms' },
+  { kind: 'building', label: 'Trace Robotics: evaluation infrastructure for robot foundation models' },
+  { kind: 'building', label: 'Confyde AI: AI-powered saas for clinical trials' },
+  { kind: 'building', label: "Vibe coder's keyboard" },
+  { kind: 'exploring', label: 'Planning using state-only data' },
+  { kind: 'exploring', label: 'Data-collection pipelines for robotics' },
+  { kind: 'exploring', label: 'Evaluation frameworks for foundation robot policies' },
+  { kind: 'exploring', label: 'Applied AI solutions for real-world problem solving' },
+];
+
+// Current roles are listed in the order they appear in ROLES; the timeline
+// is newest-first by start date and includes roles that have ended. Roles
+// without a start date follow, in ROLES order.
+export const currentRoles = (): Role[] => ROLES.filter(role => !role.end);
+
+export const roleTimeline = (): Role[] => [...ROLES].sort((a, b) => (b.start ?? '').localeCompare(a.start ?? ''));
+
+export const formatMonth = (yyyyMm: string) => {
+  const [year, month] = yyyyMm.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1)).toLocaleDateString('en-US', { year: 'numeric', month: 'short', timeZone: 'UTC' });
+};
+
+export const findProject = (id: string | undefined): Project | undefined =>
+  PROJECTS.find(project => project.id === id);
+
+// Projects whose ids share the most characters with `id`, used to point
+// readers somewhere useful when a case-study link is stale or mistyped.
+export const suggestProjects = (id: string, limit = 3): Project[] => {
+  const needle = id.toLowerCase();
+  const score = (project: Project) => {
+    const hay = `${project.id} ${project.title}`.toLowerCase();
+    let shared = 0;
+    for (const ch of new Set(needle)) if (hay.includes(ch)) shared += 1;
+    return hay.includes(needle) ? shared + needle.length : shared;
+  };
+  return [...PROJECTS].sort((a, b) => score(b) - score(a)).slice(0, limit);
+};
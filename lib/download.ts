@@ -0,0 +1,13 @@
+// Saves data from the page as a file download.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick so the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (data: unknown, filename: string) =>
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
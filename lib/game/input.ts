@@ -0,0 +1,158 @@
+import { Point } from '../../types';
+
+// Turns pointer, touch, keyboard and gamepad input into one target point for
+// the Home arm. The pointer and a dragging finger place the target directly; keys and the analog stick
+// move it with a velocity. Whichever source was used last is the active one.
+
+export type InputMethod = 'pointer' | 'touch' | 'keyboard' | 'gamepad';
+export type InputCommand = 'launch' | 'reset';
+
+const KEY_DIRECTIONS: Record<string, Point> = {
+  arrowleft: { x: -1, y: 0 },
+  arrowright: { x: 1, y: 0 },
+  arrowup: { x: 0, y: -1 },
+  arrowdown: { x: 0, y: 1 },
+  a: { x: -1, y: 0 },
+  d: { x: 1, y: 0 },
+  w: { x: 0, y: -1 },
+  s: { x: 0, y: 1 },
+};
+
+const KEY_COMMANDS: Record<string, InputCommand> = {
+  ' ': 'launch',
+  enter: 'launch',
+  r: 'reset',
+};
+
+// Standard gamepad mapping: A / Cross launches, B / Circle resets
+const PAD_COMMANDS: [number, InputCommand][] = [
+  [0, 'launch'],
+  [1, 'reset'],
+];
+
+const KEY_ACCELERATION = 2400; // px/s²
+const KEY_MAX_SPEED = 900; // px/s
+const KEY_FRICTION = 12; // 1/s, how quickly the target stops once keys are released
+const PAD_MAX_SPEED = 1100; // px/s at full stick
+const PAD_DEADZONE = 0.15;
+
+export const INPUT_HINTS: Record<InputMethod, string> = {
+  pointer: 'Move to guide the arm',
+  touch: 'Drag to guide the arm',
+  keyboard: 'Arrows / WASD guide the arm · Space launches · R resets',
+  gamepad: 'Left stick guides the arm · A launches · B resets',
+};
+
+const connectedPad = () => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  return navigator.getGamepads().find(pad => pad?.connected) ?? null;
+};
+
+export const createTargetInput = (initial: Point) => {
+  let target = { ...initial };
+  let method: InputMethod = 'pointer';
+  const velocity = { x: 0, y: 0 };
+  const held = new Set<string>();
+  let commands: InputCommand[] = [];
+  let padPressed: boolean[] = [];
+
+  const pointer = (point: Point, kind: 'pointer' | 'touch' = 'pointer') => {
+    target = { ...point };
+    velocity.x = 0;
+    velocity.y = 0;
+    method = kind;
+  };
+
+  // Returns true when the key is one of ours, so the caller can prevent the
+  // browser's default (scrolling, button activation). Auto-repeat doesn't
+  // repeat commands.
+  const keyDown = (key: string, repeat = false) => {
+    const name = key.toLowerCase();
+    if (KEY_DIRECTIONS[name]) {
+      held.add(name);
+    } else if (KEY_COMMANDS[name]) {
+      if (!repeat) commands.push(KEY_COMMANDS[name]);
+    } else {
+      return false;
+    }
+    method = 'keyboard';
+    return true;
+  };
+
+  const keyUp = (key: string) => {
+    held.delete(key.toLowerCase());
+  };
+
+  // Advances keyboard and stick motion by `dt` seconds and collects commands
+  // issued since the last update.
+  const update = (dt: number, bounds: { width: number; height: number }) => {
+    const direction = { x: 0, y: 0 };
+    for (const name of held) {
+      direction.x += KEY_DIRECTIONS[name].x;
+      direction.y += KEY_DIRECTIONS[name].y;
+    }
+    const length = Math.hypot(direction.x, direction.y);
+
+    if (length > 0) {
+      velocity.x += (direction.x / length) * KEY_ACCELERATION * dt;
+      velocity.y += (direction.y / length) * KEY_ACCELERATION * dt;
+      const speed = Math.hypot(velocity.x, velocity.y);
+      if (speed > KEY_MAX_SPEED) {
+        velocity.x *= KEY_MAX_SPEED / speed;
+        velocity.y *= KEY_MAX_SPEED / speed;
+      }
+    } else {
+      const keep = Math.exp(-KEY_FRICTION * dt);
+      velocity.x = Math.abs(velocity.x * keep) < 1 ? 0 : velocity.x * keep;
+      velocity.y = Math.abs(velocity.y * keep) < 1 ? 0 : velocity.y * keep;
+    }
+
+    const pad = connectedPad();
+    if (pad) {
+      const stick = { x: pad.axes[0] ?? 0, y: pad.axes[1] ?? 0 };
+      const magnitude = Math.min(1, Math.hypot(stick.x, stick.y));
+      if (magnitude > PAD_DEADZONE) {
+        // Rescale past the deadzone and square it for fine control near centre
+        const response = ((magnitude - PAD_DEADZONE) / (1 - PAD_DEADZONE)) ** 2;
+        velocity.x = (stick.x / magnitude) * response * PAD_MAX_SPEED;
+        velocity.y = (stick.y / magnitude) * response * PAD_MAX_SPEED;
+        method = 'gamepad';
+      } else if (method === 'gamepad') {
+        velocity.x = 0;
+        velocity.y = 0;
+      }
+
+      const pressed = pad.buttons.map(button => button.pressed);
+      for (const [index, command] of PAD_COMMANDS) {
+        if (pressed[index] && !padPressed[index]) {
+          commands.push(command);
+          method = 'gamepad';
+        }
+      }
+      padPressed = pressed;
+    }
+
+    if (velocity.x !== 0 || velocity.y !== 0) {
+      target = {
+        x: Math.max(0, Math.min(bounds.width, target.x + velocity.x * dt)),
+        y: Math.max(0, Math.min(bounds.height, target.y + velocity.y * dt)),
+      };
+    }
+
+    const issued = commands;
+    commands = [];
+    return { target, method, commands: issued };
+  };
+
+  return {
+    pointer,
+    keyDown,
+    keyUp,
+    // Forget held keys, e.g. when focus leaves the page
+    release: () => held.clear(),
+    update,
+    method: () => method,
+  };
+};
+
+export type TargetInput = ReturnType<typeof createTargetInput>;
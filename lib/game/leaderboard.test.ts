@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LEADERBOARD_SIZE, LeaderboardEntry, loadLeaderboard, recordScore } from './leaderboard';
+
+const entry = (score: number, detail = `${score} goals`): LeaderboardEntry => ({ score, detail, at: '2026-01-01T00:00:00.000Z' });
+
+describe('recordScore', () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = new Map();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('ranks runs by score, ties below earlier runs', () => {
+    expect(recordScore('free', entry(3, 'first'))).toBe(0);
+    expect(recordScore('free', entry(5))).toBe(0);
+    expect(recordScore('free', entry(3, 'second'))).toBe(2);
+    expect(recordScore('free', entry(4))).toBe(1);
+    expect(loadLeaderboard().free!.map(run => run.detail)).toEqual(['5 goals', '4 goals', 'first', 'second']);
+  });
+
+  it(`keeps the best ${LEADERBOARD_SIZE} runs`, () => {
+    for (let score = 1; score <= LEADERBOARD_SIZE; score++) recordScore('time-attack', entry(score));
+    expect(recordScore('time-attack', entry(1))).toBeNull();
+    expect(recordScore('time-attack', entry(0))).toBeNull();
+    expect(recordScore('time-attack', entry(10))).toBe(0);
+
+    const scores = loadLeaderboard()['time-attack']!.map(run => run.score);
+    expect(scores).toEqual([10, 5, 4, 3, 2]);
+  });
+
+  it('keeps a board per mode and persists it', () => {
+    recordScore('free', entry(2));
+    recordScore('sudden-death', entry(7));
+    expect(JSON.parse(items.get('arm-leaderboard')!)).toEqual({ free: [entry(2)], 'sudden-death': [entry(7)] });
+  });
+
+  it('drops malformed stored entries', () => {
+    items.set('arm-leaderboard', JSON.stringify({ free: [entry(4), { score: '9' }, null], levels: 'nope' }));
+    expect(loadLeaderboard()).toEqual({ free: [entry(4)] });
+    items.set('arm-leaderboard', '{not json');
+    expect(loadLeaderboard()).toEqual({});
+  });
+
+  it('still ranks the run when storage refuses to save', () => {
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: () => null,
+        setItem: () => {
+          throw new Error('QuotaExceededError');
+        },
+      },
+    });
+    expect(recordScore('free', entry(1))).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { GameMode } from './modes';
+
+// Best runs per game mode, kept in this browser only.
+
+export interface LeaderboardEntry {
+  score: number;
+  detail: string;
+  at: string; // ISO date
+}
+
+export type Leaderboard = Partial<Record<GameMode, LeaderboardEntry[]>>;
+
+export const LEADERBOARD_SIZE = 5;
+const LEADERBOARD_KEY = 'arm-leaderboard';
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  const entry = value as LeaderboardEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.score === 'number' &&
+    typeof entry.detail === 'string' &&
+    typeof entry.at === 'string'
+  );
+};
+
+export const loadLeaderboard = (): Leaderboard => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(LEADERBOARD_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null) return {};
+    const board: Leaderboard = {};
+    for (const [mode, entries] of Object.entries(stored)) {
+      if (Array.isArray(entries)) board[mode as GameMode] = entries.filter(isEntry).slice(0, LEADERBOARD_SIZE);
+    }
+    return board;
+  } catch {
+    return {};
+  }
+};
+
+// Adds a run and returns its 0-based rank, or null if it didn't place.
+// Ties rank below earlier runs.
+export const recordScore = (mode: GameMode, entry: LeaderboardEntry): number | null => {
+  const board = loadLeaderboard();
+  const entries = board[mode] ?? [];
+  const rank = entries.findIndex(existing => entry.score > existing.score);
+  const position = rank === -1 ? entries.length : rank;
+  if (position >= LEADERBOARD_SIZE) return null;
+
+  board[mode] = [...entries.slice(0, position), entry, ...entries.slice(position)].slice(0, LEADERBOARD_SIZE);
+  try {
+    window.localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(board));
+  } catch {
+    // Storage full or blocked: the result still shows for this visit
+  }
+  return position;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PLAY_CONFIG } from '../sim/physics';
+import { GAME_LEVELS, LEVEL_LIVES, TIME_ATTACK_SECONDS, createGameRun, describeRun } from './modes';
+
+const scoreGoals = (run: ReturnType<typeof createGameRun>, count: number) => {
+  for (let i = 0; i < count; i++) run.record('goal');
+};
+
+describe('createGameRun', () => {
+  it('ignores results and time until the run starts', () => {
+    const run = createGameRun('time-attack');
+    run.record('goal');
+    run.tick(TIME_ATTACK_SECONDS);
+    expect(run.status()).toMatchObject({ started: false, ended: false, score: 0, timeLeft: TIME_ATTACK_SECONDS });
+  });
+
+  it('counts goals, misses and the current streak in free play', () => {
+    const run = createGameRun('free');
+    run.start();
+    scoreGoals(run, 3);
+    run.record('miss');
+    run.record('goal');
+    run.tick(10 * TIME_ATTACK_SECONDS);
+    expect(run.status()).toMatchObject({ ended: false, score: 4, misses: 1, streak: 1, timeLeft: null, level: null });
+    expect(run.goal()).toEqual(PLAY_CONFIG.goal);
+    expect(describeRun(run.status())).toBe('4 goals');
+  });
+
+  it('ends time attack when the clock runs out and freezes the score', () => {
+    const run = createGameRun('time-attack');
+    run.start();
+    run.record('goal');
+    run.tick(0.4);
+    expect(run.status()).toMatchObject({ ended: false, timeLeft: TIME_ATTACK_SECONDS });
+    run.tick(TIME_ATTACK_SECONDS - 0.5);
+    expect(run.status()).toMatchObject({ ended: false, timeLeft: 1 });
+    run.tick(0.1);
+    expect(run.status()).toMatchObject({ ended: true, timeLeft: 0, score: 1 });
+
+    run.record('goal');
+    expect(run.status().score).toBe(1);
+  });
+
+  it('ends sudden death on the first miss', () => {
+    const run = createGameRun('sudden-death');
+    run.start();
+    scoreGoals(run, 5);
+    run.record('miss');
+    run.record('goal');
+    expect(run.status()).toMatchObject({ ended: true, score: 5, misses: 1 });
+    expect(describeRun(run.status())).toBe('5 in a row');
+  });
+
+  it('moves through the levels with a shrinking, moving goal', () => {
+    const run = createGameRun('levels');
+    run.start();
+    expect(run.goal()).toMatchObject({ width: GAME_LEVELS[0].width, x: -GAME_LEVELS[0].width / 2 });
+
+    scoreGoals(run, GAME_LEVELS[0].goals);
+    expect(run.status().level).toBe(1);
+    run.record('goal');
+    const { width, shrink = 0 } = GAME_LEVELS[1];
+    expect(run.goal()).toMatchObject({ width: width - shrink, x: -(width - shrink) / 2 });
+
+    scoreGoals(run, GAME_LEVELS[1].goals - 1);
+    expect(run.status().level).toBe(2);
+    expect(run.goal().motion).toEqual(GAME_LEVELS[2].motion);
+    expect(describeRun(run.status())).toBe(`reached ${GAME_LEVELS[2].name}`);
+  });
+
+  it('ends the levels mode after the last level or the last life', () => {
+    const clear = createGameRun('levels');
+    clear.start();
+    GAME_LEVELS.forEach(level => scoreGoals(clear, level.goals));
+    expect(clear.status()).toMatchObject({ ended: true, cleared: true, level: GAME_LEVELS.length - 1 });
+    expect(describeRun(clear.status())).toBe('all levels cleared');
+
+    const out = createGameRun('levels');
+    out.start();
+    for (let i = 1; i < LEVEL_LIVES; i++) out.record('miss');
+    expect(out.status().ended).toBe(false);
+    out.record('miss');
+    expect(out.status()).toMatchObject({ ended: true, cleared: false, misses: LEVEL_LIVES });
+  });
+});
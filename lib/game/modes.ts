@@ -0,0 +1,131 @@
+import { Motion } from '../sim/level';
+import { PLAY_CONFIG, SimConfig } from '../sim/physics';
+
+// Rules for the Home page game. A run is fed goal/miss results and sim time
+// and decides the score, the current goal and when the run is over; the
+// component only renders and drives the sim.
+
+export type GameMode = 'free' | 'time-attack' | 'sudden-death' | 'levels';
+
+export const GAME_MODES: { id: GameMode; label: string; rule: string }[] = [
+  { id: 'free', label: 'Free play', rule: 'No clock, no limit.' },
+  { id: 'time-attack', label: 'Time attack', rule: 'Score as many goals as you can in 60 seconds.' },
+  { id: 'sudden-death', label: 'Sudden death', rule: 'One miss ends the streak.' },
+  { id: 'levels', label: 'Levels', rule: 'Goals shrink and move. Three misses and you’re out.' },
+];
+
+export const TIME_ATTACK_SECONDS = 60;
+export const LEVEL_LIVES = 3;
+
+export interface GameLevel {
+  name: string;
+  goals: number; // needed to clear the level
+  width: number; // goal width at the start of the level, px
+  shrink?: number; // px taken off the goal for every goal scored
+  motion?: Motion;
+}
+
+export const GAME_LEVELS: GameLevel[] = [
+  { name: 'Warm-up', goals: 3, width: 200 },
+  { name: 'Closing in', goals: 4, width: 200, shrink: 30 },
+  { name: 'Drift', goals: 3, width: 180, motion: { axis: 'x', amplitude: 150, period: 5 } },
+  { name: 'Crosswind', goals: 3, width: 140, motion: { axis: 'x', amplitude: 200, period: 4 } },
+  { name: 'Pinhole', goals: 4, width: 160, shrink: 25, motion: { axis: 'x', amplitude: 220, period: 3 } },
+];
+
+export interface GameStatus {
+  mode: GameMode;
+  started: boolean;
+  ended: boolean;
+  score: number; // goals this run; the leaderboard ranks by it
+  misses: number;
+  streak: number;
+  timeLeft: number | null; // whole seconds, time attack only
+  level: number | null; // 0-based index into GAME_LEVELS, levels mode only
+  cleared: boolean; // levels mode: every level done
+}
+
+// Goal for a level after `scored` goals in it, centred on the arm's base.
+const levelGoal = (level: GameLevel, scored: number): SimConfig['goal'] => {
+  const width = Math.max(60, level.width - (level.shrink ?? 0) * scored);
+  return { ...PLAY_CONFIG.goal, x: -width / 2, width, motion: level.motion };
+};
+
+export const createGameRun = (mode: GameMode) => {
+  let started = false;
+  let ended = false;
+  let elapsed = 0;
+  let score = 0;
+  let misses = 0;
+  let streak = 0;
+  let level = 0;
+  let levelScored = 0;
+  let cleared = false;
+
+  const finish = () => {
+    ended = true;
+  };
+
+  // Sim seconds since the run started; only time attack is on the clock.
+  const tick = (dt: number) => {
+    if (!started || ended) return;
+    elapsed += dt;
+    if (mode === 'time-attack' && elapsed >= TIME_ATTACK_SECONDS) finish();
+  };
+
+  const record = (result: 'goal' | 'miss') => {
+    if (!started || ended) return;
+    if (result === 'goal') {
+      score += 1;
+      streak += 1;
+      if (mode !== 'levels') return;
+      levelScored += 1;
+      if (levelScored < GAME_LEVELS[level].goals) return;
+      levelScored = 0;
+      if (level === GAME_LEVELS.length - 1) {
+        cleared = true;
+        finish();
+      } else {
+        level += 1;
+      }
+      return;
+    }
+    misses += 1;
+    streak = 0;
+    if (mode === 'sudden-death' || (mode === 'levels' && misses >= LEVEL_LIVES)) finish();
+  };
+
+  const status = (): GameStatus => ({
+    mode,
+    started,
+    ended,
+    score,
+    misses,
+    streak,
+    timeLeft: mode === 'time-attack' ? Math.max(0, Math.ceil(TIME_ATTACK_SECONDS - elapsed)) : null,
+    level: mode === 'levels' ? level : null,
+    cleared,
+  });
+
+  return {
+    mode,
+    start: () => {
+      started = true;
+    },
+    tick,
+    record,
+    status,
+    goal: () => (mode === 'levels' ? levelGoal(GAME_LEVELS[level], levelScored) : PLAY_CONFIG.goal),
+  };
+};
+
+export type GameRun = ReturnType<typeof createGameRun>;
+
+// One line for the results screen and leaderboard
+export const describeRun = (status: GameStatus) => {
+  if (status.mode === 'levels' && status.level !== null) {
+    return status.cleared ? 'all levels cleared' : `reached ${GAME_LEVELS[status.level].name}`;
+  }
+  if (status.mode === 'sudden-death') return `${status.score} in a row`;
+  return `${status.score} goals`;
+};
@@ -0,0 +1,35 @@
+import { Level } from './sim/level';
+import { is, levelSchema } from './schema';
+
+// Built-in levels live in content/levels/<id>.json and are checked by the
+// content validator at build time. The editor's working copy is kept in
+// localStorage as a single custom level.
+const levelModules = import.meta.glob<Level>('../content/levels/*.json', { eager: true, import: 'default' });
+
+export const DEFAULT_LEVEL_ID = 'open-court';
+
+export const LEVELS: Level[] = Object.values(levelModules).sort((a, b) =>
+  a.id === DEFAULT_LEVEL_ID ? -1 : b.id === DEFAULT_LEVEL_ID ? 1 : a.name.localeCompare(b.name)
+);
+
+export const DEFAULT_LEVEL = LEVELS.find(level => level.id === DEFAULT_LEVEL_ID) ?? LEVELS[0];
+
+export const CUSTOM_LEVEL_ID = 'custom';
+const CUSTOM_LEVEL_KEY = 'rl-custom-level';
+
+export const loadCustomLevel = (): Level | null => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(CUSTOM_LEVEL_KEY) ?? 'null');
+    return is(levelSchema, stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCustomLevel = (level: Level) => {
+  try {
+    window.localStorage.setItem(CUSTOM_LEVEL_KEY, JSON.stringify(level));
+  } catch {
+    // Storage full or blocked: the level still works for this session
+  }
+};
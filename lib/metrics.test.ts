@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MetricsCounts, classifyUserAgent, reportPageView } from './metrics';
+
+const COUNTS: MetricsCounts = { visitors: { human: 3, bot: 1, ai: 2 }, pageViews: 9 };
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('classifyUserAgent', () => {
+  it('tells AI agents, bots and humans apart', () => {
+    expect(classifyUserAgent('Mozilla/5.0 (compatible; GPTBot/1.0)')).toBe('ai');
+    expect(classifyUserAgent('curl/8.4.0')).toBe('bot');
+    expect(classifyUserAgent('Mozilla/5.0 (Macintosh)', true)).toBe('bot');
+    expect(classifyUserAgent('Mozilla/5.0 (Macintosh)')).toBe('human');
+  });
+});
+
+describe('reportPageView', () => {
+  let window: { localStorage: ReturnType<typeof memoryStorage>; sessionStorage: ReturnType<typeof memoryStorage> };
+  const fetch = vi.fn();
+
+  beforeEach(() => {
+    window = { localStorage: memoryStorage(), sessionStorage: memoryStorage() };
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 (Macintosh)', webdriver: false });
+    vi.stubGlobal('fetch', fetch);
+    vi.stubEnv('DEV', true);
+  });
+
+  afterEach(() => {
+    fetch.mockReset();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  const sentBody = (call: number) => JSON.parse(fetch.mock.calls[call][1].body);
+
+  it('caches counts and marks the session once the view is counted', async () => {
+    fetch.mockResolvedValue(new Response(JSON.stringify(COUNTS)));
+    expect(await reportPageView('/work')).toEqual({ counts: COUNTS, stale: false });
+    expect(sentBody(0)).toEqual({ path: '/work', type: 'human', newVisitor: true });
+
+    await reportPageView('/writing');
+    expect(sentBody(1).newVisitor).toBe(false);
+  });
+
+  it('falls back to the cache and retries the visit when the endpoint fails', async () => {
+    window.localStorage.setItem('metrics-counts', JSON.stringify(COUNTS));
+    fetch.mockResolvedValueOnce(new Response('', { status: 502 })).mockRejectedValueOnce(new TypeError('offline'));
+
+    expect(await reportPageView('/')).toEqual({ counts: COUNTS, stale: true });
+    expect(await reportPageView('/')).toEqual({ counts: COUNTS, stale: true });
+    expect(sentBody(1).newVisitor).toBe(true);
+  });
+
+  it('reports nothing in a build without an endpoint', async () => {
+    vi.stubEnv('DEV', false);
+    expect(await reportPageView('/')).toEqual({ counts: null, stale: true });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+// Privacy-respecting visit metrics. The client reports a visitor type and a
+// path; no cookies, IPs or user agents are sent or stored. Counts come back
+// from the endpoint served by plugins/metrics.ts.
+
+export type VisitorType = 'human' | 'bot' | 'ai';
+
+export interface MetricsCounts {
+  visitors: Record<VisitorType, number>;
+  pageViews: number;
+}
+
+export const VISITOR_TYPES: VisitorType[] = ['human', 'bot', 'ai'];
+
+const AI_AGENTS = /GPTBot|ChatGPT-User|OAI-SearchBot|ClaudeBot|Claude-Web|Claude-User|anthropic-ai|PerplexityBot|Perplexity-User|Google-Extended|CCBot|Bytespider|Amazonbot|cohere-ai|Applebot-Extended|meta-externalagent|Diffbot|YouBot/i;
+const BOTS = /bot|crawl|spider|slurp|headless|lighthouse|phantom|puppeteer|playwright|selenium|curl|wget|python-requests|axios|node-fetch/i;
+
+export const classifyUserAgent = (userAgent: string, webdriver = false): VisitorType => {
+  if (AI_AGENTS.test(userAgent)) return 'ai';
+  if (webdriver || BOTS.test(userAgent)) return 'bot';
+  return 'human';
+};
+
+// Resolved lazily: this module is also imported by the Node-side store,
+// where import.meta.env does not exist.
+const configuredEndpoint = () => import.meta.env.VITE_METRICS_URL as string | undefined;
+const endpoint = () => configuredEndpoint() ?? '/__metrics';
+
+// The built-in endpoint (plugins/metrics.ts) runs on the dev server only. A
+// production build reports nothing unless VITE_METRICS_URL names an endpoint,
+// since a static host like GitHub Pages has none.
+export const metricsAvailable = () => import.meta.env.DEV || configuredEndpoint() !== undefined;
+
+const CACHE_KEY = 'metrics-counts';
+const SESSION_KEY = 'metrics-visited';
+
+const readCache = (): MetricsCounts | null => {
+  try {
+    const raw = window.localStorage.getItem(CACHE_KEY);
+    return raw ? (JSON.parse(raw) as MetricsCounts) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (counts: MetricsCounts) => {
+  try {
+    window.localStorage.setItem(CACHE_KEY, JSON.stringify(counts));
+  } catch {
+    // Cache is best-effort.
+  }
+};
+
+// A visitor is counted once per browser session; every route change is a
+// page view. The session is only marked once the server has counted it, so
+// a failed report is retried on the next page view.
+const isNewVisit = () => {
+  try {
+    return !window.sessionStorage.getItem(SESSION_KEY);
+  } catch {
+    return false;
+  }
+};
+
+const markVisited = () => {
+  try {
+    window.sessionStorage.setItem(SESSION_KEY, '1');
+  } catch {
+    // Without session storage every page view counts as a visit.
+  }
+};
+
+export interface MetricsResult {
+  counts: MetricsCounts | null;
+  stale: boolean; // true when the endpoint was unreachable and the cache was used
+}
+
+const parseResponse = async (res: Response): Promise<MetricsCounts> => {
+  if (!res.ok) throw new Error(`Metrics request failed (${res.status})`);
+  return (await res.json()) as MetricsCounts;
+};
+
+const withFallback = async (request: () => Promise<Response>, onSuccess?: () => void): Promise<MetricsResult> => {
+  if (!metricsAvailable()) return { counts: null, stale: true };
+  try {
+    const counts = await parseResponse(await request());
+    writeCache(counts);
+    onSuccess?.();
+    return { counts, stale: false };
+  } catch {
+    return { counts: readCache(), stale: true };
+  }
+};
+
+export const reportPageView = (path: string): Promise<MetricsResult> => {
+  const type = classifyUserAgent(navigator.userAgent, navigator.webdriver);
+  const newVisitor = isNewVisit();
+  return withFallback(
+    () =>
+      fetch(endpoint(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path, type, newVisitor }),
+        keepalive: true,
+      }),
+    newVisitor ? markVisited : undefined
+  );
+};
+
+export const fetchCounts = (): Promise<MetricsResult> => withFallback(() => fetch(endpoint()));
+
+export const cachedCounts = (): MetricsCounts | null => readCache();
@@ -0,0 +1,71 @@
+import { Project } from '../types';
+
+export type ProjectSort = 'featured' | 'alpha';
+
+export interface ProjectQuery {
+  q: string;
+  categories: string[];
+  tech: string[];
+  sort: ProjectSort;
+}
+
+export const SORT_OPTIONS: { value: ProjectSort; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'alpha', label: 'A–Z' },
+];
+
+const isSort = (value: string | null): value is ProjectSort =>
+  SORT_OPTIONS.some(option => option.value === value);
+
+// Query-string <-> filter state. Chips use repeated keys (`?tech=CUDA&tech=PyTorch`)
+// so links stay readable when shared.
+export const readProjectQuery = (params: URLSearchParams): ProjectQuery => {
+  const sort = params.get('sort');
+  return {
+    q: params.get('q') ?? '',
+    categories: params.getAll('category'),
+    tech: params.getAll('tech'),
+    sort: isSort(sort) ? sort : 'featured',
+  };
+};
+
+export const writeProjectQuery = (params: URLSearchParams, query: ProjectQuery): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['q', 'category', 'tech', 'sort'].forEach(key => next.delete(key));
+  if (query.q.trim()) next.set('q', query.q);
+  query.categories.forEach(category => next.append('category', category));
+  query.tech.forEach(tech => next.append('tech', tech));
+  if (query.sort !== 'featured') next.set('sort', query.sort);
+  return next;
+};
+
+export const uniqueValues = (projects: Project[], pick: (project: Project) => string[]): string[] =>
+  Array.from(new Set(projects.flatMap(pick))).sort((a, b) => a.localeCompare(b));
+
+const matchesText = (project: Project, q: string) => {
+  const needle = q.trim().toLowerCase();
+  if (!needle) return true;
+  return [project.title, project.description, ...project.longDescription].some(text =>
+    text.toLowerCase().includes(needle)
+  );
+};
+
+// Chips within a group are OR-ed; groups and the text search are AND-ed.
+export const applyProjectQuery = (projects: Project[], query: ProjectQuery): Project[] => {
+  const filtered = projects.filter(
+    project =>
+      (query.categories.length === 0 || (project.category !== undefined && query.categories.includes(project.category))) &&
+      (query.tech.length === 0 || project.tech.some(t => query.tech.includes(t))) &&
+      matchesText(project, query.q)
+  );
+
+  const order = new Map(projects.map((project, i) => [project.id, i]));
+  const byOrder = (a: Project, b: Project) => order.get(a.id)! - order.get(b.id)!;
+
+  switch (query.sort) {
+    case 'alpha':
+      return filtered.sort((a, b) => a.title.localeCompare(b.title));
+    case 'featured':
+      return filtered.sort((a, b) => Number(!!b.featured) - Number(!!a.featured) || byOrder(a, b));
+  }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, deriveSeed, parseSeed } from './random';
+import { FIXED_DT, TRAINING_CONFIG, createArmSim } from './sim/physics';
+import { createEpisodeRecorder } from './rl/recorder';
+import { createTrainer } from './rl/trainer';
+
+describe('createRng', () => {
+  it('repeats its sequence for a seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const draws = Array.from({ length: 100 }, () => a.next());
+    expect(Array.from({ length: 100 }, () => b.next())).toEqual(draws);
+    expect(draws.every(x => x >= 0 && x < 1)).toBe(true);
+    expect(createRng(43).next()).not.toBe(draws[0]);
+  });
+
+  it('draws standard normals', () => {
+    const rng = createRng(1);
+    const draws = Array.from({ length: 20_000 }, () => rng.normal());
+    const mean = draws.reduce((a, b) => a + b, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / draws.length;
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives each stream its own seed, the same every time', () => {
+    expect(deriveSeed(7, 'env')).toBe(deriveSeed(7, 'env'));
+    expect(deriveSeed(7, 'env')).not.toBe(deriveSeed(7, 'trainer'));
+    expect(deriveSeed(7, 'env')).not.toBe(deriveSeed(8, 'env'));
+  });
+});
+
+describe('parseSeed', () => {
+  it('accepts 32-bit unsigned integers only', () => {
+    expect(parseSeed(' 123 ')).toBe(123);
+    expect(parseSeed('4294967295')).toBe(4294967295);
+    expect(parseSeed('4294967296')).toBeNull();
+    expect(parseSeed('-1')).toBeNull();
+    expect(parseSeed('1.5')).toBeNull();
+    expect(parseSeed('seed')).toBeNull();
+  });
+});
+
+// The training loop as the worker runs it (lib/rl/worker.ts), minus the clock:
+// the environment and the trainer each draw from their own stream of `seed`.
+const train = (seed: number, episodes: number) => {
+  const sim = createArmSim(TRAINING_CONFIG);
+  sim.resize(900, 800);
+  sim.reset(createRng(deriveSeed(seed, 'env')).next);
+  const trainer = createTrainer(createRng(deriveSeed(seed, 'trainer')), 'pg', TRAINING_CONFIG.arm.links.length);
+  const recorder = createEpisodeRecorder(episodes);
+  const played: { result: string; steps: number; totalReward: number }[] = [];
+
+  while (played.length < episodes) {
+    const current = sim.state();
+    const action = trainer.act(current);
+    recorder.record(current, action);
+    for (const event of sim.step(FIXED_DT, { kind: 'delta', ...action }).events) {
+      if (event.type === 'collision' || event.type === 'bounce') continue;
+      const recording = recorder.finish(event.type, null);
+      trainer.finishEpisode(event.type, event.type === 'timeout' ? event.state : undefined);
+      played.push({ result: recording.result, steps: recording.steps.length, totalReward: recording.totalReward });
+    }
+  }
+  return { played, weights: trainer.snapshot().weights };
+};
+
+describe('seeded training', () => {
+  it('replays the same episodes and learning from the same seed', () => {
+    const first = train(1234, 6);
+    const second = train(1234, 6);
+    expect(second.played).toEqual(first.played);
+    expect(second.weights).toEqual(first.weights);
+  });
+
+  it('plays different episodes from another seed', () => {
+    const returns = (seed: number) => train(seed, 6).played.map(episode => episode.totalReward);
+    expect(returns(4321)).not.toEqual(returns(1234));
+  });
+});
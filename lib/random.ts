@@ -0,0 +1,43 @@
+// Seedable pseudo-random numbers (mulberry32). Everything stochastic in the
+// simulator and the RL trainer draws from an Rng so a run can be replayed
+// exactly from its seed.
+
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // uniform in [0, 1)
+  normal: () => number; // standard normal (Box–Muller)
+}
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const normal = () => {
+    const u = Math.max(next(), 1e-10);
+    const v = Math.max(next(), 1e-10);
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  };
+  return { seed: seed >>> 0, next, normal };
+};
+
+// Independent stream for a named consumer, so the environment and the
+// trainer don't shift each other's sequences when one draws more numbers.
+export const deriveSeed = (seed: number, stream: string) => {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (let i = 0; i < stream.length; i++) {
+    h = Math.imul(h ^ stream.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+export const parseSeed = (value: string): number | null => {
+  const n = Number(value.trim());
+  return Number.isInteger(n) && n >= 0 && n <= 0xffffffff ? n : null;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '../random';
+import { DEFAULT_LEVEL } from '../levels';
+import { THREE_LINK_ARM } from '../sim/physics';
+import {
+  CHECKPOINT_FORMAT,
+  CHECKPOINT_VERSION,
+  Checkpoint,
+  decodeShare,
+  encodeShare,
+  parseCheckpoint,
+  serializeCheckpoint,
+  validateCheckpoint,
+} from './checkpoint';
+import { createOffPolicyTrainer } from './offPolicy';
+import { TrainerState } from './protocol';
+import { DEFAULT_HYPERPARAMETERS, createTrainer } from './trainer';
+
+const checkpointOf = (trainer: TrainerState, arm = 'two-link'): Checkpoint => ({
+  format: CHECKPOINT_FORMAT,
+  version: CHECKPOINT_VERSION,
+  name: 'test',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  arm,
+  level: DEFAULT_LEVEL,
+  seed: 7,
+  episodes: 12,
+  steps: 3400,
+  hyperparameters: DEFAULT_HYPERPARAMETERS[trainer.policy],
+  trainer,
+});
+
+const ppo = () => checkpointOf(createTrainer(createRng(1), 'ppo', 2).snapshot());
+const sac = () => checkpointOf(createOffPolicyTrainer(createRng(2), 'sac', 2, undefined, 'state').snapshot());
+
+// A checkpoint as decoded JSON, with one change applied
+const tampered = (checkpoint: Checkpoint, change: (value: any) => void) => {
+  const value = JSON.parse(serializeCheckpoint(checkpoint));
+  change(value);
+  return JSON.stringify(value);
+};
+
+describe('serializeCheckpoint / parseCheckpoint', () => {
+  it.each([
+    ['on-policy', ppo],
+    ['off-policy', sac],
+  ])('round-trips an %s checkpoint', (_, make) => {
+    const checkpoint = make();
+    const text = serializeCheckpoint(checkpoint);
+    expect(text).toContain('"$f32"');
+    const parsed = parseCheckpoint(text);
+    expect(parsed).toEqual(checkpoint);
+    expect(parsed.trainer.weights.w1).toBeInstanceOf(Float32Array);
+  });
+
+  it('fills in hyperparameters the file is missing', () => {
+    const text = tampered(ppo(), value => delete value.hyperparameters.lambda);
+    expect(parseCheckpoint(text).hyperparameters.lambda).toBe(DEFAULT_HYPERPARAMETERS.ppo.lambda);
+  });
+
+  it('rejects text that is not JSON or not a checkpoint', () => {
+    expect(() => parseCheckpoint('{')).toThrow('Checkpoint is not valid JSON');
+    expect(() => parseCheckpoint('{"format":"other"}')).toThrow('Not a policy checkpoint');
+  });
+
+  it('rejects other versions', () => {
+    expect(() => parseCheckpoint(tampered(ppo(), value => (value.version = 2)))).toThrow(
+      "Checkpoint version 2 isn't supported (expected 1)"
+    );
+  });
+
+  it('rejects an unknown arm or a network for another arm', () => {
+    expect(() => validateCheckpoint({ ...ppo(), arm: 'five-link' })).toThrow('Checkpoint arm "five-link" doesn\'t exist');
+    expect(() => validateCheckpoint({ ...ppo(), arm: THREE_LINK_ARM.id })).toThrow(
+      "Checkpoint network doesn't fit the 3-link arm"
+    );
+  });
+
+  it('rejects truncated weights', () => {
+    const checkpoint = ppo();
+    const { w1 } = checkpoint.trainer.weights;
+    const truncated = { ...checkpoint.trainer, weights: { ...checkpoint.trainer.weights, w1: w1.subarray(0, w1.length - 1) } };
+    expect(() => parseCheckpoint(serializeCheckpoint({ ...checkpoint, trainer: truncated }))).toThrow(
+      `Checkpoint trainer.weights.w1 should hold ${w1.length} numbers`
+    );
+  });
+
+  it('rejects critics that do not fit the actor', () => {
+    const checkpoint = sac();
+    const trainer = { ...checkpoint.trainer, q1: undefined, critic: createTrainer(createRng(3), 'ppo', 3).snapshot().critic };
+    expect(() => validateCheckpoint({ ...checkpoint, trainer })).toThrow("Checkpoint trainer.critic isn't a");
+  });
+});
+
+describe('encodeShare / decodeShare', () => {
+  it('round-trips the acting part of a checkpoint through URL-safe text', async () => {
+    const checkpoint = sac();
+    const encoded = await encodeShare(checkpoint);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const decoded = await decodeShare(encoded);
+    expect(decoded.trainer.weights).toEqual(checkpoint.trainer.weights);
+    expect(decoded.trainer.logStd).toEqual(checkpoint.trainer.logStd);
+    expect(decoded).toMatchObject({ name: checkpoint.name, arm: checkpoint.arm, seed: checkpoint.seed, level: checkpoint.level });
+    expect('q1' in decoded.trainer).toBe(false);
+  });
+
+  it('rejects a damaged link with a message instead of throwing', async () => {
+    const encoded = await encodeShare(ppo());
+    await expect(decodeShare('not a policy!')).rejects.toThrow('The shared policy link is damaged');
+    await expect(decodeShare(encoded.slice(0, encoded.length / 2))).rejects.toThrow('The shared policy link is damaged');
+  });
+});
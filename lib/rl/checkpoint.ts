@@ -0,0 +1,206 @@
+import { Level } from '../sim/level';
+import { ARM_MODELS } from '../sim/physics';
+import { validateLevel } from '../schema';
+import { HIDDEN1, HIDDEN2, OUTPUT_SIZE } from './network';
+import { DEFAULT_HYPERPARAMETERS, EXPLORATIONS, Hyperparameters, POLICIES, isOffPolicy, observationSize } from './trainer';
+import { TrainerState } from './protocol';
+
+// Trained policies outside the worker: a checkpoint is the trainer's state
+// plus what's needed to carry on training it (arm, level, seed and how far it
+// got). Files are versioned JSON with weights as base64 Float32 data; share
+// links carry a compressed copy with the acting weights only.
+
+export const CHECKPOINT_FORMAT = 'arm-rl-checkpoint';
+export const CHECKPOINT_VERSION = 1;
+
+export interface Checkpoint {
+  format: typeof CHECKPOINT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string; // ISO time
+  arm: string; // ArmModel id
+  level: Level;
+  seed: number;
+  episodes: number; // trained so far, across resumed runs
+  steps: number;
+  hyperparameters: Hyperparameters;
+  trainer: TrainerState;
+}
+
+// ── Encoding ────────────────────────────────────────────────────────────────
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Float32Arrays don't survive JSON, so they travel as { $f32: base64 }
+const replacer = (_key: string, value: unknown) =>
+  value instanceof Float32Array ? { $f32: toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) } : value;
+
+const reviver = (_key: string, value: unknown) => {
+  if (value && typeof value === 'object' && typeof (value as { $f32?: unknown }).$f32 === 'string') {
+    const bytes = fromBase64((value as { $f32: string }).$f32);
+    if (bytes.length % 4 === 0) return new Float32Array(bytes.buffer);
+  }
+  return value;
+};
+
+export const serializeCheckpoint = (checkpoint: Checkpoint) => JSON.stringify(checkpoint, replacer);
+
+// ── Validation ──────────────────────────────────────────────────────────────
+type Fields = Record<string, unknown>;
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const floats = (value: unknown, length: number) => value instanceof Float32Array && value.length === length;
+
+type Shape = { inputSize: number; outputSize: number };
+const layerSizes = ({ inputSize, outputSize }: Shape) => ({
+  w1: HIDDEN1 * inputSize,
+  b1: HIDDEN1,
+  w2: HIDDEN2 * HIDDEN1,
+  b2: HIDDEN2,
+  w3: outputSize * HIDDEN2,
+  b3: outputSize,
+});
+
+const weightsProblem = (value: unknown, path: string, shape: Shape) => {
+  if (!isObject(value) || value.inputSize !== shape.inputSize || value.outputSize !== shape.outputSize) {
+    return `${path} isn't a ${shape.inputSize}→${shape.outputSize} network`;
+  }
+  const bad = Object.entries(layerSizes(shape)).find(([key, length]) => !floats(value[key], length));
+  return bad ? `${path}.${bad[0]} should hold ${bad[1]} numbers` : null;
+};
+
+// Adam keeps a first (m) and second (v) moment per parameter
+const adamProblem = (value: unknown, path: string, shape: Shape) => {
+  if (!isObject(value) || !isCount(value.t)) return `${path} is not optimiser state`;
+  const bad = Object.entries(layerSizes(shape))
+    .flatMap(([key, length]) => [`m${key}`, `v${key}`].map(moment => [moment, length] as const))
+    .find(([key, length]) => !floats(value[key], length));
+  return bad ? `${path}.${bad[0]} should hold ${bad[1]} numbers` : null;
+};
+
+const logStdAdamProblem = (value: unknown, path: string) =>
+  isObject(value) && isCount(value.t) && floats(value.m, 2) && floats(value.v, 2) ? null : `${path} is not optimiser state`;
+
+// Every network has to fit the actor's input, i.e. the same arm
+const trainerProblem = (value: unknown) => {
+  if (!isObject(value)) return 'trainer is missing';
+  const { kind, policy, exploration, logStd, weights } = value;
+  if (kind !== 'on-policy' && kind !== 'off-policy') return `trainer.kind "${String(kind)}" is unknown`;
+  if (!POLICIES.includes(policy as never)) return `trainer.policy "${String(policy)}" is unknown`;
+  if (isOffPolicy(policy as never) !== (kind === 'off-policy')) return `trainer.policy ${String(policy)} isn't ${kind}`;
+  if (!EXPLORATIONS.includes(exploration as never)) return `trainer.exploration "${String(exploration)}" is unknown`;
+  if (!Array.isArray(logStd) || logStd.length !== 2 || !logStd.every(Number.isFinite)) {
+    return 'trainer.logStd should be two numbers';
+  }
+  if (!isObject(weights) || !isCount(weights.inputSize)) return 'trainer.weights is not a network';
+
+  const { inputSize } = weights;
+  const actor = { inputSize, outputSize: exploration === 'state' ? OUTPUT_SIZE * 2 : OUTPUT_SIZE };
+  const critic = { inputSize, outputSize: 1 };
+  const q = { inputSize: inputSize + 2, outputSize: 1 }; // Q-networks also take the action
+  const optional = (key: string, problem: (value: unknown, path: string) => string | null) =>
+    value[key] === undefined ? null : problem(value[key], `trainer.${key}`);
+  const problems = [
+    weightsProblem(weights, 'trainer.weights', actor),
+    optional('adam', (item, path) => adamProblem(item, path, actor)),
+    optional('logStdAdam', logStdAdamProblem),
+    optional('actorTarget', (item, path) => weightsProblem(item, path, actor)),
+    optional('critic', (item, path) => weightsProblem(item, path, critic)),
+    optional('criticAdam', (item, path) => adamProblem(item, path, critic)),
+    optional('baseline', (item, path) => (Number.isFinite(item) ? null : `${path} is not a number`)),
+    ...['q1', 'q2'].map(key =>
+      optional(key, (item, path) =>
+        isObject(item)
+          ? weightsProblem(item.weights, `${path}.weights`, q) ??
+            weightsProblem(item.target, `${path}.target`, q) ??
+            adamProblem(item.adam, `${path}.adam`, q)
+          : `${path} is not a Q-network`
+      )
+    ),
+  ];
+  return problems.find(problem => problem !== null) ?? null;
+};
+
+// Checks a decoded checkpoint and fills in hyperparameters added since it
+// was saved. Throws with a message fit to show to the user.
+export const validateCheckpoint = (value: unknown): Checkpoint => {
+  if (!isObject(value) || value.format !== CHECKPOINT_FORMAT) throw new Error('Not a policy checkpoint');
+  if (value.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Checkpoint version ${String(value.version)} isn't supported (expected ${CHECKPOINT_VERSION})`);
+  }
+  if (typeof value.name !== 'string' || typeof value.arm !== 'string') throw new Error('Checkpoint name or arm is missing');
+  const model = ARM_MODELS.find(item => item.id === value.arm);
+  if (!model) throw new Error(`Checkpoint arm "${value.arm}" doesn't exist`);
+  if (!isCount(value.seed) || !isCount(value.episodes) || !isCount(value.steps)) {
+    throw new Error('Checkpoint seed, episodes or steps are invalid');
+  }
+  const issues = validateLevel(value.level, 'level');
+  if (issues.length > 0) throw new Error(`${issues[0].path} ${issues[0].message}`);
+  const problem = trainerProblem(value.trainer);
+  if (problem) throw new Error(`Checkpoint ${problem}`);
+
+  const trainer = value.trainer as TrainerState;
+  if (trainer.weights.inputSize !== observationSize(model.links.length)) {
+    throw new Error(`Checkpoint network doesn't fit the ${model.label} arm`);
+  }
+  const saved = isObject(value.hyperparameters) ? value.hyperparameters : {};
+  const hyperparameters = { ...DEFAULT_HYPERPARAMETERS[trainer.policy] };
+  for (const key of Object.keys(hyperparameters) as (keyof Hyperparameters)[]) {
+    const number = saved[key];
+    if (typeof number === 'number' && Number.isFinite(number)) hyperparameters[key] = number;
+  }
+  return { ...(value as unknown as Checkpoint), hyperparameters, trainer };
+};
+
+export const parseCheckpoint = (text: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text, reviver);
+  } catch {
+    throw new Error('Checkpoint is not valid JSON');
+  }
+  return validateCheckpoint(value);
+};
+
+// ── Share links ─────────────────────────────────────────────────────────────
+export const SHARE_PARAM = 'policy';
+// Longer links get cut off by chat apps and some servers
+export const MAX_SHARE_LENGTH = 64_000;
+
+// A link only needs to play the policy, so optimiser state and critics stay home
+export const shareableCheckpoint = ({ trainer, ...checkpoint }: Checkpoint): Checkpoint => ({
+  ...checkpoint,
+  trainer: {
+    kind: trainer.kind,
+    policy: trainer.policy,
+    exploration: trainer.exploration,
+    weights: trainer.weights,
+    logStd: trainer.logStd,
+  } as TrainerState,
+});
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Deflated, then base64url so the text is safe in a URL as is
+export const encodeShare = async (checkpoint: Checkpoint) => {
+  const json = new TextEncoder().encode(serializeCheckpoint(shareableCheckpoint(checkpoint)));
+  const deflated = await pipe(json, new CompressionStream('deflate-raw'));
+  return toBase64(deflated).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeShare = async (text: string) => {
+  let json: string;
+  try {
+    const bytes = fromBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+    json = new TextDecoder().decode(await pipe(bytes, new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new Error('The shared policy link is damaged');
+  }
+  return parseCheckpoint(json);
+};
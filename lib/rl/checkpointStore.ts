@@ -0,0 +1,48 @@
+import { Checkpoint, validateCheckpoint } from './checkpoint';
+
+// Named checkpoints kept in the browser. IndexedDB rather than localStorage:
+// weights are stored as they are (Float32Arrays clone natively) and a few
+// checkpoints would already crowd localStorage's quota. Saving under an
+// existing name replaces that checkpoint.
+
+const DB_NAME = 'arm-rl';
+const STORE = 'checkpoints';
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'name' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = use(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Newest first. Entries this version can't load are left out.
+export const listCheckpoints = async () => {
+  const stored = await withStore<unknown[]>('readonly', store => store.getAll());
+  return stored
+    .flatMap(entry => {
+      try {
+        return [validateCheckpoint(entry)];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const saveCheckpoint = (checkpoint: Checkpoint) => withStore('readwrite', store => store.put(checkpoint));
+
+export const deleteCheckpoint = (name: string) => withStore('readwrite', store => store.delete(name));
@@ -0,0 +1,62 @@
+import { EpisodeRecording } from './recorder';
+import { Policy } from './trainer';
+import { TrainerEvent, TrainerRequest, TrainerState } from './protocol';
+
+// Page side of the training worker. Events fan out to subscribers; requests
+// that expect an answer resolve with it.
+export const createTrainingClient = () => {
+  const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+  const listeners = new Set<(event: TrainerEvent) => void>();
+  const waiting = new Map<number, (event: TrainerEvent) => void>();
+  let nextId = 0;
+
+  worker.addEventListener('message', (e: MessageEvent<TrainerEvent>) => {
+    const event = e.data;
+    if ('id' in event) {
+      waiting.get(event.id)?.(event);
+      waiting.delete(event.id);
+      return;
+    }
+    listeners.forEach(listener => listener(event));
+  });
+
+  const send = (request: TrainerRequest) => worker.postMessage(request);
+
+  const ask = <T>(request: (id: number) => TrainerRequest, answer: (event: TrainerEvent) => T) =>
+    new Promise<T>(resolve => {
+      const id = ++nextId;
+      waiting.set(id, event => resolve(answer(event)));
+      send(request(id));
+    });
+
+  return {
+    send,
+    // Returns the unsubscribe function
+    subscribe: (listener: (event: TrainerEvent) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Everything the current trainer learned (for checkpoints); null before
+    // the first run
+    snapshot: () =>
+      ask<TrainerState | null>(
+        id => ({ type: 'snapshot', id }),
+        event => (event.type === 'snapshot' ? event.snapshot : null)
+      ),
+    // One of the last RECORDED_EPISODES episodes, or null if it's gone
+    recording: (policy: Policy, episode: number) =>
+      ask<EpisodeRecording | null>(
+        id => ({ type: 'recording', id, policy, episode }),
+        event => (event.type === 'recording' ? event.recording : null)
+      ),
+    terminate: () => {
+      worker.terminate();
+      listeners.clear();
+      waiting.clear();
+    },
+  };
+};
+
+export type TrainingClient = ReturnType<typeof createTrainingClient>;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Level } from '../sim/level';
+import { CurriculumConfig, DEFAULT_CURRICULUM, createCurriculum, levelAtStage, stageDifficulty } from './curriculum';
+
+const CONFIG: CurriculumConfig = { ...DEFAULT_CURRICULUM, stages: 3, window: 4, promoteAt: 0.75, demoteAt: 0.25 };
+
+// Records `results` in order and returns the changes they caused
+const play = (curriculum: ReturnType<typeof createCurriculum>, results: boolean[]) =>
+  results.map(goal => curriculum.record(goal)).filter(change => change !== null);
+
+describe('createCurriculum', () => {
+  it('waits for a full window before judging a stage', () => {
+    const curriculum = createCurriculum(CONFIG);
+    expect(play(curriculum, [true, true, true])).toEqual([]);
+    expect(curriculum.progress()).toBe(3);
+    expect(curriculum.stage()).toBe(0);
+  });
+
+  it('promotes once the window reaches the success rate, then judges the new stage afresh', () => {
+    const curriculum = createCurriculum(CONFIG);
+    expect(play(curriculum, [false, true, true, true])).toEqual([{ from: 0, to: 1, episode: 4 }]);
+    expect(curriculum.stage()).toBe(1);
+    expect(curriculum.progress()).toBe(0);
+    expect(play(curriculum, [true, true, true])).toEqual([]);
+  });
+
+  it('judges a sliding window of the latest episodes', () => {
+    const curriculum = createCurriculum(CONFIG);
+    expect(play(curriculum, [false, false, true, true, false, true])).toEqual([{ from: 0, to: 1, episode: 6 }]);
+  });
+
+  it('demotes when the rate collapses', () => {
+    const curriculum = createCurriculum(CONFIG);
+    play(curriculum, [true, true, true, true]);
+    expect(play(curriculum, [false, false, true, false])).toEqual([{ from: 1, to: 0, episode: 8 }]);
+    expect(curriculum.stage()).toBe(0);
+  });
+
+  it('holds between the two thresholds', () => {
+    const curriculum = createCurriculum(CONFIG);
+    expect(play(curriculum, [true, false, true, false, true, false])).toEqual([]);
+    expect(curriculum.progress()).toBe(CONFIG.window);
+  });
+
+  it('stays at the first and last stages', () => {
+    const curriculum = createCurriculum(CONFIG);
+    expect(play(curriculum, Array(8).fill(false))).toEqual([]);
+    expect(curriculum.stage()).toBe(0);
+
+    expect(play(curriculum, Array(20).fill(true)).map(change => change.to)).toEqual([1, 2]);
+    expect(curriculum.stage()).toBe(CONFIG.stages - 1);
+  });
+});
+
+describe('levelAtStage', () => {
+  const LEVEL: Level = {
+    version: 1,
+    id: 'test',
+    name: 'Test',
+    goal: { x: -100, y: 40, width: 200, height: 50 },
+    spawn: { x: [100, 200], y: [260, 260], vx: [-3, 3], vy: [-2, 2] },
+    obstacles: [],
+  };
+
+  it('spreads difficulty evenly over the stages', () => {
+    expect([0, 1, 2].map(stage => stageDifficulty(CONFIG, stage))).toEqual([0, 0.5, 1]);
+    expect(stageDifficulty({ ...CONFIG, stages: 1 }, 0)).toBe(1);
+  });
+
+  it('plays the easy end at the first stage', () => {
+    const level = levelAtStage(LEVEL, CONFIG, 0);
+    // 1.6× as wide, centred 55% of the way from the spawn centre (150, 260)
+    // to the goal's (0, 65), i.e. at (67.5, 152.75)
+    expect(level.goal).toEqual({ x: -92, y: 128, width: 320, height: 50 });
+    expect(level.ballRadius).toBe(36);
+    expect(level.spawn.vx).toEqual([-0, 0]);
+  });
+
+  it('plays the hard end at the last stage', () => {
+    const level = levelAtStage(LEVEL, CONFIG, CONFIG.stages - 1);
+    expect(level.goal).toEqual({ x: -80, y: 40, width: 160, height: 50 });
+    expect(level.ballRadius).toBe(22);
+    expect(level.spawn.vy).toEqual([-3, 3]);
+  });
+});
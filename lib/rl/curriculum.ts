@@ -0,0 +1,104 @@
+import { Level } from '../sim/level';
+
+// Curriculum over the environment: each parameter interpolates between an
+// easy and a hard value as difficulty goes from 0 to 1. The scheduler moves
+// one stage at a time, judging only episodes played at the current stage.
+
+export interface CurriculumParams {
+  goalWidth: [number, number]; // multiplier on the level's goal width
+  spawnSpread: [number, number]; // multiplier on the spawn velocity ranges
+  ballRadius: [number, number]; // px
+  goalDistance: [number, number]; // multiplier on the spawn-to-goal offset
+}
+
+export interface CurriculumConfig {
+  stages: number;
+  window: number; // episodes at a stage before it's judged
+  promoteAt: number; // success rate that moves up a stage
+  demoteAt: number; // success rate that counts as a collapse
+  params: CurriculumParams;
+}
+
+export type StageChange = { from: number; to: number; episode: number };
+
+export const DEFAULT_CURRICULUM: CurriculumConfig = {
+  stages: 5,
+  window: 20,
+  promoteAt: 0.6,
+  demoteAt: 0.1,
+  params: {
+    goalWidth: [1.6, 0.8],
+    spawnSpread: [0, 1.5],
+    ballRadius: [36, 22],
+    goalDistance: [0.55, 1],
+  },
+};
+
+const lerp = ([easy, hard]: [number, number], t: number) => easy + (hard - easy) * t;
+
+export const stageDifficulty = (config: CurriculumConfig, stage: number) =>
+  config.stages > 1 ? stage / (config.stages - 1) : 1;
+
+// The level as played at `stage`. The goal keeps its centre when resized and
+// moves along the line from the spawn centre when brought closer.
+export const levelAtStage = (level: Level, config: CurriculumConfig, stage: number): Level => {
+  const t = stageDifficulty(config, stage);
+  const { goal, spawn } = level;
+  const spawnX = (spawn.x[0] + spawn.x[1]) / 2;
+  const spawnY = (spawn.y[0] + spawn.y[1]) / 2;
+  const distance = lerp(config.params.goalDistance, t);
+  const centreX = spawnX + (goal.x + goal.width / 2 - spawnX) * distance;
+  const centreY = spawnY + (goal.y + goal.height / 2 - spawnY) * distance;
+  const width = Math.round(goal.width * lerp(config.params.goalWidth, t));
+  const spread = lerp(config.params.spawnSpread, t);
+
+  return {
+    ...level,
+    ballRadius: Math.round(lerp(config.params.ballRadius, t)),
+    goal: {
+      ...goal,
+      x: Math.round(centreX - width / 2),
+      y: Math.max(0, Math.round(centreY - goal.height / 2)),
+      width,
+    },
+    spawn: {
+      ...spawn,
+      vx: [spawn.vx[0] * spread, spawn.vx[1] * spread],
+      vy: [spawn.vy[0] * spread, spawn.vy[1] * spread],
+    },
+  };
+};
+
+export const createCurriculum = (config: CurriculumConfig = DEFAULT_CURRICULUM) => {
+  let stage = 0;
+  let episodes = 0;
+  let recent: boolean[] = [];
+
+  // Records an episode; returns the stage change it caused, if any.
+  const record = (goal: boolean): StageChange | null => {
+    episodes += 1;
+    recent = [...recent, goal].slice(-config.window);
+    if (recent.length < config.window) return null;
+
+    const rate = recent.filter(Boolean).length / recent.length;
+    let next = stage;
+    if (rate >= config.promoteAt && stage < config.stages - 1) next = stage + 1;
+    else if (rate <= config.demoteAt && stage > 0) next = stage - 1;
+    if (next === stage) return null;
+
+    const change = { from: stage, to: next, episode: episodes };
+    stage = next;
+    recent = [];
+    return change;
+  };
+
+  return {
+    record,
+    stage: () => stage,
+    // Episodes played at the current stage, capped at the judging window.
+    progress: () => recent.length,
+    config,
+  };
+};
+
+export type Curriculum = ReturnType<typeof createCurriculum>;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '../random';
+import { backward, createGradients, createWeights, forward, softUpdate } from './network';
+
+describe('backward', () => {
+  it('matches finite differences of Σ dOutput·output', () => {
+    const state = [0.5, -1, 0.25];
+    const dOutput = [0.7, -1.3];
+    const weights = createWeights(createRng(4), state.length, 2);
+    const loss = (w: typeof weights) => forward(w, state).output.reduce((sum, out, i) => sum + dOutput[i] * out, 0);
+    const { h1, h2 } = forward(weights, state);
+    const grads = createGradients(weights);
+    const dInput = backward(weights, grads, state, h1, h2, dOutput);
+
+    const step = 1e-3;
+    for (const [key, index] of [['w1', 4], ['b1', 10], ['w2', 300], ['b2', 7], ['w3', 70], ['b3', 1]] as const) {
+      const nudged = (by: number) => {
+        const copy = structuredClone(weights);
+        copy[key][index] += by;
+        return loss(copy);
+      };
+      expect(grads[key][index]).toBeCloseTo((nudged(step) - nudged(-step)) / (2 * step), 3);
+    }
+    state.forEach((_, i) => {
+      const nudged = (by: number) => forward(weights, state.map((x, j) => (j === i ? x + by : x))).output;
+      const [plus, minus] = [nudged(step), nudged(-step)];
+      const numeric = dOutput.reduce((sum, d, k) => sum + (d * (plus[k] - minus[k])) / (2 * step), 0);
+      expect(dInput[i]).toBeCloseTo(numeric, 3);
+    });
+  });
+});
+
+describe('softUpdate', () => {
+  it('moves every parameter of the target a share τ toward the source', () => {
+    const source = createWeights(createRng(1), 3, 2);
+    const target = createWeights(createRng(2), 3, 2);
+    const before = structuredClone(target);
+    softUpdate(target, source, 0.1);
+    for (const key of ['w1', 'b1', 'w2', 'b2', 'w3', 'b3'] as const) {
+      target[key].forEach((value, i) => expect(value).toBeCloseTo(0.9 * before[key][i] + 0.1 * source[key][i], 6));
+    }
+  });
+
+  it('copies the source with τ = 1 and leaves the target alone with τ = 0', () => {
+    const source = createWeights(createRng(1), 3, 2);
+    const target = createWeights(createRng(2), 3, 2);
+    const before = structuredClone(target);
+    softUpdate(target, source, 0);
+    expect(target).toEqual(before);
+    softUpdate(target, source, 1);
+    expect(target).toEqual(source);
+  });
+});
@@ -0,0 +1,208 @@
+import { Rng } from '../random';
+
+// ─── Network architecture: inputs → 64 → 64 → outputs ────────────────────────
+// The input width depends on the arm (see observationSize in trainer.ts). The
+// policy has two outputs (the action mean), or four with per-state exploration
+// (mean and log-std); critics have one (a state's value, or a Q-value with the
+// action appended to the input).
+export const HIDDEN1 = 64;
+export const HIDDEN2 = 64;
+export const OUTPUT_SIZE = 2;
+
+export type Weights = ReturnType<typeof createWeights>;
+export type AdamState = ReturnType<typeof createAdamState>;
+export type Gradients = ReturnType<typeof createGradients>;
+export type VectorAdam = ReturnType<typeof createVectorAdam>;
+
+const xavierInit = (rng: Rng, fanIn: number, size: number) =>
+  Float32Array.from({ length: size }, () => (rng.next() - 0.5) * Math.sqrt(6 / fanIn));
+
+export const createWeights = (rng: Rng, inputSize: number, outputSize = OUTPUT_SIZE) => ({
+  inputSize,
+  outputSize,
+  w1: xavierInit(rng, inputSize, HIDDEN1 * inputSize),
+  b1: new Float32Array(HIDDEN1).fill(0),
+  w2: xavierInit(rng, HIDDEN1, HIDDEN2 * HIDDEN1),
+  b2: new Float32Array(HIDDEN2).fill(0),
+  w3: xavierInit(rng, HIDDEN2, outputSize * HIDDEN2),
+  b3: new Float32Array(outputSize).fill(0),
+});
+
+export const createAdamState = (inputSize: number, outputSize = OUTPUT_SIZE) => ({
+  mw1: new Float32Array(HIDDEN1 * inputSize).fill(0),
+  mb1: new Float32Array(HIDDEN1).fill(0),
+  mw2: new Float32Array(HIDDEN2 * HIDDEN1).fill(0),
+  mb2: new Float32Array(HIDDEN2).fill(0),
+  mw3: new Float32Array(outputSize * HIDDEN2).fill(0),
+  mb3: new Float32Array(outputSize).fill(0),
+  vw1: new Float32Array(HIDDEN1 * inputSize).fill(0),
+  vb1: new Float32Array(HIDDEN1).fill(0),
+  vw2: new Float32Array(HIDDEN2 * HIDDEN1).fill(0),
+  vb2: new Float32Array(HIDDEN2).fill(0),
+  vw3: new Float32Array(outputSize * HIDDEN2).fill(0),
+  vb3: new Float32Array(outputSize).fill(0),
+  t: 0,
+});
+
+// Adam state for a free parameter vector, e.g. a global log-std
+export const createVectorAdam = (size: number) => ({ m: new Float32Array(size), v: new Float32Array(size), t: 0 });
+
+export const createGradients = (W: Weights) => ({
+  w1: new Float32Array(W.w1.length),
+  b1: new Float32Array(W.b1.length),
+  w2: new Float32Array(W.w2.length),
+  b2: new Float32Array(W.b2.length),
+  w3: new Float32Array(W.w3.length),
+  b3: new Float32Array(W.b3.length),
+});
+
+const BETA1 = 0.9;
+const BETA2 = 0.999;
+const EPS = 1e-8;
+
+export const adamStep = (
+  weights: number[] | Float32Array,
+  grads: Float32Array,
+  m: Float32Array,
+  v: Float32Array,
+  lr: number,
+  t: number
+) => {
+  const bc1 = 1 - Math.pow(BETA1, t);
+  const bc2 = 1 - Math.pow(BETA2, t);
+  for (let i = 0; i < weights.length; i++) {
+    m[i] = BETA1 * m[i] + (1 - BETA1) * grads[i];
+    v[i] = BETA2 * v[i] + (1 - BETA2) * grads[i] * grads[i];
+    weights[i] += lr * (m[i] / bc1) / (Math.sqrt(v[i] / bc2) + EPS);
+  }
+};
+
+// ── Forward pass: inputs → 64 → 64 → outputs ─────────────────────────────
+export const forward = (W: Weights, state: number[]) => {
+  const n = W.inputSize;
+  const h1 = new Float32Array(HIDDEN1);
+  for (let i = 0; i < HIDDEN1; i++) {
+    let s = W.b1[i];
+    for (let j = 0; j < n; j++) s += state[j] * W.w1[i * n + j];
+    h1[i] = Math.tanh(s);
+  }
+
+  const h2 = new Float32Array(HIDDEN2);
+  for (let i = 0; i < HIDDEN2; i++) {
+    let s = W.b2[i];
+    for (let j = 0; j < HIDDEN1; j++) s += h1[j] * W.w2[i * HIDDEN1 + j];
+    h2[i] = Math.tanh(s);
+  }
+
+  const output: number[] = new Array(W.outputSize);
+  for (let i = 0; i < W.outputSize; i++) {
+    let s = W.b3[i];
+    for (let j = 0; j < HIDDEN2; j++) s += h2[j] * W.w3[i * HIDDEN2 + j];
+    output[i] = s;
+  }
+
+  return { h1, h2, output };
+};
+
+// ── Backward pass ─────────────────────────────────────────────────────────
+// Adds the gradient of Σ dOutput·output for one input to `grads`, given the
+// activations `forward` returned for it. Returns the gradient with respect to
+// the input, which the off-policy actors follow through their Q-networks.
+export const backward = (
+  W: Weights,
+  grads: Gradients,
+  state: number[],
+  h1: Float32Array,
+  h2: Float32Array,
+  dOutput: number[]
+) => {
+  const n = W.inputSize;
+
+  for (let out = 0; out < W.outputSize; out++) {
+    grads.b3[out] += dOutput[out];
+    for (let j = 0; j < HIDDEN2; j++) grads.w3[out * HIDDEN2 + j] += dOutput[out] * h2[j];
+  }
+
+  const dh1 = new Float32Array(HIDDEN1);
+  for (let j = 0; j < HIDDEN2; j++) {
+    let dh2 = 0;
+    for (let out = 0; out < W.outputSize; out++) dh2 += dOutput[out] * W.w3[out * HIDDEN2 + j];
+    dh2 *= 1 - h2[j] * h2[j]; // tanh'
+
+    grads.b2[j] += dh2;
+    for (let k = 0; k < HIDDEN1; k++) {
+      grads.w2[j * HIDDEN1 + k] += dh2 * h1[k];
+      dh1[k] += dh2 * W.w2[j * HIDDEN1 + k];
+    }
+  }
+
+  const dInput = new Float32Array(n);
+  for (let k = 0; k < HIDDEN1; k++) {
+    const d = dh1[k] * (1 - h1[k] * h1[k]);
+    grads.b1[k] += d;
+    for (let s = 0; s < n; s++) {
+      grads.w1[k * n + s] += d * state[s];
+      dInput[s] += d * W.w1[k * n + s];
+    }
+  }
+  return dInput;
+};
+
+// One Adam step along `grads` scaled by `scale` (e.g. 1 / steps to average a
+// batch). Steps go up the gradient: pass the negative of a loss's gradient.
+export const applyGradients = (W: Weights, grads: Gradients, opt: AdamState, lr: number, scale = 1) => {
+  for (const g of [grads.w1, grads.b1, grads.w2, grads.b2, grads.w3, grads.b3]) {
+    for (let i = 0; i < g.length; i++) g[i] *= scale;
+  }
+  opt.t += 1;
+  adamStep(W.w1, grads.w1, opt.mw1, opt.vw1, lr, opt.t);
+  adamStep(W.b1, grads.b1, opt.mb1, opt.vb1, lr, opt.t);
+  adamStep(W.w2, grads.w2, opt.mw2, opt.vw2, lr, opt.t);
+  adamStep(W.b2, grads.b2, opt.mb2, opt.vb2, lr, opt.t);
+  adamStep(W.w3, grads.w3, opt.mw3, opt.vw3, lr, opt.t);
+  adamStep(W.b3, grads.b3, opt.mb3, opt.vb3, lr, opt.t);
+};
+
+// Polyak averaging for target networks: target ← τ·source + (1 − τ)·target
+export const softUpdate = (target: Weights, source: Weights, tau: number) => {
+  const pairs = [
+    [target.w1, source.w1],
+    [target.b1, source.b1],
+    [target.w2, source.w2],
+    [target.b2, source.b2],
+    [target.w3, source.w3],
+    [target.b3, source.b3],
+  ] as const;
+  for (const [to, from] of pairs) {
+    for (let i = 0; i < to.length; i++) to[i] += tau * (from[i] - to[i]);
+  }
+};
+
+// ── Checkpoints ───────────────────────────────────────────────────────────
+// Copy saved parameters into live ones, which must have the same shape.
+const copyInto = (target: Float32Array, source: ArrayLike<number>, name: string) => {
+  if (source.length !== target.length) throw new Error(`Checkpoint ${name} has ${source.length} values, expected ${target.length}`);
+  target.set(source);
+};
+
+export const loadWeights = (target: Weights, source: Weights) => {
+  if (source.inputSize !== target.inputSize || source.outputSize !== target.outputSize) {
+    throw new Error(
+      `Checkpoint network is ${source.inputSize}→${source.outputSize}, expected ${target.inputSize}→${target.outputSize}`
+    );
+  }
+  for (const key of ['w1', 'b1', 'w2', 'b2', 'w3', 'b3'] as const) copyInto(target[key], source[key], key);
+};
+
+export const loadAdamState = (target: AdamState, source: AdamState) => {
+  for (const key of ['mw1', 'mb1', 'mw2', 'mb2', 'mw3', 'mb3', 'vw1', 'vb1', 'vw2', 'vb2', 'vw3', 'vb3'] as const) {
+    copyInto(target[key], source[key], key);
+  }
+  target.t = source.t;
+};
+
+export const loadVectorAdam = (target: VectorAdam, source: VectorAdam) => {
+  copyInto(target.m, source.m, 'm');
+  copyInto(target.v, source.v, 'v');
+  target.t = source.t;
+};
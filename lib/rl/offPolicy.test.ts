@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { smoothTargetAction, softValue } from './offPolicy';
+
+describe('smoothTargetAction', () => {
+  it('adds the noise when it is within the clip', () => {
+    const [a, b] = smoothTargetAction([0.2, -0.3], [0.1, -0.2], 0.5);
+    expect(a).toBeCloseTo(0.3);
+    expect(b).toBeCloseTo(-0.5);
+  });
+
+  it('clips the noise, then the action to [-1, 1]', () => {
+    const [a, b] = smoothTargetAction([0.1, 0.9], [2, 2], 0.5);
+    expect(a).toBeCloseTo(0.6);
+    expect(b).toBe(1);
+    expect(smoothTargetAction([-0.9], [-2], 0.5)).toEqual([-1]);
+  });
+});
+
+describe('softValue', () => {
+  it('takes the smaller Q and adds the entropy bonus −α·log π', () => {
+    expect(softValue(2, 1.5, 0.2, -1)).toBeCloseTo(1.7);
+    expect(softValue(1, 3, 0.2, 0.5)).toBeCloseTo(0.9);
+    expect(softValue(1, 3, 0, 0.5)).toBe(1);
+  });
+});
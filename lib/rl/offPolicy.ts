@@ -0,0 +1,342 @@
+import { Rng } from '../random';
+import { PhysicsState } from '../sim/physics';
+import {
+  AdamState,
+  HIDDEN2,
+  VectorAdam,
+  Weights,
+  adamStep,
+  applyGradients,
+  backward,
+  createAdamState,
+  createGradients,
+  createVectorAdam,
+  createWeights,
+  forward,
+  loadAdamState,
+  loadVectorAdam,
+  loadWeights,
+  softUpdate,
+} from './network';
+import { createReplayBuffer } from './replay';
+import {
+  ACTION_SCALE,
+  DEFAULT_HYPERPARAMETERS,
+  ENTROPY_SMOOTHING,
+  EpisodeResult,
+  Exploration,
+  Hyperparameters,
+  INITIAL_LOG_STD,
+  LOG_STD_RANGE,
+  Policy,
+  buildState,
+  computeStepReward,
+  observationSize,
+  squashedEntropy,
+  squashedLogProb,
+  terminalReward,
+} from './trainer';
+
+// Off-policy actor-critic trainer: DDPG, TD3 and SAC. Every step goes into a
+// replay buffer, and once it holds `warmupSteps` transitions each step also
+// runs one update on a random mini-batch. Actions are squashed to [-1, 1]
+// before the buffer and the Q-networks see them. Same interface as the
+// on-policy trainer in trainer.ts; every random draw comes from `rng`.
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// Entropy of a 1-D distribution in squashed units
+const UNIFORM_ENTROPY = Math.log(2); // warm-up actions, uniform on [-1, 1]
+const gaussianEntropy = (std: number) => 0.5 * (1 + Math.log(2 * Math.PI)) + Math.log(std);
+
+// ── Target maths ──────────────────────────────────────────────────────────
+// TD3's target policy smoothing: the target actor's action plus noise clipped
+// to ±noiseClip, kept within the action range
+export const smoothTargetAction = (mean: number[], noise: number[], noiseClip: number) =>
+  mean.map((m, d) => clamp(m + clamp(noise[d], -noiseClip, noiseClip), -1, 1));
+
+// SAC's soft value of s′ for a sampled a′: the smaller target Q, less α·log π(a′|s′)
+export const softValue = (q1: number, q2: number, alpha: number, logProb: number) => Math.min(q1, q2) - alpha * logProb;
+
+// A Q-network (the policy network's body on the state with the action
+// appended) with its Adam state and a slow-moving target copy
+const createQ = (rng: Rng, inputSize: number) => {
+  const weights = createWeights(rng, inputSize + 2, 1);
+  return { weights, target: structuredClone(weights), adam: createAdamState(inputSize + 2, 1) };
+};
+
+type QNetwork = ReturnType<typeof createQ>;
+
+const loadQ = (target: QNetwork, source: QNetwork) => {
+  loadWeights(target.weights, source.weights);
+  loadWeights(target.target, source.target);
+  loadAdamState(target.adam, source.adam);
+};
+
+// Everything an off-policy trainer learned, for checkpoints. The replay
+// buffer isn't saved, so a restored run refills it before its next update.
+// Only the actor and log-std are required, as in shared links.
+export interface OffPolicySnapshot {
+  kind: 'off-policy';
+  policy: Policy;
+  exploration: Exploration;
+  weights: Weights; // the actor
+  logStd: number[];
+  adam?: AdamState;
+  logStdAdam?: VectorAdam;
+  actorTarget?: Weights;
+  q1?: QNetwork;
+  q2?: QNetwork;
+}
+
+const q = (net: Weights, state: number[], action: number[]) => forward(net, [...state, ...action]).output[0];
+
+export const createOffPolicyTrainer = (
+  rng: Rng,
+  initialPolicy: Policy,
+  jointCount: number,
+  initialHyperparameters: Hyperparameters = DEFAULT_HYPERPARAMETERS[initialPolicy],
+  exploration: Exploration = 'global'
+) => {
+  const inputSize = observationSize(jointCount);
+  // DDPG and TD3 read the first two outputs as the pre-squash action; SAC as
+  // the Gaussian's mean, with per-state log-stds in the other two
+  const outputSize = exploration === 'state' ? 4 : 2;
+  const actor = createWeights(rng, inputSize, outputSize);
+  if (exploration === 'state') {
+    actor.w3.fill(0, 2 * HIDDEN2);
+    actor.b3.fill(INITIAL_LOG_STD, 2);
+  }
+  const actorTarget = structuredClone(actor);
+  const actorAdam = createAdamState(inputSize, outputSize);
+  const q1 = createQ(rng, inputSize);
+  const q2 = createQ(rng, inputSize);
+  // SAC's global exploration: one log-std per action dimension
+  const logStd = [INITIAL_LOG_STD, INITIAL_LOG_STD];
+  const logStdAdam = createVectorAdam(2);
+
+  let policy = initialPolicy;
+  let hyper = initialHyperparameters;
+  // Fixed for the run; a new bufferSize applies from the next one
+  const buffer = createReplayBuffer(hyper.bufferSize, inputSize);
+  let pending: { state: number[]; action: [number, number]; reward: number } | null = null;
+  let criticUpdates = 0;
+  let updates = 0;
+  let learning = true;
+  let warm = false; // a restored actor acts from the start, without random warm-up
+  let entropy: number | null = null;
+
+  // Deterministic action of an actor (DDPG/TD3)
+  const squashedMean = (net: Weights, state: number[]): [number, number] => {
+    const { output } = forward(net, state);
+    return [Math.tanh(output[0]), Math.tanh(output[1])];
+  };
+
+  // SAC: a reparameterised sample a = tanh(mean + σ·ε) with what its
+  // gradients need
+  const sample = (state: number[]) => {
+    const { h1, h2, output } = forward(actor, state);
+    const mean = [output[0], output[1]];
+    const sampleLogStd =
+      exploration === 'state'
+        ? [clamp(output[2], LOG_STD_RANGE[0], LOG_STD_RANGE[1]), clamp(output[3], LOG_STD_RANGE[0], LOG_STD_RANGE[1])]
+        : logStd;
+    const u: [number, number] = [
+      mean[0] + rng.normal() * Math.exp(sampleLogStd[0]),
+      mean[1] + rng.normal() * Math.exp(sampleLogStd[1]),
+    ];
+    return {
+      h1,
+      h2,
+      output,
+      mean,
+      logStd: sampleLogStd,
+      u,
+      action: [Math.tanh(u[0]), Math.tanh(u[1])] as [number, number],
+      logProb: squashedLogProb(u, mean, sampleLogStd),
+    };
+  };
+
+  // ── Exploration ───────────────────────────────────────────────────────────
+  const explore = (state: number[]): { action: [number, number]; entropy: number } => {
+    if (!warm && buffer.size() < hyper.warmupSteps) {
+      return { action: [rng.next() * 2 - 1, rng.next() * 2 - 1], entropy: 2 * UNIFORM_ENTROPY };
+    }
+    if (policy === 'sac') {
+      const { u, action, logStd: sampleLogStd } = sample(state);
+      return { action, entropy: squashedEntropy(u, sampleLogStd) };
+    }
+    const mean = squashedMean(actor, state);
+    const action = mean.map(m => clamp(m + rng.normal() * hyper.actionNoise, -1, 1)) as [number, number];
+    return { action, entropy: 2 * gaussianEntropy(hyper.actionNoise) };
+  };
+
+  // ── Update ────────────────────────────────────────────────────────────────
+  const criticTarget = (next: number[]) => {
+    if (policy === 'sac') {
+      const { action, logProb } = sample(next);
+      return softValue(q(q1.target, next, action), q(q2.target, next, action), hyper.entropyCoef, logProb);
+    }
+    const mean = squashedMean(actorTarget, next);
+    if (policy === 'ddpg') return q(q1.target, next, mean);
+    // TD3: clipped noise on the target action smooths the value estimate
+    const { targetNoise, noiseClip } = hyper;
+    const smoothed = smoothTargetAction(mean, mean.map(() => rng.normal() * targetNoise), noiseClip);
+    return Math.min(q(q1.target, next, smoothed), q(q2.target, next, smoothed));
+  };
+
+  // Ascends Q(s, π(s)); SAC also the entropy, through the sample as in the
+  // on-policy trainer
+  const updateActor = (batch: ReturnType<typeof buffer.sample>) => {
+    const alpha = hyper.entropyCoef;
+    const grads = createGradients(actor);
+    const scratch = createGradients(q1.weights); // Q gradients are only followed, not applied
+    const dLogStd = new Float32Array(2);
+
+    for (const { state } of batch) {
+      const dOutput = new Array<number>(outputSize).fill(0);
+      if (policy === 'sac') {
+        const { h1, h2, output, mean, logStd: sampleLogStd, u, action } = sample(state);
+        const input = [...state, ...action];
+        const f1 = forward(q1.weights, input);
+        const f2 = forward(q2.weights, input);
+        const [net, f] = f1.output[0] <= f2.output[0] ? [q1.weights, f1] : [q2.weights, f2];
+        const dInput = backward(net, scratch, input, f.h1, f.h2, [1]);
+        for (let d = 0; d < 2; d++) {
+          const dU = dInput[inputSize + d] * (1 - action[d] * action[d]) - 2 * alpha * action[d];
+          dOutput[d] = dU;
+          const dLog = dU * (u[d] - mean[d]) + alpha;
+          if (exploration === 'global') dLogStd[d] += dLog;
+          else if (output[2 + d] > LOG_STD_RANGE[0] && output[2 + d] < LOG_STD_RANGE[1]) dOutput[2 + d] = dLog;
+        }
+        backward(actor, grads, state, h1, h2, dOutput);
+      } else {
+        const { h1, h2, output } = forward(actor, state);
+        const action = [Math.tanh(output[0]), Math.tanh(output[1])];
+        const input = [...state, ...action];
+        const f = forward(q1.weights, input);
+        const dInput = backward(q1.weights, scratch, input, f.h1, f.h2, [1]);
+        for (let d = 0; d < 2; d++) dOutput[d] = dInput[inputSize + d] * (1 - action[d] * action[d]);
+        backward(actor, grads, state, h1, h2, dOutput);
+      }
+    }
+
+    const scale = 1 / batch.length;
+    applyGradients(actor, grads, actorAdam, hyper.learningRate, scale);
+    if (policy === 'sac' && exploration === 'global') {
+      for (let d = 0; d < 2; d++) dLogStd[d] *= scale;
+      logStdAdam.t += 1;
+      adamStep(logStd, dLogStd, logStdAdam.m, logStdAdam.v, hyper.learningRate, logStdAdam.t);
+      for (let d = 0; d < 2; d++) logStd[d] = clamp(logStd[d], LOG_STD_RANGE[0], LOG_STD_RANGE[1]);
+    }
+  };
+
+  const update = () => {
+    const { batchSize, gamma, tau, valueLearningRate, policyDelay } = hyper;
+    const batch = buffer.sample(rng, batchSize);
+    const targets = batch.map(t => t.reward + (t.done ? 0 : gamma * criticTarget(t.nextState)));
+
+    // Critics regress on the targets with ½(Q − y)²; DDPG has only one
+    const critics = policy === 'ddpg' ? [q1] : [q1, q2];
+    for (const critic of critics) {
+      const grads = createGradients(critic.weights);
+      batch.forEach((t, i) => {
+        const input = [...t.state, ...t.action];
+        const { h1, h2, output } = forward(critic.weights, input);
+        backward(critic.weights, grads, input, h1, h2, [targets[i] - output[0]]);
+      });
+      applyGradients(critic.weights, grads, critic.adam, valueLearningRate, 1 / batch.length);
+    }
+    criticUpdates += 1;
+    updates += 1;
+
+    // TD3 delays the actor and the targets behind the critics
+    if (criticUpdates % Math.max(1, policyDelay) !== 0) return;
+    updateActor(batch);
+    for (const critic of critics) softUpdate(critic.target, critic.weights, tau);
+    if (policy !== 'sac') softUpdate(actorTarget, actor, tau);
+  };
+
+  // ── Environment interface ─────────────────────────────────────────────────
+  // Stores the previous step's transition now that its next state is known,
+  // picks an action and trains on one mini-batch.
+  const act = (frame: PhysicsState) => {
+    const state = buildState(frame);
+    if (pending) buffer.add({ ...pending, nextState: state, done: false });
+
+    const { action, entropy: stepEntropy } = explore(state);
+    entropy = entropy === null ? stepEntropy : entropy + (stepEntropy - entropy) * ENTROPY_SMOOTHING;
+    pending = { state, action, reward: computeStepReward(frame) };
+
+    if (learning && buffer.size() >= Math.max(hyper.warmupSteps, hyper.batchSize)) update();
+    return { dx: action[0] * ACTION_SCALE, dy: action[1] * ACTION_SCALE };
+  };
+
+  // Updates happen per step, so an episode's end only closes its last
+  // transition. A timeout isn't terminal: that transition still bootstraps
+  // from `final`, the state the episode stopped in.
+  const finishEpisode = (result: EpisodeResult, final?: PhysicsState) => {
+    if (!pending) return;
+    const reward = pending.reward + terminalReward(result);
+    if (result === 'timeout' && final) buffer.add({ ...pending, reward, nextState: buildState(final), done: false });
+    else buffer.add({ ...pending, reward, nextState: pending.state, done: true });
+    pending = null;
+  };
+
+  // The buffer and networks carry over: each method can learn from the
+  // others' experience. Flushing drops only the half-finished transition.
+  const setPolicy = (next: Policy, flush: boolean) => {
+    policy = next;
+    if (flush) pending = null;
+  };
+
+  const setHyperparameters = (next: Hyperparameters) => {
+    hyper = next;
+  };
+
+  // With learning off the actor still acts and steps still fill the buffer
+  const setLearning = (on: boolean) => {
+    learning = on;
+  };
+
+  const snapshot = (): OffPolicySnapshot =>
+    structuredClone({
+      kind: 'off-policy',
+      policy,
+      exploration,
+      weights: actor,
+      logStd,
+      adam: actorAdam,
+      logStdAdam,
+      actorTarget,
+      q1,
+      q2,
+    });
+
+  // Continues from a checkpoint; throws if its networks have another shape.
+  // Without saved critics the actor is kept but the Q-networks start over.
+  const restore = (saved: OffPolicySnapshot) => {
+    loadWeights(actor, saved.weights);
+    loadWeights(actorTarget, saved.actorTarget ?? saved.weights);
+    logStd.splice(0, logStd.length, ...saved.logStd);
+    if (saved.adam) loadAdamState(actorAdam, saved.adam);
+    if (saved.logStdAdam) loadVectorAdam(logStdAdam, saved.logStdAdam);
+    if (saved.q1) loadQ(q1, saved.q1);
+    if (saved.q2) loadQ(q2, saved.q2);
+    warm = true;
+  };
+
+  return {
+    act,
+    finishEpisode,
+    setPolicy,
+    setHyperparameters,
+    setLearning,
+    snapshot,
+    restore,
+    entropy: () => entropy,
+    updates: () => updates,
+  };
+};
+
+export type OffPolicyTrainer = ReturnType<typeof createOffPolicyTrainer>;
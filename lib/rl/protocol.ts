@@ -0,0 +1,75 @@
+import { ArmModel, PhysicsState } from '../sim/physics';
+import { Level } from '../sim/level';
+import { CurriculumConfig, StageChange } from './curriculum';
+import { EpisodeRecording } from './recorder';
+import { EpisodeResult, Exploration, Hyperparameters, Policy, PolicySnapshot } from './trainer';
+import { OffPolicySnapshot } from './offPolicy';
+
+// Messages between the Experiments page and the training worker (worker.ts).
+// The worker owns the environment, the trainer, the curriculum and the
+// episode recordings; the page sends commands and draws the frames it gets.
+
+// Episodes the worker keeps per policy for replays
+export const RECORDED_EPISODES = 30;
+
+// What a trainer learned; a run can start from one (see checkpoint.ts)
+export type TrainerState = PolicySnapshot | OffPolicySnapshot;
+
+// Everything a run starts from. `level` is the level as designed; with a
+// curriculum the worker plays it at stage 0 first.
+export interface TrainingRun {
+  id: number; // tags the run's episodes, so late ones from an earlier run can be told apart
+  seed: number;
+  policy: Policy;
+  level: Level;
+  curriculum: CurriculumConfig | null;
+  hyperparameters: Hyperparameters;
+  exploration: Exploration; // fixed for the run, since it shapes the network
+  resume: TrainerState | null; // continue from a checkpoint instead of fresh networks
+}
+
+export interface TrainingSettings {
+  speed: number; // sim seconds per second while training; Infinity runs flat out
+  paused: boolean; // freezes the scene, e.g. while editing or replaying
+  // Switching mid-run drops experience buffered under the old policy
+  policy: Policy;
+  hyperparameters: Hyperparameters;
+  learning: boolean; // off: the policy acts but isn't updated
+}
+
+export type TrainerRequest =
+  | { type: 'arm'; arm: ArmModel }
+  | { type: 'level'; level: Level }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'start'; run: TrainingRun }
+  | { type: 'stop' }
+  | { type: 'set'; settings: Partial<TrainingSettings> }
+  | { type: 'snapshot'; id: number }
+  | { type: 'recording'; id: number; policy: Policy; episode: number };
+
+export interface EpisodeSummary {
+  policy: Policy;
+  episode: number; // 1-based, counted per policy from the start of the run
+  result: EpisodeResult;
+  stage: number | null; // curriculum stage it was played at
+  stageChange?: StageChange; // set on the episode whose result moved the curriculum
+  steps: number; // environment steps the policy acted on
+  totalReward: number;
+}
+
+export interface TrainingMetrics {
+  stepsPerSecond: number;
+  realtime: number; // multiple of real time actually reached
+  updates: number; // trainer updates this run
+  entropy: number | null; // of the policy being trained, nats per step
+}
+
+export type TrainerEvent =
+  // At most one per display frame; `live` is the episode being played
+  | { type: 'frame'; state: PhysicsState; live: { episode: number; reward: number } | null; metrics: TrainingMetrics }
+  // Episodes finished since the last batch, oldest first
+  | { type: 'episodes'; run: number; episodes: EpisodeSummary[]; stage: { stage: number; progress: number } | null }
+  // The run couldn't start, e.g. its checkpoint doesn't fit the trainer
+  | { type: 'error'; run: number; message: string }
+  | { type: 'snapshot'; id: number; snapshot: TrainerState | null }
+  | { type: 'recording'; id: number; recording: EpisodeRecording | null };
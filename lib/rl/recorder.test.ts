@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '../random';
+import { PhysicsState, TRAINING_CONFIG, createArmSim } from '../sim/physics';
+import { createEpisodeRecorder } from './recorder';
+import { computeStepReward, terminalReward } from './trainer';
+
+// Consecutive sim states, each a distinct frame
+const simStates = (count: number): PhysicsState[] => {
+  const sim = createArmSim(TRAINING_CONFIG, createRng(5).next);
+  sim.resize(800, 600);
+  return Array.from({ length: count }, () => sim.step(1 / 60, { kind: 'rest' }).state);
+};
+
+const ACTION = { dx: 0.5, dy: -0.25 };
+
+describe('createEpisodeRecorder', () => {
+  it('records every step with its action and shaped reward', () => {
+    const states = simStates(4);
+    const recorder = createEpisodeRecorder(3);
+    states.forEach(state => recorder.record(state, ACTION));
+    const shaped = states.reduce((sum, state) => sum + computeStepReward(state), 0);
+    expect(recorder.inProgress()).toEqual({ episode: 1, reward: shaped });
+
+    const recording = recorder.finish('goal', 2);
+    expect(recording).toMatchObject({ episode: 1, result: 'goal', stage: 2 });
+    expect(recording.steps).toEqual(states.map(state => ({ state, action: ACTION, reward: computeStepReward(state) })));
+    expect(recording.totalReward).toBeCloseTo(shaped + terminalReward('goal'));
+    expect(recorder.inProgress()).toEqual({ episode: 2, reward: 0 });
+  });
+
+  it('keeps the last `capacity` episodes', () => {
+    const [state] = simStates(1);
+    const recorder = createEpisodeRecorder(3);
+    for (let episode = 1; episode <= 5; episode++) {
+      for (let step = 0; step < episode; step++) recorder.record(state, ACTION);
+      recorder.finish(episode % 2 ? 'miss' : 'timeout', null);
+    }
+
+    expect([1, 2].map(episode => recorder.get(episode))).toEqual([undefined, undefined]);
+    expect([3, 4, 5].map(episode => recorder.get(episode)?.steps.length)).toEqual([3, 4, 5]);
+    expect(recorder.get(4)).toMatchObject({ episode: 4, result: 'timeout', stage: null });
+  });
+
+  it('starts counting again after a clear', () => {
+    const [state] = simStates(1);
+    const recorder = createEpisodeRecorder(2);
+    recorder.record(state, ACTION);
+    recorder.finish('miss', null);
+    recorder.record(state, ACTION);
+    recorder.clear();
+
+    expect(recorder.get(1)).toBeUndefined();
+    expect(recorder.inProgress()).toEqual({ episode: 1, reward: 0 });
+    expect(recorder.finish('timeout', null)).toMatchObject({ episode: 1, steps: [], totalReward: terminalReward('timeout') });
+  });
+});
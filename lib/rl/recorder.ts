@@ -0,0 +1,56 @@
+import { PhysicsState } from '../sim/physics';
+import { EpisodeResult, computeStepReward, terminalReward } from './trainer';
+
+// Keeps the last `capacity` episodes step by step, so a finished episode can
+// be replayed and inspected. Each step is the state the policy saw, the
+// action it took and the shaped reward for that state.
+
+export interface RecordedStep {
+  state: PhysicsState;
+  action: { dx: number; dy: number };
+  reward: number;
+}
+
+export interface EpisodeRecording {
+  episode: number; // 1-based, counted from the start of the run
+  result: EpisodeResult;
+  stage: number | null; // curriculum stage, if any
+  steps: RecordedStep[];
+  totalReward: number; // shaped step rewards plus the terminal reward
+}
+
+export const createEpisodeRecorder = (capacity: number) => {
+  let current: RecordedStep[] = [];
+  let episodes: EpisodeRecording[] = [];
+  let count = 0;
+
+  const record = (state: PhysicsState, action: { dx: number; dy: number }) => {
+    current.push({ state, action, reward: computeStepReward(state) });
+  };
+
+  const finish = (result: EpisodeResult, stage: number | null): EpisodeRecording => {
+    count += 1;
+    const totalReward = current.reduce((sum, step) => sum + step.reward, 0) + terminalReward(result);
+    const recording = { episode: count, result, stage, steps: current, totalReward };
+    episodes = [...episodes, recording].slice(-capacity);
+    current = [];
+    return recording;
+  };
+
+  const clear = () => {
+    current = [];
+    episodes = [];
+    count = 0;
+  };
+
+  return {
+    record,
+    finish,
+    clear,
+    get: (episode: number) => episodes.find(recording => recording.episode === episode),
+    // The episode being played and its shaped return so far
+    inProgress: () => ({ episode: count + 1, reward: current.reduce((sum, step) => sum + step.reward, 0) }),
+  };
+};
+
+export type EpisodeRecorder = ReturnType<typeof createEpisodeRecorder>;
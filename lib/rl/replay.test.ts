@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Rng } from '../random';
+import { Transition, createReplayBuffer } from './replay';
+
+const transition = (id: number): Transition => ({
+  state: [id, id + 0.5],
+  action: [0.25, -0.25],
+  reward: id,
+  nextState: [id + 1, id + 1.5],
+  done: id % 2 === 0,
+});
+
+// Draws every slot in order, so a sample of `size` reads the whole buffer
+const sequentialRng = (size: number): Rng => {
+  let i = 0;
+  return { seed: 0, next: () => (i++ % size) / size, normal: () => 0 };
+};
+
+const contents = (buffer: ReturnType<typeof createReplayBuffer>) =>
+  buffer.sample(sequentialRng(buffer.size()), buffer.size()).map(t => t.reward);
+
+describe('createReplayBuffer', () => {
+  it('stores transitions as they were added', () => {
+    const buffer = createReplayBuffer(4, 2);
+    buffer.add(transition(1));
+    buffer.add(transition(2));
+    expect(buffer.size()).toBe(2);
+    expect(buffer.sample(sequentialRng(2), 2)).toEqual([transition(1), transition(2)]);
+  });
+
+  it('overwrites the oldest transitions once full', () => {
+    const buffer = createReplayBuffer(3, 2);
+    for (let id = 1; id <= 5; id++) buffer.add(transition(id));
+    expect(buffer.size()).toBe(3);
+    // Slots 0 and 1 have wrapped around to hold 4 and 5
+    expect(contents(buffer)).toEqual([4, 5, 3]);
+    expect(buffer.sample(sequentialRng(3), 3)[0]).toEqual(transition(4));
+  });
+
+  it('samples only filled slots', () => {
+    const buffer = createReplayBuffer(100, 2);
+    buffer.add(transition(7));
+    const almostOne: Rng = { seed: 0, next: () => 0.999, normal: () => 0 };
+    expect(buffer.sample(almostOne, 3).map(t => t.reward)).toEqual([7, 7, 7]);
+  });
+
+  it('starts over after clear', () => {
+    const buffer = createReplayBuffer(3, 2);
+    for (let id = 1; id <= 4; id++) buffer.add(transition(id));
+    buffer.clear();
+    expect(buffer.size()).toBe(0);
+    buffer.add(transition(9));
+    expect(contents(buffer)).toEqual([9]);
+  });
+});
@@ -0,0 +1,58 @@
+import { Rng } from '../random';
+
+// Ring buffer of transitions for the off-policy trainers. States live in flat
+// Float32Arrays, so a full buffer is a few fixed allocations rather than
+// tens of thousands of small arrays. Once full, the oldest transition goes.
+
+export interface Transition {
+  state: number[];
+  action: [number, number]; // squashed, in [-1, 1]
+  reward: number;
+  nextState: number[];
+  done: boolean; // the episode ended here, so nextState has no value
+}
+
+export const createReplayBuffer = (capacity: number, stateSize: number) => {
+  const states = new Float32Array(capacity * stateSize);
+  const nextStates = new Float32Array(capacity * stateSize);
+  const actions = new Float32Array(capacity * 2);
+  const rewards = new Float32Array(capacity);
+  const dones = new Uint8Array(capacity);
+  let next = 0;
+  let size = 0;
+
+  const add = ({ state, action, reward, nextState, done }: Transition) => {
+    states.set(state, next * stateSize);
+    nextStates.set(nextState, next * stateSize);
+    actions[next * 2] = action[0];
+    actions[next * 2 + 1] = action[1];
+    rewards[next] = reward;
+    dones[next] = done ? 1 : 0;
+    next = (next + 1) % capacity;
+    size = Math.min(size + 1, capacity);
+  };
+
+  const get = (i: number): Transition => ({
+    state: Array.from(states.subarray(i * stateSize, (i + 1) * stateSize)),
+    action: [actions[i * 2], actions[i * 2 + 1]],
+    reward: rewards[i],
+    nextState: Array.from(nextStates.subarray(i * stateSize, (i + 1) * stateSize)),
+    done: dones[i] === 1,
+  });
+
+  // Uniform, with replacement
+  const sample = (rng: Rng, count: number) =>
+    Array.from({ length: count }, () => get(Math.floor(rng.next() * size)));
+
+  return {
+    add,
+    sample,
+    size: () => size,
+    clear: () => {
+      next = 0;
+      size = 0;
+    },
+  };
+};
+
+export type ReplayBuffer = ReturnType<typeof createReplayBuffer>;
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '../random';
+import { HIDDEN2, Weights, backward, createGradients, createWeights, forward } from './network';
+import {
+  INITIAL_LOG_STD,
+  clippedSurrogateWeight,
+  clippedValueGradient,
+  gae,
+  logSquashJacobian,
+  squashedEntropy,
+  squashedGradient,
+  squashedLogProb,
+  terminalReward,
+} from './trainer';
+
+// Hand-computed for rewards [1, 0, 2], values [0.5, 1, 1.5], γ = 0.9, λ = 0.8:
+//   δ2 = 2 + 0.9·0 − 1.5 = 0.5          A2 = 0.5
+//   δ1 = 0 + 0.9·1.5 − 1 = 0.35         A1 = 0.35 + 0.72·0.5 = 0.71
+//   δ0 = 1 + 0.9·1 − 0.5 = 1.4          A0 = 1.4 + 0.72·0.71 = 1.9112
+const STEPS = [
+  { reward: 1, value: 0.5 },
+  { reward: 0, value: 1 },
+  { reward: 2, value: 1.5 },
+];
+
+describe('gae', () => {
+  it('follows the recurrence on a terminal episode', () => {
+    const advantages = gae(STEPS, 0.9, 0.8);
+    [1.9112, 0.71, 0.5].forEach((expected, i) => expect(advantages[i]).toBeCloseTo(expected, 10));
+  });
+
+  it('bootstraps a truncated episode from the value after its last step', () => {
+    // V(s′) = 2 adds γ·2 = 1.8 to δ2, and (γλ)^k·1.8 to earlier advantages
+    const advantages = gae(STEPS, 0.9, 0.8, 2);
+    [1.9112 + 0.72 ** 2 * 1.8, 0.71 + 0.72 * 1.8, 0.5 + 1.8].forEach((expected, i) =>
+      expect(advantages[i]).toBeCloseTo(expected, 10)
+    );
+  });
+
+  it('reduces to one-step TD errors with λ = 0 and Monte Carlo returns with λ = 1', () => {
+    expect(gae(STEPS, 0.9, 0)).toEqual(STEPS.map((step, i) => step.reward + 0.9 * (STEPS[i + 1]?.value ?? 0) - step.value));
+    const returns = [1 + 0.9 * (0 + 0.9 * 2), 0.9 * 2, 2];
+    gae(STEPS, 0.9, 1).forEach((advantage, i) => expect(advantage + STEPS[i].value).toBeCloseTo(returns[i], 10));
+  });
+});
+
+describe('clippedSurrogateWeight', () => {
+  it('keeps the gradient while the ratio is inside the clip range', () => {
+    expect(clippedSurrogateWeight(1.1, 2, 0.2)).toBeCloseTo(2.2);
+    expect(clippedSurrogateWeight(0.9, -2, 0.2)).toBeCloseTo(-1.8);
+  });
+
+  it('drops it once the ratio has moved past the range in the advantage\'s favour', () => {
+    expect(clippedSurrogateWeight(1.3, 2, 0.2)).toBe(0);
+    expect(clippedSurrogateWeight(0.7, -2, 0.2)).toBe(0);
+  });
+
+  it('keeps it when the ratio moved against the advantage, however far', () => {
+    expect(clippedSurrogateWeight(0.5, 2, 0.2)).toBeCloseTo(1);
+    expect(clippedSurrogateWeight(1.5, -2, 0.2)).toBeCloseTo(-3);
+  });
+});
+
+describe('clippedValueGradient', () => {
+  it('is the plain squared-error gradient within the clip range', () => {
+    expect(clippedValueGradient(1.1, 1, 2, 0.2)).toBeCloseTo(-0.9);
+  });
+
+  it('stops moving a value that left the clip range toward the target', () => {
+    // V_clip = 1.2 is further from R = 2 than V = 1.5, so the clipped term wins
+    expect(clippedValueGradient(1.5, 1, 2, 0.2)).toBe(0);
+  });
+
+  it('keeps the unclipped gradient when that loss is the larger one', () => {
+    expect(clippedValueGradient(0.5, 1, 2, 0.2)).toBeCloseTo(-1.5);
+  });
+});
+
+describe('terminalReward', () => {
+  it('rewards goals, penalises misses and leaves timeouts alone', () => {
+    expect(terminalReward('goal')).toBeGreaterThan(0);
+    expect(terminalReward('miss')).toBeLessThan(0);
+    expect(terminalReward('timeout')).toBe(0);
+  });
+});
+
+// ── Squashed Gaussian ─────────────────────────────────────────────────────
+const MEAN = [0.3, -0.6];
+const LOG_STD = [Math.log(0.5), Math.log(0.8)];
+
+// Midpoint rule over the squashed action square (−1, 1)²
+const GRID = 400;
+const overSquare = (f: (a: [number, number]) => number) => {
+  const h = 2 / GRID;
+  let sum = 0;
+  for (let i = 0; i < GRID; i++) {
+    for (let j = 0; j < GRID; j++) sum += f([-1 + (i + 0.5) * h, -1 + (j + 0.5) * h]) * h * h;
+  }
+  return sum;
+};
+
+// Density of the squashed action a = tanh(u), from the log-prob of its u
+const density = (a: [number, number]) => Math.exp(squashedLogProb([Math.atanh(a[0]), Math.atanh(a[1])], MEAN, LOG_STD));
+
+describe('logSquashJacobian', () => {
+  it('is log(1 − tanh²u) and stays finite far out', () => {
+    for (const u of [-3, -0.5, 0, 0.7, 2]) expect(logSquashJacobian(u)).toBeCloseTo(Math.log(1 - Math.tanh(u) ** 2), 10);
+    expect(logSquashJacobian(50)).toBeCloseTo(2 * (Math.LN2 - 50), 10);
+    expect(logSquashJacobian(-50)).toBeCloseTo(2 * (Math.LN2 - 50), 10);
+  });
+});
+
+describe('squashedLogProb', () => {
+  it('matches the Gaussian density divided by a numeric da/du', () => {
+    const u: [number, number] = [0.9, -1.4];
+    const gaussian = (x: number, d: number) =>
+      Math.exp(-0.5 * ((x - MEAN[d]) / Math.exp(LOG_STD[d])) ** 2) / (Math.exp(LOG_STD[d]) * Math.sqrt(2 * Math.PI));
+    const h = 1e-6;
+    const slope = (x: number) => (Math.tanh(x + h) - Math.tanh(x - h)) / (2 * h);
+    const expected = (gaussian(u[0], 0) / slope(u[0])) * (gaussian(u[1], 1) / slope(u[1]));
+    expect(squashedLogProb(u, MEAN, LOG_STD)).toBeCloseTo(Math.log(expected), 6);
+  });
+
+  it('is a density over the squashed actions', () => {
+    expect(overSquare(density)).toBeCloseTo(1, 3);
+  });
+});
+
+describe('squashedEntropy', () => {
+  it('averages to the entropy of the squashed distribution', () => {
+    const exact = overSquare(a => {
+      const p = density(a);
+      return p > 0 ? -p * Math.log(p) : 0;
+    });
+    const rng = createRng(5);
+    const samples = 20_000;
+    let sum = 0;
+    for (let i = 0; i < samples; i++) {
+      const u: [number, number] = [MEAN[0] + rng.normal() * Math.exp(LOG_STD[0]), MEAN[1] + rng.normal() * Math.exp(LOG_STD[1])];
+      sum += squashedEntropy(u, LOG_STD);
+    }
+    expect(sum / samples).toBeCloseTo(exact, 1);
+  });
+});
+
+// The quantity the policy update ascends for one sample: weight·log π of the
+// sample taken, plus the entropy of the sample reparameterised by ε
+const objective = (action: [number, number], epsilon: number[], weight: number, entropyCoef: number) =>
+  (mean: number[], logStd: number[]) => {
+    const u: [number, number] = [mean[0] + Math.exp(logStd[0]) * epsilon[0], mean[1] + Math.exp(logStd[1]) * epsilon[1]];
+    return weight * squashedLogProb(action, mean, logStd) + entropyCoef * squashedEntropy(u, logStd);
+  };
+
+describe('squashedGradient', () => {
+  const action: [number, number] = [0.9, -1.4];
+  const epsilon = action.map((u, d) => (u - MEAN[d]) / Math.exp(LOG_STD[d]));
+  const f = objective(action, epsilon, 1.7, 0.05);
+  const h = 1e-5;
+
+  it('matches finite differences in the means and log-stds', () => {
+    const { dMean, dLogStd } = squashedGradient(action, MEAN, LOG_STD, 1.7, 0.05);
+    for (let d = 0; d < 2; d++) {
+      const shift = (values: number[], by: number) => values.map((v, i) => (i === d ? v + by : v));
+      expect(dMean[d]).toBeCloseTo((f(shift(MEAN, h), LOG_STD) - f(shift(MEAN, -h), LOG_STD)) / (2 * h), 5);
+      expect(dLogStd[d]).toBeCloseTo((f(MEAN, shift(LOG_STD, h)) - f(MEAN, shift(LOG_STD, -h))) / (2 * h), 5);
+    }
+  });
+
+  it('reaches the weights of a per-state log-std through the network', () => {
+    const state = [0.2, -0.4, 0.9, 0.1, -0.3];
+    const weights = createWeights(createRng(11), state.length, 4);
+    // As the trainer starts them: log-std outputs state-independent at the default
+    weights.w3.fill(0, 2 * HIDDEN2);
+    weights.b3.fill(INITIAL_LOG_STD, 2);
+    const { h1, h2, output } = forward(weights, state);
+    const sample: [number, number] = [output[0] + 0.4, output[1] - 0.7];
+    const eps = sample.map((u, d) => (u - output[d]) / Math.exp(output[2 + d]));
+    const g = objective(sample, eps, -0.8, 0.05);
+    const value = (w: Weights) => {
+      const out = forward(w, state).output;
+      return g([out[0], out[1]], [out[2], out[3]]);
+    };
+
+    const { dMean, dLogStd } = squashedGradient(sample, [output[0], output[1]], [output[2], output[3]], -0.8, 0.05);
+    const grads = createGradients(weights);
+    backward(weights, grads, state, h1, h2, [...dMean, ...dLogStd]);
+
+    const probes = [
+      ['b3', 2],
+      ['b3', 3],
+      ['w3', 2 * HIDDEN2 + 5],
+      ['w3', 3 * HIDDEN2 + 17],
+      ['w1', 3],
+      ['b2', 8],
+    ] as const;
+    for (const [key, index] of probes) {
+      const step = 1e-3;
+      const nudged = (by: number) => {
+        const copy = structuredClone(weights);
+        copy[key][index] += by;
+        return value(copy);
+      };
+      expect(grads[key][index]).toBeCloseTo((nudged(step) - nudged(-step)) / (2 * step), 3);
+    }
+  });
+});
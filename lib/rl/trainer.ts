@@ -0,0 +1,526 @@
+import { Rng } from '../random';
+import { PhysicsState } from '../sim/physics';
+import {
+  AdamState,
+  HIDDEN2,
+  VectorAdam,
+  Weights,
+  adamStep,
+  applyGradients,
+  backward,
+  createAdamState,
+  createGradients,
+  createVectorAdam,
+  createWeights,
+  forward,
+  loadAdamState,
+  loadVectorAdam,
+  loadWeights,
+} from './network';
+
+// On-policy (this file): REINFORCE on raw returns, REINFORCE against a
+// running-mean baseline, and PPO with a learned critic. Off-policy, learning
+// from a replay buffer (offPolicy.ts): DDPG, TD3 and SAC.
+export type Policy = 'reinforce' | 'pg' | 'ppo' | 'ddpg' | 'td3' | 'sac';
+export const POLICIES: Policy[] = ['reinforce', 'pg', 'ppo', 'ddpg', 'td3', 'sac'];
+export const OFF_POLICIES: Policy[] = ['ddpg', 'td3', 'sac'];
+export const isOffPolicy = (policy: Policy) => OFF_POLICIES.includes(policy);
+// Where the exploration std comes from: one learned log-std per action
+// dimension ('global'), or two more policy outputs next to the mean ('state')
+export type Exploration = 'global' | 'state';
+export const EXPLORATIONS: Exploration[] = ['global', 'state'];
+export type EpisodeResult = 'goal' | 'miss' | 'timeout';
+
+// Everything an on-policy trainer learned, for checkpoints. Optimiser state
+// and the critic are optional: shared links carry only what acting needs.
+export interface PolicySnapshot {
+  kind: 'on-policy';
+  policy: Policy;
+  exploration: Exploration;
+  weights: Weights;
+  logStd: number[];
+  adam?: AdamState;
+  logStdAdam?: VectorAdam;
+  critic?: Weights;
+  criticAdam?: AdamState;
+  baseline?: number;
+}
+
+export type StepRecord = {
+  state: number[];
+  action: [number, number]; // pre-squash sample u; the arm moves by ACTION_SCALE·tanh(u)
+  logProb: number; // of the squashed action
+  reward: number;
+  value: number;
+};
+
+export interface Hyperparameters {
+  learningRate: number;
+  gamma: number; // discount
+  batchSize: number; // episodes per update; transitions per update off-policy
+  epochs: number; // passes over each batch
+  entropyCoef: number; // weight of the entropy bonus (SAC's temperature α)
+  valueLearningRate: number; // PPO's critic and the Q-networks
+  // PPO only
+  clip: number; // ratio clip
+  lambda: number; // GAE λ: 0 is one-step TD, 1 is Monte Carlo
+  valueClip: number; // largest change in a state's value per update
+  // Off-policy only
+  bufferSize: number; // transitions kept for replay
+  warmupSteps: number; // random actions before the first update
+  tau: number; // target networks move this share toward the online ones per update
+  actionNoise: number; // DDPG/TD3 exploration noise std, in squashed action units
+  targetNoise: number; // TD3 target policy smoothing std
+  noiseClip: number; // TD3 bound on the smoothing noise
+  policyDelay: number; // TD3 critic updates per actor update
+}
+
+const REINFORCE_HYPERPARAMETERS: Hyperparameters = {
+  learningRate: 1e-3,
+  gamma: 0.99,
+  batchSize: 1,
+  epochs: 1,
+  entropyCoef: 0.01,
+  valueLearningRate: 1e-3,
+  clip: 0.2,
+  lambda: 0.95,
+  valueClip: 1,
+  bufferSize: 50_000,
+  warmupSteps: 1_000,
+  tau: 0.005,
+  actionNoise: 0.2,
+  targetNoise: 0.2,
+  noiseClip: 0.5,
+  policyDelay: 2,
+};
+
+const OFF_POLICY_HYPERPARAMETERS: Hyperparameters = { ...REINFORCE_HYPERPARAMETERS, batchSize: 32 };
+
+export const DEFAULT_HYPERPARAMETERS: Record<Policy, Hyperparameters> = {
+  reinforce: REINFORCE_HYPERPARAMETERS,
+  pg: REINFORCE_HYPERPARAMETERS,
+  ppo: { ...REINFORCE_HYPERPARAMETERS, learningRate: 3e-4, batchSize: 8, epochs: 4 },
+  ddpg: { ...OFF_POLICY_HYPERPARAMETERS, policyDelay: 1 },
+  td3: OFF_POLICY_HYPERPARAMETERS,
+  sac: { ...OFF_POLICY_HYPERPARAMETERS, entropyCoef: 0.05, policyDelay: 1 },
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// ── State featurisation ────────────────────────────────────────────────────
+// Ball, goal and effector, the sine and cosine of every joint angle, then the
+// obstacles nearest the ball (zero-padded, so every level has the same width).
+const OBSERVED_OBSTACLES = 2;
+
+export const observationSize = (jointCount: number) => 8 + jointCount * 2 + OBSERVED_OBSTACLES * 3;
+
+const obstacleFeatures = (frame: PhysicsState): number[] => {
+  const { width, height } = frame.viewport;
+  const { ball } = frame;
+  const nearby = frame.obstacles
+    .map(o =>
+      o.kind === 'bumper'
+        ? { x: o.x, y: o.y, size: o.radius }
+        : { x: o.x + o.width / 2, y: o.y + o.height / 2, size: Math.max(o.width, o.height) / 2 }
+    )
+    .sort((a, b) => Math.hypot(a.x - ball.x, a.y - ball.y) - Math.hypot(b.x - ball.x, b.y - ball.y))
+    .slice(0, OBSERVED_OBSTACLES);
+  const features = nearby.flatMap(o => [(o.x - ball.x) / width, (o.y - ball.y) / height, o.size / width]);
+  while (features.length < OBSERVED_OBSTACLES * 3) features.push(0);
+  return features;
+};
+
+export const buildState = (frame: PhysicsState): number[] => {
+  const { width, height } = frame.viewport;
+  const gcx = frame.goal.x + frame.goal.width / 2;
+  const gcy = frame.goal.y + frame.goal.height / 2;
+  const joints = frame.arm.angles.flatMap(a => [Math.sin(a), Math.cos(a)]);
+  return [
+    (frame.ball.x - width / 2) / width,
+    (frame.ball.y - height / 2) / height,
+    frame.ball.vx / 20,
+    frame.ball.vy / 20,
+    (gcx - width / 2) / width,
+    (gcy - height / 2) / height,
+    (frame.effector.x - width / 2) / width,
+    (frame.effector.y - height / 2) / height,
+    ...joints,
+    ...obstacleFeatures(frame),
+  ];
+};
+
+// ── Dense shaping reward ──────────────────────────────────────────────────
+export const computeStepReward = (frame: PhysicsState): number => {
+  const { width, height } = frame.viewport;
+  const dx = frame.ball.x - frame.effector.x;
+  const dy = frame.ball.y - frame.effector.y;
+  const gcx = frame.goal.x + frame.goal.width / 2;
+  const gcy = frame.goal.y + frame.goal.height / 2;
+  const distToBall = Math.sqrt(dx * dx + dy * dy);
+  const distToGoal = Math.sqrt((frame.ball.x - gcx) ** 2 + (frame.ball.y - gcy) ** 2);
+
+  // Strong reward for arm approaching ball (primary learning signal)
+  const proxBall = (-distToBall / width) * 1.0;
+
+  // Reward ball being high (closer to goal = better)
+  const heightBonus = (1 - frame.ball.y / height) * 0.3;
+
+  // Reward ball proximity to goal
+  const proxGoal = (-distToGoal / width) * 0.4;
+
+  // Velocity toward goal
+  const vToGoalX = gcx - frame.ball.x;
+  const vToGoalY = gcy - frame.ball.y;
+  const goalDist = Math.sqrt(vToGoalX * vToGoalX + vToGoalY * vToGoalY) + 1e-6;
+  const velTowardGoal = (frame.ball.vx * vToGoalX + frame.ball.vy * vToGoalY) / goalDist;
+  const velReward = clamp(velTowardGoal / 15, -0.15, 0.15);
+
+  return proxBall + heightBonus + proxGoal + velReward;
+};
+
+// Terminal reward: strong goal bonus, mild miss penalty (misses are inevitable
+// early). A timeout only cuts the episode short, so it earns nothing.
+export const terminalReward = (result: EpisodeResult) => (result === 'goal' ? 5 : result === 'miss' ? -0.5 : 0);
+
+// ── Squashed Gaussian ─────────────────────────────────────────────────────
+// The policy samples u ~ N(mean, σ) per action dimension and the arm moves by
+// ACTION_SCALE·tanh(u). Log-probabilities and entropies are for the squashed
+// action tanh(u), so they carry the tanh Jacobian, Σ log(1 − tanh²u).
+export const ACTION_SCALE = 15; // px per frame at full deflection
+const LOG_2PI = Math.log(2 * Math.PI);
+export const INITIAL_LOG_STD = Math.log(0.5);
+export const LOG_STD_RANGE: [number, number] = [Math.log(0.05), Math.log(2)];
+export const ENTROPY_SMOOTHING = 0.01; // per step, for the live estimate
+
+const softplus = (x: number) => (x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x)));
+
+// log(1 − tanh²u), in a form that stays finite for large |u|
+export const logSquashJacobian = (u: number) => 2 * (Math.LN2 - u - softplus(-2 * u));
+
+export const squashedLogProb = (action: [number, number], mean: number[], logStd: number[]) => {
+  let logP = 0;
+  for (let d = 0; d < 2; d++) {
+    const z = (action[d] - mean[d]) / Math.exp(logStd[d]);
+    logP += -0.5 * z * z - logStd[d] - 0.5 * LOG_2PI - logSquashJacobian(action[d]);
+  }
+  return logP;
+};
+
+// Entropy of the squashed action at one sample: the Gaussian's, which is
+// exact, plus that sample's Jacobian term, whose mean is the correction
+export const squashedEntropy = (action: [number, number], logStd: number[]) => {
+  let entropy = 0;
+  for (let d = 0; d < 2; d++) entropy += 0.5 * (1 + LOG_2PI) + logStd[d] + logSquashJacobian(action[d]);
+  return entropy;
+};
+
+// Gradient of weight·log π(u) + entropyCoef·Ĥ(u) for one sample, with respect
+// to each dimension's mean and log-std. log π holds the sample fixed; the
+// entropy is taken through it, u = mean + σ·ε, so its Jacobian term also
+// pulls means back from tanh saturation.
+export const squashedGradient = (
+  action: [number, number],
+  mean: number[],
+  logStd: number[],
+  weight: number,
+  entropyCoef: number
+) => {
+  const dMean = [0, 0];
+  const dLogStd = [0, 0];
+  for (let d = 0; d < 2; d++) {
+    const std = Math.exp(logStd[d]);
+    const noise = action[d] - mean[d];
+    const z = noise / std;
+    // ∂(log(1 − tanh²u))/∂u; u moves one-for-one with the mean and by
+    // σ·ε = u − mean with log σ
+    const dJacobian = -2 * Math.tanh(action[d]);
+    dMean[d] = (weight * z) / std + entropyCoef * dJacobian;
+    dLogStd[d] = weight * (z * z - 1) + entropyCoef * (1 + dJacobian * noise);
+  }
+  return { dMean, dLogStd };
+};
+
+// ── Returns and advantages ────────────────────────────────────────────────
+const discountedReturns = (steps: StepRecord[], gamma: number) => {
+  const returns: number[] = new Array(steps.length);
+  let G = 0;
+  for (let i = steps.length - 1; i >= 0; i--) {
+    G = steps[i].reward + gamma * G;
+    returns[i] = G;
+  }
+  return returns;
+};
+
+// Generalized Advantage Estimation over one episode, from the values the
+// critic gave each state when the step was taken. After a goal or a miss
+// there is no value past the last step; a timeout passes the value of the
+// state it stopped in as `bootstrap`.
+export const gae = (steps: Pick<StepRecord, 'reward' | 'value'>[], gamma: number, lambda: number, bootstrap = 0) => {
+  const advantages: number[] = new Array(steps.length);
+  let nextValue = bootstrap;
+  let running = 0;
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const delta = steps[i].reward + gamma * nextValue - steps[i].value;
+    running = delta + gamma * lambda * running;
+    advantages[i] = running;
+    nextValue = steps[i].value;
+  }
+  return advantages;
+};
+
+// ── PPO objectives ────────────────────────────────────────────────────────
+// Weight of a step's log-prob gradient under the clipped surrogate
+// min(r·A, clip(r, 1 ± ε)·A): r·A while the unclipped term is the smaller
+// one, and 0 once clipping takes over, since that term is constant in θ.
+export const clippedSurrogateWeight = (ratio: number, advantage: number, clip: number) => {
+  const clipped = clamp(ratio, 1 - clip, 1 + clip);
+  const useUnclipped = advantage >= 0 ? ratio <= clipped : ratio >= clipped;
+  return useUnclipped ? ratio * advantage : 0;
+};
+
+// ∂/∂V of the clipped value loss ½·max((V − R)², (V_clip − R)²), with
+// V_clip = V_old + clip(V − V_old, ±valueClip).
+export const clippedValueGradient = (value: number, old: number, target: number, valueClip: number) => {
+  const clipped = old + clamp(value - old, -valueClip, valueClip);
+  if ((value - target) ** 2 >= (clipped - target) ** 2) return value - target;
+  return Math.abs(value - old) < valueClip ? clipped - target : 0;
+};
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+
+// Unit variance; `center` also removes the mean
+const normalise = (values: number[], center: boolean) => {
+  const mu = center ? average(values) : 0;
+  const sigma = Math.sqrt(average(values.map(v => (v - mu) ** 2))) + 1e-8;
+  return values.map(v => (v - mu) / sigma);
+};
+
+// Policy-gradient trainer for the arm. Every random draw (weight init and
+// exploration noise) comes from `rng`, so a seed fixes the whole run.
+export const createTrainer = (
+  rng: Rng,
+  initialPolicy: Policy,
+  jointCount: number,
+  initialHyperparameters: Hyperparameters = DEFAULT_HYPERPARAMETERS[initialPolicy],
+  exploration: Exploration = 'global'
+) => {
+  const inputSize = observationSize(jointCount);
+  const outputSize = exploration === 'state' ? 4 : 2;
+  const weights = createWeights(rng, inputSize, outputSize);
+  const adam = createAdamState(inputSize, outputSize);
+  if (exploration === 'state') {
+    // The log-std outputs start state-independent, at the global default
+    weights.w3.fill(0, 2 * HIDDEN2);
+    weights.b3.fill(INITIAL_LOG_STD, 2);
+  }
+  // PPO's critic: the same body with one output, the state's value
+  const critic = createWeights(rng, inputSize, 1);
+  const criticAdam = createAdamState(inputSize, 1);
+  // Global exploration: one log-std per action dimension, learned with Adam
+  const logStd = [INITIAL_LOG_STD, INITIAL_LOG_STD];
+  const logStdAdam = createVectorAdam(2);
+  let policy = initialPolicy;
+  let hyper = initialHyperparameters;
+  let baseline = 0;
+  let entropy: number | null = null;
+  let updates = 0;
+  let learning = true;
+  let trajectory: StepRecord[] = [];
+  let batch: { steps: StepRecord[]; bootstrap: number }[] = [];
+
+  // Mean and log-std for a state. Per-state log-stds are clamped to
+  // LOG_STD_RANGE, with no gradient past the bounds.
+  const distribution = (state: number[]) => {
+    const { h1, h2, output } = forward(weights, state);
+    const stateLogStd =
+      exploration === 'state'
+        ? [clamp(output[2], LOG_STD_RANGE[0], LOG_STD_RANGE[1]), clamp(output[3], LOG_STD_RANGE[0], LOG_STD_RANGE[1])]
+        : logStd;
+    return { h1, h2, output, mean: [output[0], output[1]], logStd: stateLogStd };
+  };
+
+  // Samples an action for the current frame and records the transition.
+  const act = (frame: PhysicsState) => {
+    const rlState = buildState(frame);
+    const { mean, logStd: sampleLogStd } = distribution(rlState);
+    const action: [number, number] = [
+      mean[0] + rng.normal() * Math.exp(sampleLogStd[0]),
+      mean[1] + rng.normal() * Math.exp(sampleLogStd[1]),
+    ];
+    const stepEntropy = squashedEntropy(action, sampleLogStd);
+    entropy = entropy === null ? stepEntropy : entropy + (stepEntropy - entropy) * ENTROPY_SMOOTHING;
+    trajectory.push({
+      state: rlState,
+      action,
+      logProb: squashedLogProb(action, mean, sampleLogStd),
+      reward: computeStepReward(frame),
+      value: policy === 'ppo' ? forward(critic, rlState).output[0] : 0,
+    });
+    return { dx: Math.tanh(action[0]) * ACTION_SCALE, dy: Math.tanh(action[1]) * ACTION_SCALE };
+  };
+
+  // ── Critic update (PPO) ─────────────────────────────────────────────────
+  // Regresses values on the λ-returns with the clipped value loss
+  const updateCritic = (steps: StepRecord[], targets: number[]) => {
+    const { valueClip, valueLearningRate, epochs } = hyper;
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      const grads = createGradients(critic);
+      for (let i = 0; i < steps.length; i++) {
+        const { h1, h2, output } = forward(critic, steps[i].state);
+        const dLoss = clippedValueGradient(output[0], steps[i].value, targets[i], valueClip);
+        backward(critic, grads, steps[i].state, h1, h2, [-dLoss]);
+      }
+      applyGradients(critic, grads, criticAdam, valueLearningRate, 1 / Math.max(1, steps.length));
+    }
+  };
+
+  // ── Main training update ──────────────────────────────────────────────────
+  // Returns true if the episode completed a batch and the policy was updated.
+  // `final` is the state a timed-out episode stopped in.
+  const finishEpisode = (result: EpisodeResult, final?: PhysicsState) => {
+    const traj = trajectory;
+    if (traj.length === 0) return false;
+
+    trajectory = [];
+    if (!learning) return false;
+
+    traj[traj.length - 1].reward += terminalReward(result);
+    const bootstrap = result === 'timeout' && final && policy === 'ppo' ? forward(critic, buildState(final)).output[0] : 0;
+    batch.push({ steps: traj, bootstrap });
+
+    // Wait for a full batch (PPO's mini-batch; REINFORCE defaults to one episode)
+    if (batch.length < hyper.batchSize) return false;
+
+    const trainBatch = batch;
+    const steps = trainBatch.flatMap(t => t.steps);
+    const { gamma, lambda } = hyper;
+
+    // ── Advantages ──────────────────────────────────────────────────────
+    // REINFORCE only rescales the returns; with a baseline, a running mean of
+    // them is subtracted first; PPO uses GAE on the critic's values.
+    const returns = trainBatch.flatMap(t => discountedReturns(t.steps, gamma));
+    baseline = 0.9 * baseline + 0.1 * average(returns);
+
+    let rawAdvs: number[];
+    if (policy === 'ppo') rawAdvs = trainBatch.flatMap(t => gae(t.steps, gamma, lambda, t.bootstrap));
+    else if (policy === 'pg') rawAdvs = returns.map(r => r - baseline);
+    else rawAdvs = returns;
+    const advs = normalise(rawAdvs, policy !== 'reinforce');
+
+    // ── Policy update ───────────────────────────────────────────────────
+    // Ascends A·log π plus entropyCoef times the squashed entropy
+    const { learningRate: lr, clip, epochs, entropyCoef } = hyper;
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      const grads = createGradients(weights);
+      const dLogStd = new Float32Array(2);
+
+      for (let i = 0; i < steps.length; i++) {
+        const adv = advs[i];
+        const { state, action, logProb: oldLogP } = steps[i];
+
+        const { h1, h2, mean, logStd: stepLogStd, output } = distribution(state);
+
+        let weight: number;
+        if (policy === 'ppo') {
+          const ratio = Math.exp(squashedLogProb(action, mean, stepLogStd) - oldLogP);
+          weight = clippedSurrogateWeight(ratio, adv, clip);
+        } else {
+          // REINFORCE: on-policy, no importance sampling
+          weight = adv;
+        }
+
+        const gradient = squashedGradient(action, mean, stepLogStd, weight, entropyCoef);
+        const dOutput = new Array<number>(outputSize).fill(0);
+        for (let d = 0; d < 2; d++) {
+          dOutput[d] = gradient.dMean[d];
+          const dLog = gradient.dLogStd[d];
+          if (exploration === 'global') dLogStd[d] += dLog;
+          else if (output[2 + d] > LOG_STD_RANGE[0] && output[2 + d] < LOG_STD_RANGE[1]) dOutput[2 + d] = dLog;
+        }
+        backward(weights, grads, state, h1, h2, dOutput);
+      }
+
+      // Average gradients by number of steps (critical fix)
+      const scale = 1 / Math.max(1, steps.length);
+      applyGradients(weights, grads, adam, lr, scale);
+
+      if (exploration === 'global') {
+        for (let d = 0; d < 2; d++) dLogStd[d] *= scale;
+        logStdAdam.t += 1;
+        adamStep(logStd, dLogStd, logStdAdam.m, logStdAdam.v, lr, logStdAdam.t);
+        for (let d = 0; d < 2; d++) logStd[d] = clamp(logStd[d], LOG_STD_RANGE[0], LOG_STD_RANGE[1]);
+      }
+    }
+
+    if (policy === 'ppo') updateCritic(steps, rawAdvs.map((adv, i) => adv + steps[i].value));
+
+    batch = [];
+    updates += 1;
+    return true;
+  };
+
+  // Switching mid-run drops buffered experience gathered under the old policy.
+  const setPolicy = (next: Policy, flush: boolean) => {
+    policy = next;
+    if (flush) {
+      trajectory = [];
+      batch = [];
+      baseline = 0;
+    }
+  };
+
+  // Takes effect from the next update; buffered episodes are kept.
+  const setHyperparameters = (next: Hyperparameters) => {
+    hyper = next;
+  };
+
+  // With learning off the policy still acts, but episodes are dropped
+  // instead of trained on.
+  const setLearning = (on: boolean) => {
+    learning = on;
+  };
+
+  // Copies of the learned parameters, safe to post to another thread. With
+  // per-state exploration the log-std lives in the policy weights.
+  const snapshot = (): PolicySnapshot =>
+    structuredClone({
+      kind: 'on-policy',
+      policy,
+      exploration,
+      weights,
+      logStd,
+      adam,
+      logStdAdam,
+      critic,
+      criticAdam,
+      baseline,
+    });
+
+  // Continues from a checkpoint; throws if its networks have another shape.
+  const restore = (saved: PolicySnapshot) => {
+    loadWeights(weights, saved.weights);
+    logStd.splice(0, logStd.length, ...saved.logStd);
+    if (saved.adam) loadAdamState(adam, saved.adam);
+    if (saved.logStdAdam) loadVectorAdam(logStdAdam, saved.logStdAdam);
+    if (saved.critic) loadWeights(critic, saved.critic);
+    if (saved.criticAdam) loadAdamState(criticAdam, saved.criticAdam);
+    baseline = saved.baseline ?? 0;
+  };
+
+  return {
+    act,
+    finishEpisode,
+    setPolicy,
+    setHyperparameters,
+    setLearning,
+    snapshot,
+    restore,
+    // Running estimate of the squashed policy's entropy per step, in nats;
+    // null before the first action
+    entropy: () => entropy,
+    updates: () => updates,
+  };
+};
+
+export type Trainer = ReturnType<typeof createTrainer>;
@@ -0,0 +1,241 @@
+import { FIXED_DT, PhysicsState, TRAINING_CONFIG, createArmSim } from '../sim/physics';
+import { createRng, deriveSeed } from '../random';
+import { Curriculum, createCurriculum, levelAtStage } from './curriculum';
+import { EpisodeRecorder, createEpisodeRecorder } from './recorder';
+import { DEFAULT_HYPERPARAMETERS, EpisodeResult, POLICIES, Policy, Trainer, createTrainer, isOffPolicy } from './trainer';
+import { OffPolicyTrainer, createOffPolicyTrainer } from './offPolicy';
+import {
+  EpisodeSummary,
+  RECORDED_EPISODES,
+  TrainerEvent,
+  TrainerRequest,
+  TrainerState,
+  TrainingMetrics,
+  TrainingRun,
+  TrainingSettings,
+} from './protocol';
+
+// Training worker: steps the environment and updates the policy off the main
+// thread, as many sim seconds per second as `speed` asks for, and posts a
+// frame for the canvas at display rate. See protocol.ts for the messages.
+
+const FRAME_INTERVAL = 1000 / 60; // ms between frames posted to the page
+const TICK_BUDGET = 20; // ms of stepping per tick, so requests still get through
+const IDLE_DELAY = 8; // ms to the next tick when stepping kept up
+const METRICS_WINDOW = 1000; // ms
+
+const post = (event: TrainerEvent) => self.postMessage(event);
+
+const sim = createArmSim(TRAINING_CONFIG);
+let arm = TRAINING_CONFIG.arm;
+let sized = false; // nothing steps before the page reports its viewport
+
+const settings: TrainingSettings = {
+  speed: 1,
+  paused: false,
+  policy: 'pg',
+  hyperparameters: DEFAULT_HYPERPARAMETERS.pg,
+  learning: true,
+};
+let running = false;
+let run: TrainingRun | null = null;
+let trainer: Trainer | OffPolicyTrainer | null = null;
+let curriculum: Curriculum | null = null;
+let finished: EpisodeSummary[] = [];
+const recorders = Object.fromEntries(
+  POLICIES.map(policy => [policy, createEpisodeRecorder(RECORDED_EPISODES)])
+) as Record<Policy, EpisodeRecorder>;
+
+// ── Episodes ────────────────────────────────────────────────────────────────
+// Records the episode and trains on it; returns the level for the next
+// episode when the curriculum changed stage.
+const finishEpisode = (result: EpisodeResult, final?: PhysicsState) => {
+  const recorder = recorders[settings.policy];
+  const playedAt = curriculum?.stage() ?? null;
+  const stageChange = curriculum?.record(result === 'goal') ?? null;
+  const recording = recorder.finish(result, playedAt);
+  finished.push({
+    policy: settings.policy,
+    episode: recording.episode,
+    result,
+    stage: playedAt,
+    steps: recording.steps.length,
+    totalReward: recording.totalReward,
+    ...(stageChange && { stageChange }),
+  });
+  trainer?.finishEpisode(result, final);
+  if (curriculum && stageChange && run) return levelAtStage(run.level, curriculum.config, stageChange.to);
+};
+
+// On- and off-policy trainers share an interface but not their networks. The
+// trainer gets its own stream from the run's seed, so the same seed replays
+// the same learning curve. `resume` applies when it's from the same family.
+const createRunTrainer = ({ seed, exploration }: TrainingRun, policy: Policy, resume: TrainerState | null = null) => {
+  const rng = createRng(deriveSeed(seed, 'trainer'));
+  const jointCount = arm.links.length;
+  let next: Trainer | OffPolicyTrainer;
+  if (isOffPolicy(policy)) {
+    const offPolicy = createOffPolicyTrainer(rng, policy, jointCount, settings.hyperparameters, exploration);
+    if (resume?.kind === 'off-policy') offPolicy.restore(resume);
+    next = offPolicy;
+  } else {
+    const onPolicy = createTrainer(rng, policy, jointCount, settings.hyperparameters, exploration);
+    if (resume?.kind === 'on-policy') onPolicy.restore(resume);
+    next = onPolicy;
+  }
+  next.setLearning(settings.learning);
+  return next;
+};
+
+const stepOnce = () => {
+  const current = sim.state();
+  let action = { dx: 0, dy: 0 };
+  if (running && trainer && current.ballActive) {
+    action = trainer.act(current);
+    recorders[settings.policy].record(current, action);
+  }
+  const { events } = sim.step(FIXED_DT, { kind: 'delta', ...action });
+  for (const event of events) {
+    if (!running || event.type === 'collision' || event.type === 'bounce') continue;
+    const nextLevel = finishEpisode(event.type, event.type === 'timeout' ? event.state : undefined);
+    if (nextLevel) sim.setLevel(nextLevel);
+  }
+};
+
+// ── Loop ────────────────────────────────────────────────────────────────────
+let acc = 0;
+let lastTick = performance.now();
+let lastFrame = 0;
+let windowStart = lastTick;
+let windowSteps = 0;
+let metrics: TrainingMetrics = { stepsPerSecond: 0, realtime: 0, updates: 0, entropy: null };
+
+const postFrame = (now: number) => {
+  if (!sized || now - lastFrame < FRAME_INTERVAL) return;
+  lastFrame = now;
+  post({
+    type: 'frame',
+    state: sim.state(),
+    live: running ? recorders[settings.policy].inProgress() : null,
+    metrics,
+  });
+  if (finished.length === 0) return;
+  post({
+    type: 'episodes',
+    run: run?.id ?? 0,
+    episodes: finished,
+    stage: curriculum && { stage: curriculum.stage(), progress: curriculum.progress() },
+  });
+  finished = [];
+};
+
+const tick = () => {
+  const start = performance.now();
+  const dt = Math.min(0.1, (start - lastTick) / 1000);
+  lastTick = start;
+
+  // Untrained scenes play in real time; Infinity steps until the budget runs out
+  const speed = running ? settings.speed : 1;
+  acc = settings.paused || !sized ? 0 : acc + dt * speed;
+
+  let behind = false;
+  let now = start;
+  while (acc >= FIXED_DT) {
+    if (now - start > TICK_BUDGET) {
+      behind = true;
+      acc = 0;
+      break;
+    }
+    stepOnce();
+    acc -= FIXED_DT;
+    windowSteps += 1;
+    now = performance.now();
+    postFrame(now);
+  }
+
+  if (now - windowStart >= METRICS_WINDOW) {
+    const seconds = (now - windowStart) / 1000;
+    metrics = {
+      stepsPerSecond: Math.round(windowSteps / seconds),
+      realtime: (windowSteps * FIXED_DT) / seconds,
+      updates: trainer?.updates() ?? 0,
+      entropy: running ? trainer?.entropy() ?? null : null,
+    };
+    windowStart = now;
+    windowSteps = 0;
+  }
+  postFrame(now);
+
+  setTimeout(tick, behind ? 0 : IDLE_DELAY);
+};
+
+// ── Requests ────────────────────────────────────────────────────────────────
+self.addEventListener('message', (e: MessageEvent<TrainerRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'arm':
+      arm = request.arm;
+      sim.setArm(arm);
+      break;
+    case 'level':
+      sim.setLevel(request.level);
+      break;
+    case 'resize':
+      sim.resize(request.width, request.height);
+      sized = true;
+      break;
+    case 'start': {
+      // The environment and the trainer get independent streams from one
+      // seed, so the same seed replays the same episodes and learning curve.
+      run = request.run;
+      settings.policy = run.policy;
+      settings.hyperparameters = run.hyperparameters;
+      curriculum = run.curriculum ? createCurriculum(run.curriculum) : null;
+      recorders[run.policy].clear();
+      finished = [];
+      try {
+        trainer = createRunTrainer(run, run.policy, run.resume);
+      } catch (error) {
+        trainer = null;
+        running = false;
+        post({ type: 'error', run: run.id, message: error instanceof Error ? error.message : String(error) });
+        break;
+      }
+      sim.setLevel(curriculum ? levelAtStage(run.level, curriculum.config, 0) : run.level);
+      sim.reset(createRng(deriveSeed(run.seed, 'env')).next);
+      running = true;
+      break;
+    }
+    case 'stop':
+      running = false;
+      break;
+    case 'set': {
+      const { policy, hyperparameters, learning, ...rest } = request.settings;
+      Object.assign(settings, rest);
+      if (learning !== undefined) {
+        settings.learning = learning;
+        trainer?.setLearning(learning);
+      }
+      if (hyperparameters) {
+        settings.hyperparameters = hyperparameters;
+        trainer?.setHyperparameters(hyperparameters);
+      }
+      if (policy && policy !== settings.policy) {
+        const crossing = isOffPolicy(policy) !== isOffPolicy(settings.policy);
+        settings.policy = policy;
+        // Crossing between on- and off-policy starts a fresh trainer mid-run
+        if (!crossing) trainer?.setPolicy(policy, running);
+        else trainer = running && run ? createRunTrainer(run, policy) : null;
+      }
+      break;
+    }
+    case 'snapshot':
+      post({ type: 'snapshot', id: request.id, snapshot: trainer?.snapshot() ?? null });
+      break;
+    case 'recording':
+      post({ type: 'recording', id: request.id, recording: recorders[request.policy].get(request.episode) ?? null });
+      break;
+  }
+});
+
+tick();
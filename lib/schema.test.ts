@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown } from '../plugins/markdown';
+import { PostFrontmatter, Project, Role } from '../types';
+import { PROJECTS, ROLES } from './data';
+import { postFrontmatterSchema, validateLevel, validateProjects, validateRoles } from './schema';
+import { Level } from './sim/level';
+
+const LEVELS_DIR = path.resolve(__dirname, '../content/levels');
+const POSTS_DIR = path.resolve(__dirname, '../content/writing');
+
+const PROJECT: Project = {
+  id: 'test-project',
+  title: 'Test project',
+  description: 'A project for tests.',
+  longDescription: ['Does one thing well.'],
+  imageUrl: '/images/test.png',
+  tech: ['TypeScript'],
+  links: { github: 'https://github.com/example/test' },
+};
+
+const ROLE: Role = {
+  id: 'test-role',
+  organisation: 'Acme',
+  title: 'Engineer',
+  start: '2021-03',
+  end: '2023-09',
+  summary: 'Built things.',
+};
+
+const POST: PostFrontmatter = { title: 'A post', date: '2025-01-31', status: 'draft', tags: ['notes'], summary: 'About things.' };
+
+const LEVEL: Level = {
+  version: 1,
+  id: 'test-level',
+  name: 'Test level',
+  goal: { x: -100, y: 40, width: 200, height: 50 },
+  spawn: { x: [80, 200], y: [260, 260], vx: [-3, 3], vy: [-2, 2] },
+  obstacles: [
+    { id: 'wall-1', kind: 'wall', x: -70, y: 140, width: 140, height: 14, motion: { axis: 'x', amplitude: 170, period: 5 } },
+    { id: 'bumper-1', kind: 'bumper', x: 170, y: 170, radius: 28 },
+  ],
+};
+
+const withObstacle = (obstacle: unknown) => ({ ...LEVEL, obstacles: [...LEVEL.obstacles, obstacle] });
+
+describe('validateLevel', () => {
+  it.each(fs.readdirSync(LEVELS_DIR))('accepts the built-in level %s', file => {
+    expect(validateLevel(JSON.parse(fs.readFileSync(path.join(LEVELS_DIR, file), 'utf8')), file)).toEqual([]);
+  });
+
+  it('accepts a well-formed level', () => {
+    expect(validateLevel(LEVEL, 'level')).toEqual([]);
+  });
+
+  it('rejects other format versions', () => {
+    expect(validateLevel({ ...LEVEL, version: 2 }, 'level')).toEqual([{ path: 'level.version', message: 'must be at most 1' }]);
+  });
+
+  it('reports every bad field with its path', () => {
+    const issues = validateLevel({ ...LEVEL, id: 'Not Kebab', goal: { ...LEVEL.goal, width: 0 }, extra: true }, 'level');
+    expect(issues.map(issue => issue.path)).toEqual(['level.id', 'level.goal.width', 'level.extra']);
+  });
+
+  it('rejects spawn ranges with min above max', () => {
+    expect(validateLevel({ ...LEVEL, spawn: { ...LEVEL.spawn, vx: [3, -3] } }, 'level')).toEqual([
+      { path: 'level.spawn.vx', message: 'must have min <= max' },
+    ]);
+  });
+
+  it('rejects unknown obstacle kinds', () => {
+    expect(validateLevel(withObstacle({ id: 'spring-1', kind: 'spring', x: 0, y: 0 }), 'level')).toEqual([
+      { path: 'level.obstacles[2].kind', message: 'must be one of "wall", "bumper"' },
+    ]);
+  });
+
+  it('checks obstacle motion', () => {
+    const motion = { axis: 'z', amplitude: -1, period: 0 };
+    const issues = validateLevel(withObstacle({ id: 'bumper-2', kind: 'bumper', x: 0, y: 0, radius: 10, motion }), 'level');
+    expect(issues.map(issue => issue.path)).toEqual([
+      'level.obstacles[2].motion.axis',
+      'level.obstacles[2].motion.amplitude',
+      'level.obstacles[2].motion.period',
+    ]);
+  });
+
+  it('rejects duplicate obstacle ids', () => {
+    expect(validateLevel(withObstacle({ id: 'wall-1', kind: 'wall', x: 0, y: 0, width: 10, height: 10 }), 'level')).toEqual([
+      { path: 'level.obstacles[2].id', message: 'duplicates "wall-1"' },
+    ]);
+  });
+});
+
+describe('validateProjects', () => {
+  it('accepts the built-in projects', () => {
+    expect(validateProjects(PROJECTS)).toEqual([]);
+  });
+
+  it('rejects duplicate ids, pointing at the first use', () => {
+    expect(validateProjects([PROJECT, { ...PROJECT, title: 'Copy' }])).toEqual([
+      { path: 'PROJECTS[1] (test-project).id', message: 'duplicates PROJECTS[0]' },
+    ]);
+  });
+
+  it('requires URL-safe ids', () => {
+    expect(validateProjects([{ ...PROJECT, id: 'Test Project' }]).map(issue => issue.path)).toEqual([
+      'PROJECTS[0] (Test Project).id',
+    ]);
+  });
+
+  it('requires images under /images/ that exist when files can be checked', () => {
+    expect(validateProjects([{ ...PROJECT, imageUrl: 'https://example.com/test.png' }]).map(issue => issue.path)).toEqual([
+      'PROJECTS[0] (test-project).imageUrl',
+    ]);
+    expect(validateProjects([PROJECT], { fileExists: () => false })).toEqual([
+      { path: 'PROJECTS[0] (test-project).imageUrl', message: 'points to a missing file: public/images/test.png' },
+    ]);
+    expect(validateProjects([PROJECT], { fileExists: file => file === '/images/test.png' })).toEqual([]);
+  });
+
+  it('requires http(s) links', () => {
+    expect(validateProjects([{ ...PROJECT, links: { github: 'github.com/example/test' } }])).toEqual([
+      { path: 'PROJECTS[0] (test-project).links.github', message: 'is not a well-formed URL: "github.com/example/test"' },
+    ]);
+    expect(validateProjects([{ ...PROJECT, links: { github: 'ftp://github.com/example' } }])).toEqual([
+      { path: 'PROJECTS[0] (test-project).links.github', message: 'must be an http(s) URL' },
+    ]);
+  });
+});
+
+describe('validateRoles', () => {
+  it('accepts the built-in roles', () => {
+    expect(validateRoles(ROLES)).toEqual([]);
+  });
+
+  it('requires YYYY-MM months', () => {
+    expect(validateRoles([{ ...ROLE, start: '2021-13', end: '2023' }]).map(issue => issue.path)).toEqual([
+      'ROLES[0].start',
+      'ROLES[0].end',
+    ]);
+  });
+
+  it('rejects roles that end before they start', () => {
+    expect(validateRoles([ROLE, { ...ROLE, end: '2020-12' }])).toEqual([{ path: 'ROLES[1].end', message: 'is before start' }]);
+    expect(validateRoles([{ ...ROLE, end: undefined }])).toEqual([]);
+  });
+});
+
+describe('postFrontmatterSchema', () => {
+  it.each(fs.readdirSync(POSTS_DIR))('accepts the built-in post %s', file => {
+    const { frontmatter } = parseMarkdown(fs.readFileSync(path.join(POSTS_DIR, file), 'utf8'));
+    expect(postFrontmatterSchema.check(frontmatter, file)).toEqual([]);
+  });
+
+  it('requires an ISO date and a known status', () => {
+    expect(postFrontmatterSchema.check({ ...POST, date: 'January 2025', status: 'scheduled' }, 'post')).toEqual([
+      { path: 'post.date', message: 'must be an ISO date (YYYY-MM-DD)' },
+      { path: 'post.status', message: 'must be one of "draft", "published"' },
+    ]);
+  });
+
+  it('requires tags as a list and rejects unknown fields', () => {
+    expect(postFrontmatterSchema.check({ ...POST, tags: 'notes', author: 'me' }, 'post')).toEqual([
+      { path: 'post.tags', message: 'must be an array' },
+      { path: 'post.author', message: 'is not a known field' },
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { Interest, PostFrontmatter, Project, Role } from '../types';
+import { Bumper, LEVEL_VERSION, Level, Motion, Obstacle, Range, Wall } from './sim/level';
+
+// A deliberately small schema layer for hand-edited content. Each schema
+// reports every problem it finds, with a path pointing at the bad field, so
+// the build can print all broken entries at once.
+
+export interface Issue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  check: (value: unknown, path: string) => Issue[];
+  // Phantom field so `Schema<T>` keeps its type parameter.
+  readonly _type?: T;
+}
+
+const schema = <T>(check: Schema<T>['check']): Schema<T> => ({ check });
+
+const fail = (path: string, message: string): Issue[] => [{ path, message }];
+
+export const string = (options: { pattern?: RegExp; hint?: string } = {}) =>
+  schema<string>((value, path) => {
+    if (typeof value !== 'string' || value.trim() === '') return fail(path, 'must be a non-empty string');
+    if (options.pattern && !options.pattern.test(value)) return fail(path, `must be ${options.hint ?? options.pattern}`);
+    return [];
+  });
+
+export const url = () =>
+  schema<string>((value, path) => {
+    if (typeof value !== 'string') return fail(path, 'must be a URL string');
+    try {
+      const parsed = new URL(value);
+      return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? [] : fail(path, 'must be an http(s) URL');
+    } catch {
+      return fail(path, `is not a well-formed URL: "${value}"`);
+    }
+  });
+
+export const isoDate = () =>
+  schema<string>((value, path) =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+      ? []
+      : fail(path, 'must be an ISO date (YYYY-MM-DD)')
+  );
+
+export const number = (options: { min?: number; max?: number } = {}) =>
+  schema<number>((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'must be a number');
+    if (options.min !== undefined && value < options.min) return fail(path, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) return fail(path, `must be at most ${options.max}`);
+    return [];
+  });
+
+export const range = () =>
+  schema<Range>((value, path) => {
+    if (!Array.isArray(value) || value.length !== 2 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      return fail(path, 'must be a [min, max] pair of numbers');
+    }
+    return value[0] <= value[1] ? [] : fail(path, 'must have min <= max');
+  });
+
+export const boolean = () =>
+  schema<boolean>((value, path) => (typeof value === 'boolean' ? [] : fail(path, 'must be true or false')));
+
+export const oneOf = <T extends string>(values: readonly T[]) =>
+  schema<T>((value, path) =>
+    values.includes(value as T) ? [] : fail(path, `must be one of ${values.map(v => `"${v}"`).join(', ')}`)
+  );
+
+export const optional = <T>(inner: Schema<T>) =>
+  schema<T | undefined>((value, path) => (value === undefined ? [] : inner.check(value, path)));
+
+export const array = <T>(item: Schema<T>, options: { nonEmpty?: boolean } = {}) =>
+  schema<T[]>((value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'must be an array');
+    if (options.nonEmpty && value.length === 0) return fail(path, 'must not be empty');
+    return value.flatMap((entry, i) => item.check(entry, `${path}[${i}]`));
+  });
+
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }) =>
+  schema<T>((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'must be an object');
+    const record = value as Record<string, unknown>;
+    const known = Object.keys(shape);
+    const unknownKeys = Object.keys(record).filter(key => !known.includes(key));
+    return [
+      ...known.flatMap(key => shape[key as keyof T].check(record[key], `${path}.${key}`)),
+      ...unknownKeys.map(key => ({ path: `${path}.${key}`, message: 'is not a known field' })),
+    ];
+  });
+
+// Picks the schema for an object by its `tag` field, e.g. `kind`.
+export const tagged = <T>(tag: string, variants: Record<string, Schema<T>>) =>
+  schema<T>((value, path) => {
+    const key = (value as Record<string, unknown> | null)?.[tag];
+    const variant = typeof key === 'string' ? variants[key] : undefined;
+    if (!variant) {
+      return fail(`${path}.${tag}`, `must be one of ${Object.keys(variants).map(v => `"${v}"`).join(', ')}`);
+    }
+    return variant.check(value, path);
+  });
+
+export const is = <T>(s: Schema<T>, value: unknown): value is T => s.check(value, '').length === 0;
+
+export const formatIssues = (issues: Issue[]) => issues.map(issue => `  - ${issue.path} ${issue.message}`).join('\n');
+
+// ─── Content schemas ─────────────────────────────────────────────────────────
+
+const URL_SAFE_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const projectSchema = object<Project>({
+  id: string({ pattern: URL_SAFE_ID, hint: 'lowercase kebab-case (a-z, 0-9, -)' }),
+  title: string(),
+  category: optional(string()),
+  description: string(),
+  longDescription: array(string(), { nonEmpty: true }),
+  imageUrl: string({ pattern: /^\/images\/[^/]+\.(avif|jpe?g|png|webp|svg)$/, hint: 'an image path under /images/' }),
+  tech: array(string(), { nonEmpty: true }),
+  role: optional(string()),
+  focus: optional(string()),
+  timeline: optional(string()),
+  featured: optional(boolean()),
+  links: object<Project['links']>({
+    github: optional(url()),
+    demo: optional(url()),
+    writeup: optional(url()),
+  }),
+});
+
+const YEAR_MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const roleSchema = object<Role>({
+  id: string({ pattern: URL_SAFE_ID, hint: 'lowercase kebab-case (a-z, 0-9, -)' }),
+  organisation: string(),
+  title: string(),
+  url: optional(url()),
+  start: optional(string({ pattern: YEAR_MONTH, hint: 'a YYYY-MM month' })),
+  end: optional(string({ pattern: YEAR_MONTH, hint: 'a YYYY-MM month' })),
+  summary: string(),
+});
+
+export const interestSchema = object<Interest>({
+  label: string(),
+  kind: oneOf(['building', 'exploring'] as const),
+});
+
+export const postFrontmatterSchema = object<PostFrontmatter>({
+  title: string(),
+  date: isoDate(),
+  status: oneOf(['draft', 'published'] as const),
+  tags: array(string()),
+  summary: string(),
+  stage: optional(string()),
+});
+
+const motionSchema = object<Motion>({
+  axis: oneOf(['x', 'y'] as const),
+  amplitude: number({ min: 0 }),
+  period: number({ min: 0.1 }),
+  phase: optional(number()),
+});
+
+const OBSTACLE_ID = { pattern: URL_SAFE_ID, hint: 'lowercase kebab-case (a-z, 0-9, -)' };
+
+export const obstacleSchema = tagged<Obstacle>('kind', {
+  wall: object<Wall>({
+    id: string(OBSTACLE_ID),
+    kind: oneOf(['wall'] as const),
+    x: number(),
+    y: number(),
+    width: number({ min: 1 }),
+    height: number({ min: 1 }),
+    motion: optional(motionSchema),
+  }),
+  bumper: object<Bumper>({
+    id: string(OBSTACLE_ID),
+    kind: oneOf(['bumper'] as const),
+    x: number(),
+    y: number(),
+    radius: number({ min: 1 }),
+    restitution: optional(number({ min: 0, max: 2 })),
+    motion: optional(motionSchema),
+  }),
+});
+
+export const levelSchema = object<Level>({
+  version: number({ min: LEVEL_VERSION, max: LEVEL_VERSION }),
+  id: string({ pattern: URL_SAFE_ID, hint: 'lowercase kebab-case (a-z, 0-9, -)' }),
+  name: string(),
+  goal: object<Level['goal']>({
+    x: number(),
+    y: number({ min: 0 }),
+    width: number({ min: 1 }),
+    height: number({ min: 1 }),
+  }),
+  spawn: object<Level['spawn']>({ x: range(), y: range(), vx: range(), vy: range() }),
+  ballRadius: optional(number({ min: 4 })),
+  obstacles: array(obstacleSchema),
+});
+
+// Validates the whole collection: every entry against its schema, plus
+// cross-entry rules. `fileExists` is only supplied at build time, where the
+// public directory can be read.
+export const validateProjects = (
+  projects: unknown[],
+  options: { fileExists?: (publicPath: string) => boolean } = {}
+): Issue[] => {
+  const seen = new Map<string, number>();
+
+  return projects.flatMap((project, i) => {
+    const id = (project as Partial<Project>)?.id;
+    const label = `PROJECTS[${i}]${typeof id === 'string' ? ` (${id})` : ''}`;
+    const issues = projectSchema.check(project, label);
+
+    if (typeof id === 'string') {
+      if (seen.has(id)) issues.push({ path: `${label}.id`, message: `duplicates PROJECTS[${seen.get(id)}]` });
+      else seen.set(id, i);
+    }
+
+    const imageUrl = (project as Partial<Project>)?.imageUrl;
+    if (options.fileExists && typeof imageUrl === 'string' && !options.fileExists(imageUrl)) {
+      issues.push({ path: `${label}.imageUrl`, message: `points to a missing file: public${imageUrl}` });
+    }
+
+    return issues;
+  });
+};
+
+export const validateRoles = (roles: unknown[]): Issue[] =>
+  roles.flatMap((role, i) => {
+    const label = `ROLES[${i}]`;
+    const issues = roleSchema.check(role, label);
+    const { start, end } = (role ?? {}) as Partial<Role>;
+    if (typeof start === 'string' && typeof end === 'string' && end < start) {
+      issues.push({ path: `${label}.end`, message: 'is before start' });
+    }
+    return issues;
+  });
+
+// `label` names the level in messages, e.g. its file.
+export const validateLevel = (level: unknown, label: string): Issue[] => {
+  const issues = levelSchema.check(level, label);
+  const obstacles = (level as Partial<Level>)?.obstacles;
+  if (Array.isArray(obstacles)) {
+    const seen = new Set<string>();
+    obstacles.forEach((obstacle, i) => {
+      const id = (obstacle as Partial<Obstacle>)?.id;
+      if (typeof id !== 'string') return;
+      if (seen.has(id)) issues.push({ path: `${label}.obstacles[${i}].id`, message: `duplicates "${id}"` });
+      seen.add(id);
+    });
+  }
+  return issues;
+};
+
+export const isProject = (value: unknown): value is Project => is(projectSchema, value);
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { clampToLimits, forwardKinematics, solveIK } from './kinematics';
+
+const BASE = { x: 0, y: 0 };
+const LENGTHS = [100, 100];
+
+const effector = (angles: number[]) => forwardKinematics(BASE, angles, LENGTHS)[LENGTHS.length];
+
+describe('forwardKinematics', () => {
+  it('chains relative joint angles from the base', () => {
+    const joints = forwardKinematics({ x: 10, y: 20 }, [0, Math.PI / 2], LENGTHS);
+    expect(joints).toHaveLength(3);
+    expect(joints[1].x).toBeCloseTo(110);
+    expect(joints[1].y).toBeCloseTo(20);
+    expect(joints[2].x).toBeCloseTo(110);
+    expect(joints[2].y).toBeCloseTo(120);
+  });
+});
+
+describe('clampToLimits', () => {
+  it('clamps limited joints and leaves free ones alone', () => {
+    expect(clampToLimits([5, 5, -5], [null, { min: 0, max: 1 }, { min: -1, max: 1 }])).toEqual([5, 1, -1]);
+  });
+});
+
+describe('solveIK', () => {
+  it('meets a target within reach', () => {
+    const target = { x: 120, y: 50 };
+    const result = solveIK(BASE, LENGTHS, [0.1, 0.1], target, { maxIterations: 50, tolerance: 0.5 });
+    expect(result).toMatchObject({ converged: true, reachable: true });
+    expect(result.error).toBeLessThanOrEqual(0.5);
+    const tip = effector(result.angles);
+    expect(Math.hypot(tip.x - target.x, tip.y - target.y)).toBeCloseTo(result.error);
+  });
+
+  it('stretches toward a target out of reach', () => {
+    const result = solveIK(BASE, LENGTHS, [0.3, 0.3], { x: 300, y: 0 }, { maxIterations: 50 });
+    expect(result).toMatchObject({ converged: false, reachable: false });
+    expect(result.error).toBeCloseTo(100, 0);
+  });
+
+  it('keeps joints within their limits', () => {
+    const limits = [null, { min: 0, max: Math.PI / 2 }];
+    // Reaching this close to the base would need the elbow folded past its limit
+    const result = solveIK(BASE, LENGTHS, [0, 0.5], { x: 20, y: 0 }, { limits, maxIterations: 50 });
+    expect(result).toMatchObject({ converged: false, reachable: true });
+    expect(result.angles[1]).toBeGreaterThanOrEqual(0);
+    expect(result.angles[1]).toBeLessThanOrEqual(Math.PI / 2);
+  });
+
+  it('solves for arms with more links', () => {
+    const lengths = [80, 60, 40, 30];
+    const limits = [null, { min: -2.2, max: 2.2 }, { min: -2.2, max: 2.2 }, { min: -2.2, max: 2.2 }];
+    const target = { x: 60, y: -120 };
+    const result = solveIK(BASE, lengths, [0, 0.3, 0.3, 0.3], target, { limits, maxIterations: 50, tolerance: 0.5 });
+    expect(result).toMatchObject({ converged: true, reachable: true });
+    const tip = forwardKinematics(BASE, result.angles, lengths)[lengths.length];
+    expect(Math.hypot(tip.x - target.x, tip.y - target.y)).toBeLessThanOrEqual(0.5);
+    result.angles.slice(1).forEach(angle => expect(Math.abs(angle)).toBeLessThanOrEqual(2.2));
+  });
+
+  it('clamps the starting pose to the limits', () => {
+    const limits = [null, { min: 0, max: 1 }];
+    const result = solveIK(BASE, LENGTHS, [0, 3], effector([0, 3]), { limits, maxIterations: 0 });
+    expect(result.angles).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,104 @@
+// Planar serial-chain kinematics for an arm with any number of links. Angles
+// are relative to the previous link (the first is relative to +x), radians,
+// with y pointing down as on a canvas.
+
+import type { Vec } from './physics';
+
+export interface JointLimit {
+  min: number;
+  max: number;
+}
+
+export interface IKOptions {
+  limits?: (JointLimit | null)[];
+  maxIterations?: number;
+  tolerance?: number; // px between effector and target counted as converged
+  // Second starting pose, tried when a reachable target isn't met from
+  // `initial`. CCD can stall with a joint pinned against its limit.
+  restart?: number[];
+}
+
+export interface IKResult {
+  angles: number[];
+  converged: boolean;
+  reachable: boolean; // target lies within the arm's total reach
+  error: number; // px from effector to target after solving
+  iterations: number;
+}
+
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export const forwardKinematics = (base: Vec, angles: number[], lengths: number[]): Vec[] => {
+  const joints: Vec[] = [{ ...base }];
+  let heading = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    heading += angles[i];
+    const prev = joints[i];
+    joints.push({ x: prev.x + Math.cos(heading) * lengths[i], y: prev.y + Math.sin(heading) * lengths[i] });
+  }
+  return joints;
+};
+
+export const clampToLimits = (angles: number[], limits: (JointLimit | null)[] = []) =>
+  angles.map((a, i) => {
+    const limit = limits[i];
+    return limit ? Math.max(limit.min, Math.min(limit.max, a)) : a;
+  });
+
+const ccd = (
+  base: Vec,
+  lengths: number[],
+  initial: number[],
+  target: Vec,
+  limits: (JointLimit | null)[],
+  maxIterations: number,
+  tolerance: number
+) => {
+  const angles = clampToLimits(initial, limits);
+
+  let joints = forwardKinematics(base, angles, lengths);
+  let effector = joints[joints.length - 1];
+  let error = Math.hypot(target.x - effector.x, target.y - effector.y);
+  let iterations = 0;
+
+  while (error > tolerance && iterations < maxIterations) {
+    iterations += 1;
+    for (let i = lengths.length - 1; i >= 0; i--) {
+      const pivot = joints[i];
+      const toEffector = Math.atan2(effector.y - pivot.y, effector.x - pivot.x);
+      const toTarget = Math.atan2(target.y - pivot.y, target.x - pivot.x);
+      let next = angles[i] + wrapAngle(toTarget - toEffector);
+      const limit = limits[i];
+      if (limit) next = Math.max(limit.min, Math.min(limit.max, next));
+      angles[i] = next;
+
+      joints = forwardKinematics(base, angles, lengths);
+      effector = joints[joints.length - 1];
+    }
+    error = Math.hypot(target.x - effector.x, target.y - effector.y);
+  }
+
+  return { angles, error, iterations };
+};
+
+// Cyclic coordinate descent: sweeps from the wrist to the base, turning each
+// joint to swing the effector toward the target. Warm-started from `initial`,
+// so successive solves follow a moving target without branch flips.
+export const solveIK = (
+  base: Vec,
+  lengths: number[],
+  initial: number[],
+  target: Vec,
+  { limits = [], maxIterations = 12, tolerance = 0.5, restart }: IKOptions = {}
+): IKResult => {
+  const reach = lengths.reduce((sum, l) => sum + l, 0);
+  const reachable = Math.hypot(target.x - base.x, target.y - base.y) <= reach;
+
+  let best = ccd(base, lengths, initial, target, limits, maxIterations, tolerance);
+  if (best.error > tolerance && reachable && restart) {
+    const retry = ccd(base, lengths, restart, target, limits, maxIterations, tolerance);
+    if (retry.error < best.error) best = { ...retry, iterations: best.iterations + retry.iterations };
+  }
+
+  return { angles: best.angles, converged: best.error <= tolerance, reachable, error: best.error, iterations: best.iterations };
+};
@@ -0,0 +1,68 @@
+// Level format for the arm task: goal placement, spawn distribution and
+// obstacles, as plain JSON. Horizontal positions are offsets from the
+// viewport's centre line (the arm's base); vertical ones are px from the top.
+// Rectangles (goal, walls) are positioned by their top-left corner, circles
+// (bumpers) by their centre.
+
+import type { Ball, Viewport } from './physics';
+
+export const LEVEL_VERSION = 1;
+
+export type Range = [number, number]; // uniform [min, max]
+
+export interface Motion {
+  axis: 'x' | 'y';
+  amplitude: number; // px either side of the resting position
+  period: number; // seconds per full cycle
+  phase?: number; // radians
+}
+
+export interface Wall {
+  id: string;
+  kind: 'wall';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  motion?: Motion;
+}
+
+export interface Bumper {
+  id: string;
+  kind: 'bumper';
+  x: number;
+  y: number;
+  radius: number;
+  restitution?: number; // above 1 kicks the ball away
+  motion?: Motion;
+}
+
+export type Obstacle = Wall | Bumper;
+
+export interface Level {
+  version: number;
+  id: string;
+  name: string;
+  goal: { x: number; y: number; width: number; height: number };
+  spawn: { x: Range; y: Range; vx: Range; vy: Range };
+  ballRadius?: number; // px; the sim's default when omitted
+  obstacles: Obstacle[];
+}
+
+const sample = ([min, max]: Range, random: () => number) => min + (max - min) * random();
+
+export const levelSpawn =
+  (level: Level) =>
+  ({ width, height }: Viewport, random: () => number): Omit<Ball, 'radius'> => ({
+    x: width / 2 + sample(level.spawn.x, random),
+    // Keep spawns in the upper half on short viewports, clear of the arm's base
+    y: Math.min(sample(level.spawn.y, random), height / 2 - 40),
+    vx: sample(level.spawn.vx, random),
+    vy: sample(level.spawn.vy, random),
+  });
+
+export const nextObstacleId = (level: Level, kind: Obstacle['kind']) => {
+  let n = 1;
+  while (level.obstacles.some(o => o.id === `${kind}-${n}`)) n += 1;
+  return `${kind}-${n}`;
+};
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { Level, Obstacle } from './level';
+import { ArmModel, Ball, PLAY_CONFIG, SimConfig, TOUCH_PLAY_CONFIG, TRAINING_CONFIG, createArmSim } from './physics';
+
+// Straight up from the base at (400, 800) to (400, 400); without `scale` the
+// links keep their length. The 'rest' action holds it still.
+const UPRIGHT_ARM: ArmModel = { id: 'upright', label: 'upright', links: [200, 200], restPose: [-Math.PI / 2, 0] };
+
+// A weightless, drag-free ball spawned at `ball`, in an 800 × 800 viewport
+const createSim = (ball: Omit<Ball, 'radius'>, overrides: Partial<SimConfig> = {}) => {
+  const sim = createArmSim({
+    ...TRAINING_CONFIG,
+    arm: UPRIGHT_ARM,
+    gravity: 0,
+    airDrag: 1,
+    episodeLimit: undefined,
+    spawn: () => ({ ...ball }),
+    ...overrides,
+  });
+  sim.resize(800, 800);
+  return sim;
+};
+
+const stepUntil = (sim: ReturnType<typeof createSim>, type: string, maxSteps = 200) => {
+  for (let i = 0; i < maxSteps; i++) {
+    const result = sim.step(1 / 60, { kind: 'rest' });
+    if (result.events.some(event => event.type === type)) return result;
+  }
+  throw new Error(`No ${type} event in ${maxSteps} steps`);
+};
+
+describe('createArmSim step', () => {
+  it('moves the ball by its velocity and gravity', () => {
+    const sim = createSim({ x: 600, y: 300, vx: 2, vy: -1 }, { gravity: 60 });
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([]);
+    expect(state.ball.vy).toBeCloseTo(0);
+    expect(state.ball.x).toBeCloseTo(602);
+    expect(state.ball.y).toBeCloseTo(300);
+  });
+
+  it('reports a goal and respawns the ball', () => {
+    // The goal spans x 300–500, y 40–90
+    const sim = createSim({ x: 600, y: 200, vx: -4, vy: -4 });
+    const { state, events } = stepUntil(sim, 'goal');
+    expect(events).toEqual([{ type: 'goal' }]);
+    expect(state.ball).toMatchObject({ x: 600, y: 200, vx: -4, vy: -4 });
+    expect(state.ballActive).toBe(true);
+  });
+
+  it('reports a miss when the ball reaches the floor', () => {
+    const sim = createSim({ x: 650, y: 600, vx: 0, vy: 10 });
+    const { state, events } = stepUntil(sim, 'miss');
+    expect(events).toEqual([{ type: 'miss' }]);
+    expect(state.ball.y).toBe(600);
+  });
+
+  it('ends an episode that runs past the limit with a timeout', () => {
+    const sim = createSim({ x: 650, y: 300, vx: 0, vy: 0 }, { episodeLimit: 1 });
+    for (let i = 0; i < 59; i++) expect(sim.step(1 / 60, { kind: 'rest' }).events).toEqual([]);
+    const before = sim.state();
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'timeout', state: expect.objectContaining({ ball: before.ball }) }]);
+    expect(state.ballActive).toBe(true);
+  });
+
+  it('has no episode limit in the Home game', () => {
+    expect(PLAY_CONFIG.episodeLimit).toBeUndefined();
+    expect(TOUCH_PLAY_CONFIG.episodeLimit).toBeUndefined();
+  });
+
+  it('parks the ball after an episode until it is launched', () => {
+    // A launched ball starts at rest, so let it fall
+    const sim = createSim({ x: 650, y: 600, vx: 0, vy: 0 }, { afterEpisode: 'park', gravity: 600 });
+    expect(sim.step(1 / 60, { kind: 'rest' }).state.ball.y).toBe(600);
+    sim.launch();
+    const { state } = stepUntil(sim, 'miss');
+    expect(state.ballActive).toBe(false);
+    expect(sim.step(1 / 60, { kind: 'rest' }).state.ball.y).toBe(600);
+  });
+
+  it('bounces off the side walls', () => {
+    const sim = createSim({ x: 40, y: 300, vx: -20, vy: 0 });
+    const { ball } = sim.step(1 / 60, { kind: 'rest' }).state;
+    expect(ball.x).toBe(ball.radius);
+    expect(ball.vx).toBeCloseTo(20 * TRAINING_CONFIG.wallRestitution);
+
+    const right = createSim({ x: 760, y: 300, vx: 20, vy: 0 }).step(1 / 60, { kind: 'rest' }).state.ball;
+    expect(right.x).toBe(800 - right.radius);
+    expect(right.vx).toBeCloseTo(-20 * TRAINING_CONFIG.wallRestitution);
+  });
+
+  it('bounces off the ceiling only when it is enabled', () => {
+    const ball = { x: 650, y: 40, vx: 0, vy: -20 };
+    const closed = createSim(ball, { ceiling: true }).step(1 / 60, { kind: 'rest' }).state.ball;
+    expect(closed.y).toBe(closed.radius);
+    expect(closed.vy).toBeCloseTo(20 * TRAINING_CONFIG.wallRestitution);
+
+    const open = createSim(ball, { ceiling: false }).step(1 / 60, { kind: 'rest' }).state.ball;
+    expect(open.y).toBe(20);
+    expect(open.vy).toBe(-20);
+  });
+
+  it('bounces the ball off an arm link and reports the contact', () => {
+    // Contact radius is the ball's 28 px plus the arm's 14 px
+    const sim = createSim({ x: 440, y: 500, vx: -5, vy: 0 });
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'collision', segment: 1, speed: 5 }]);
+    expect(state.ball.x).toBeCloseTo(442.5);
+    expect(state.ball.vx).toBeCloseTo(5 * TRAINING_CONFIG.restitution);
+  });
+
+  it('pushes the ball clear without a bounce when it is already separating', () => {
+    const sim = createSim({ x: 420, y: 700, vx: 1, vy: 0 });
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'collision', segment: 0, speed: 0 }]);
+    expect(state.ball.x).toBeCloseTo(442.5);
+    expect(state.ball.vx).toBe(1);
+  });
+});
+
+// A level that always spawns the ball at `ball`
+const levelWith = (obstacles: Obstacle[], ball: { x: number; y: number; vx?: number; vy?: number }): Level => ({
+  version: 1,
+  id: 'test',
+  name: 'Test',
+  goal: { x: -100, y: 40, width: 200, height: 50 },
+  spawn: { x: [ball.x, ball.x], y: [ball.y, ball.y], vx: [ball.vx ?? 0, ball.vx ?? 0], vy: [ball.vy ?? 0, ball.vy ?? 0] },
+  obstacles,
+});
+
+const createLevelSim = (level: Level) => {
+  const sim = createSim({ x: 0, y: 0, vx: 0, vy: 0 });
+  sim.setLevel(level);
+  return sim;
+};
+
+const stepFrames = (sim: ReturnType<typeof createSim>, frames: number) => {
+  for (let i = 0; i < frames - 1; i++) sim.step(1 / 60, { kind: 'rest' });
+  return sim.step(1 / 60, { kind: 'rest' });
+};
+
+describe('obstacles', () => {
+  // x is an offset from the centre line at 400
+  const WALL: Obstacle = { id: 'wall-1', kind: 'wall', x: 100, y: 300, width: 100, height: 20 };
+  const BUMPER: Obstacle = { id: 'bumper-1', kind: 'bumper', x: 150, y: 300, radius: 20 };
+
+  it('bounces the ball off a wall', () => {
+    const sim = createLevelSim(levelWith([WALL], { x: 150, y: 265, vy: 10 }));
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'bounce', obstacle: 'wall-1', speed: 10 }]);
+    expect(state.ball.y).toBeCloseTo(300 - state.ball.radius);
+    expect(state.ball.vy).toBeCloseTo(-10 * TRAINING_CONFIG.wallRestitution);
+  });
+
+  it('pushes a ball whose centre is inside a wall out through the nearest face', () => {
+    const sim = createLevelSim(levelWith([WALL], { x: 198, y: 310 }));
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'bounce', obstacle: 'wall-1', speed: 0 }]);
+    expect(state.ball.x).toBeCloseTo(600 + state.ball.radius);
+  });
+
+  it('kicks the ball off a bumper harder than it arrived', () => {
+    const sim = createLevelSim(levelWith([BUMPER], { x: 150, y: 245, vy: 10 }));
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    expect(events).toEqual([{ type: 'bounce', obstacle: 'bumper-1', speed: 10 }]);
+    expect(state.ball.y).toBeCloseTo(300 - 20 - state.ball.radius);
+    expect(state.ball.vy).toBeCloseTo(-10.5);
+  });
+
+  it('uses a bumper\'s own restitution', () => {
+    const sim = createLevelSim(levelWith([{ ...BUMPER, restitution: 0.5 }], { x: 150, y: 245, vy: 10 }));
+    expect(sim.step(1 / 60, { kind: 'rest' }).state.ball.vy).toBeCloseTo(-5);
+  });
+
+  it('moves obstacles along their motion', () => {
+    const motion = { axis: 'x' as const, amplitude: 100, period: 1 };
+    const obstacles: Obstacle[] = [{ ...WALL, motion }, { ...BUMPER, y: 200, motion: { ...motion, axis: 'y' } }];
+    const sim = createLevelSim(levelWith(obstacles, { x: -250, y: 100 }));
+    expect(sim.state().obstacles.map(o => [o.x, o.y])).toEqual([[500, 300], [550, 200]]);
+
+    // A quarter period: furthest out and momentarily still
+    const [wall, bumper] = stepFrames(sim, 15).state.obstacles;
+    expect(wall.x).toBeCloseTo(600);
+    expect(wall.vx).toBeCloseTo(0);
+    expect(bumper.y).toBeCloseTo(300);
+    expect(bumper.vy).toBeCloseTo(0);
+
+    // Half a period: back at rest position, moving at full speed the other way
+    const [returning] = stepFrames(sim, 15).state.obstacles;
+    expect(returning.x).toBeCloseTo(500);
+    expect(returning.vx).toBeCloseTo(-(2 * Math.PI * 100) / 60);
+    expect(returning.vy).toBe(0);
+  });
+
+  it('carries a resting ball along with a moving wall', () => {
+    const wall = { ...WALL, motion: { axis: 'x' as const, amplitude: 100, period: 1 } };
+    const sim = createLevelSim(levelWith([wall], { x: 235, y: 310 }));
+    const { state, events } = sim.step(1 / 60, { kind: 'rest' });
+    const wallSpeed = state.obstacles[0].vx;
+    expect(events).toEqual([{ type: 'bounce', obstacle: 'wall-1', speed: wallSpeed }]);
+    expect(state.ball.vx).toBeCloseTo((1 + TRAINING_CONFIG.wallRestitution) * wallSpeed);
+  });
+});
+
+describe('moving goals', () => {
+  const GOAL = { x: -100, y: 200, width: 200, height: 50, motion: { axis: 'y' as const, amplitude: 100, period: 1 } };
+
+  it('oscillates the goal along its motion', () => {
+    const sim = createSim({ x: 650, y: 400, vx: 0, vy: 0 });
+    sim.setGoal(GOAL);
+    expect(sim.state().goal.y).toBe(200);
+    expect(stepFrames(sim, 15).state.goal.y).toBeCloseTo(300);
+    expect(stepFrames(sim, 30).state.goal.y).toBeCloseTo(100);
+  });
+
+  it('scores against where the goal is now', () => {
+    // Out of reach of the goal at rest, but in its path
+    const sim = createSim({ x: 330, y: 360, vx: 0, vy: 0 });
+    sim.setGoal(GOAL);
+    const { state, events } = stepUntil(sim, 'goal');
+    expect(events).toEqual([{ type: 'goal' }]);
+    expect(state.goal.y + state.goal.height).toBeGreaterThanOrEqual(360 - state.ball.radius);
+  });
+});
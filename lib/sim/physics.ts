@@ -0,0 +1,587 @@
+// Headless simulation of a planar arm juggling a ball toward a goal. Owns the
+// arm, ball, goal and viewport; knows nothing about React, canvas or the DOM,
+// so it runs the same in a component, in Node or in a worker.
+//
+// Units: positions in CSS pixels, velocities in pixels per 1/60 s frame (the
+// original tuning unit), `dt` in seconds. Call `step` with FIXED_DT for
+// reproducible results.
+
+import { JointLimit, forwardKinematics, solveIK } from './kinematics';
+import { Bumper, Level, Motion, Obstacle, Wall, levelSpawn } from './level';
+
+export const FIXED_DT = 1 / 60;
+
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export interface Ball extends Vec {
+  vx: number;
+  vy: number;
+  radius: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface ArmState {
+  model: string; // ArmModel id
+  base: Vec;
+  angles: number[]; // relative joint angles, radians
+  lengths: number[]; // after viewport scaling
+  limits: (JointLimit | null)[];
+  joints: Vec[]; // base, each joint, end effector
+  ik: { converged: boolean; reachable: boolean; error: number };
+}
+
+// Link lengths are in px at `scale.referenceHeight`; with `scale` set they
+// grow and shrink with the viewport height within [min, max].
+export interface ArmModel {
+  id: string;
+  label: string;
+  links: number[];
+  restPose: number[];
+  limits?: (JointLimit | null)[];
+  scale?: { referenceHeight: number; min: number; max: number };
+}
+
+// An obstacle at its current position, in viewport px, with its velocity in
+// px/frame.
+export type ObstacleState = (Omit<Wall, 'motion'> | Omit<Bumper, 'motion'>) & { vx: number; vy: number };
+
+export type PhysicsState = {
+  ball: Ball;
+  ballActive: boolean;
+  effector: Vec;
+  goal: Rect;
+  obstacles: ObstacleState[];
+  viewport: Viewport;
+  arm: ArmState;
+  target: Vec;
+};
+
+export type ArmAction =
+  | { kind: 'delta'; dx: number; dy: number } // nudge the IK target (policy control)
+  | { kind: 'target'; x: number; y: number } // follow an absolute point (pointer control)
+  | { kind: 'rest' }; // relax to the rest pose
+
+export type SimEvent =
+  | { type: 'collision'; segment: number; speed: number }
+  | { type: 'bounce'; obstacle: string; speed: number }
+  | { type: 'goal' }
+  | { type: 'miss' }
+  | { type: 'timeout'; state: PhysicsState }; // cut short by episodeLimit, in the state it stopped in
+
+export interface StepResult {
+  state: PhysicsState;
+  events: SimEvent[];
+}
+
+export interface SimConfig {
+  arm: ArmModel;
+  ballRadius: number;
+  // x is an offset from the centre line; a moving goal oscillates like an obstacle
+  goal: { x: number; y: number; width: number; height: number; motion?: Motion };
+  obstacles: Obstacle[];
+  gravity: number; // px/frame gained per second
+  airDrag: number; // velocity kept per frame
+  restitution: number; // arm bounce along the contact normal
+  tangentialFriction: number; // share of tangential velocity kept on contact
+  wallRestitution: number;
+  ceiling: boolean;
+  armThickness: number; // added to the ball radius for arm contact
+  ikResponse: number; // share of the IK error closed per frame
+  clampTarget: boolean;
+  // 'respawn' starts the next episode immediately (training); 'park' leaves the
+  // ball at its spawn point until `launch` is called (the Home game).
+  afterEpisode: 'respawn' | 'park';
+  // Seconds a ball may stay in play before the episode ends with a timeout, so
+  // an arm that learns to hold the ball can't stall training
+  episodeLimit?: number;
+  spawn: (viewport: Viewport, random: () => number) => Omit<Ball, 'radius'>;
+  // When set, the config describes a scene laid out for the reference viewport
+  // and the sim fits it to smaller ones (see fitScene).
+  scene?: SceneScale;
+}
+
+export interface SceneScale {
+  referenceWidth: number;
+  referenceHeight: number;
+  min: number; // smallest scale factor
+}
+
+const VIEWPORT_SCALE = { referenceHeight: 800, min: 0.45, max: 1 };
+
+// The elbow limit keeps the two-link arm on its elbow-down branch.
+export const TWO_LINK_ARM: ArmModel = {
+  id: 'two-link',
+  label: '2-link',
+  links: [280, 260],
+  restPose: [Math.PI / 2, Math.PI / 4],
+  limits: [null, { min: 0, max: Math.PI }],
+  scale: VIEWPORT_SCALE,
+};
+
+export const THREE_LINK_ARM: ArmModel = {
+  id: 'three-link',
+  label: '3-link',
+  links: [220, 180, 140],
+  restPose: [Math.PI / 2, Math.PI / 6, Math.PI / 6],
+  limits: [null, { min: -2.4, max: 2.4 }, { min: -2.4, max: 2.4 }],
+  scale: VIEWPORT_SCALE,
+};
+
+export const FOUR_LINK_ARM: ArmModel = {
+  id: 'four-link',
+  label: '4-link',
+  links: [180, 150, 120, 90],
+  restPose: [Math.PI / 2, Math.PI / 8, Math.PI / 8, Math.PI / 8],
+  limits: [null, { min: -2.2, max: 2.2 }, { min: -2.2, max: 2.2 }, { min: -2.2, max: 2.2 }],
+  scale: VIEWPORT_SCALE,
+};
+
+export const ARM_MODELS = [TWO_LINK_ARM, THREE_LINK_ARM, FOUR_LINK_ARM];
+
+export const TRAINING_CONFIG: SimConfig = {
+  arm: TWO_LINK_ARM,
+  ballRadius: 28,
+  goal: { x: -100, y: 40, width: 200, height: 50 },
+  obstacles: [],
+  gravity: 22.8,
+  airDrag: 1,
+  restitution: 0.65,
+  tangentialFriction: 0.98,
+  wallRestitution: 0.85,
+  ceiling: false,
+  armThickness: 14,
+  ikResponse: 0.12,
+  clampTarget: true,
+  afterEpisode: 'respawn',
+  episodeLimit: 20,
+  spawn: ({ width, height }, random) => ({
+    x: width / 2 + 140 + (random() * 120 - 60),
+    y: Math.min(height / 2 - 40, 260),
+    vx: (random() - 0.5) * 6,
+    vy: (random() - 0.5) * 4,
+  }),
+};
+
+export const PLAY_CONFIG: SimConfig = {
+  ...TRAINING_CONFIG,
+  ballRadius: 30,
+  goal: { x: -100, y: 40, width: 200, height: 60 },
+  gravity: 13.2,
+  airDrag: 0.994,
+  restitution: 0.9,
+  wallRestitution: 0.72,
+  ceiling: true,
+  clampTarget: false,
+  afterEpisode: 'park',
+  episodeLimit: undefined,
+  spawn: ({ width, height }) => ({
+    x: width / 2 + 250,
+    y: Math.min(height / 2 - 50, 300),
+    vx: 0,
+    vy: 0,
+  }),
+};
+
+// The Home game on phones and tablets: the desktop scene, fitted to the screen
+// and anchored at the arm's base so the hero text keeps the space above it.
+export const TOUCH_PLAY_CONFIG: SimConfig = {
+  ...PLAY_CONFIG,
+  scene: { referenceWidth: 900, referenceHeight: 800, min: 0.3 },
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+const BUMPER_RESTITUTION = 1.05;
+
+// Offset (px) and velocity (px/frame) of an oscillating item at `time`.
+const oscillation = (motion: Motion | undefined, time: number) => {
+  if (!motion) return { offset: 0, speed: 0 };
+  const angle = (2 * Math.PI * time) / motion.period + (motion.phase ?? 0);
+  return {
+    offset: motion.amplitude * Math.sin(angle),
+    speed: ((motion.amplitude * 2 * Math.PI) / motion.period) * Math.cos(angle) * FIXED_DT,
+  };
+};
+
+// Applies a level's goal, spawn distribution and obstacles to a config.
+export const withLevel = (config: SimConfig, level: Level): SimConfig => ({
+  ...config,
+  goal: level.goal,
+  spawn: levelSpawn(level),
+  obstacles: level.obstacles,
+  ballRadius: level.ballRadius ?? config.ballRadius,
+});
+
+// Scale factor for a config's scene in `viewport`, or null if it doesn't scale.
+const sceneFactor = (config: SimConfig, viewport: Viewport) => {
+  if (!config.scene) return null;
+  const { referenceWidth, referenceHeight, min } = config.scene;
+  return clamp(Math.min(viewport.width / referenceWidth, viewport.height / referenceHeight), min, 1);
+};
+
+// Shrinks a scene laid out for `config.scene`'s reference viewport into
+// `viewport`. Distances from the arm's base (bottom centre) scale by one
+// factor, so the game plays the same, only smaller: ball, goal, spawn point,
+// obstacles, and gravity and spawn velocities so flight times don't change.
+// The arm's links scale with the same factor (see scaledLengths).
+export const fitScene = (config: SimConfig, viewport: Viewport): SimConfig => {
+  const k = sceneFactor(config, viewport);
+  if (k === null || !config.scene) return config;
+  const { referenceWidth, referenceHeight } = config.scene;
+  const fitY = (y: number) => viewport.height - (referenceHeight - y) * k;
+  const fitMotion = (motion?: Motion) => motion && { ...motion, amplitude: motion.amplitude * k };
+  const { goal } = config;
+
+  return {
+    ...config,
+    ballRadius: config.ballRadius * k,
+    goal: { x: goal.x * k, y: fitY(goal.y), width: goal.width * k, height: goal.height * k, motion: fitMotion(goal.motion) },
+    obstacles: config.obstacles.map((o): Obstacle =>
+      o.kind === 'bumper'
+        ? { ...o, x: o.x * k, y: fitY(o.y), radius: o.radius * k, motion: fitMotion(o.motion) }
+        : { ...o, x: o.x * k, y: fitY(o.y), width: o.width * k, height: o.height * k, motion: fitMotion(o.motion) }
+    ),
+    gravity: config.gravity * k,
+    armThickness: config.armThickness * k,
+    spawn: (_, random) => {
+      const designed = config.spawn({ width: referenceWidth, height: referenceHeight }, random);
+      return {
+        x: viewport.width / 2 + (designed.x - referenceWidth / 2) * k,
+        y: fitY(designed.y),
+        vx: designed.vx * k,
+        vy: designed.vy * k,
+      };
+    },
+  };
+};
+
+const scaledLengths = (model: ArmModel, viewport: Viewport, sceneScale: number | null = null) => {
+  if (sceneScale !== null) return model.links.map(l => l * sceneScale);
+  if (!model.scale || viewport.height <= 0) return [...model.links];
+  const { referenceHeight, min, max } = model.scale;
+  const k = clamp(viewport.height / referenceHeight, min, max);
+  return model.links.map(l => l * k);
+};
+
+export const createArmSim = (initialConfig: SimConfig, initialRandom: () => number = Math.random) => {
+  let layout = initialConfig; // as designed; `config` is fitted to the viewport
+  let config = initialConfig;
+  let random = initialRandom;
+  let time = 0; // seconds since reset, drives moving obstacles
+  let model = config.arm;
+  const viewport: Viewport = { width: 0, height: 0 };
+  let lengths = scaledLengths(model, viewport);
+  let angles = [...model.restPose];
+  let ik = { converged: true, reachable: true, error: 0 };
+  const target: Vec = { x: 0, y: 0 };
+  const ball: Ball = { x: 0, y: 0, vx: 0, vy: 0, radius: config.ballRadius };
+  const goal: Rect = { ...config.goal };
+  let ballActive = false;
+  let inPlay = 0; // seconds the current ball has been active
+
+  const base = (): Vec => ({ x: viewport.width / 2, y: viewport.height });
+
+  const spawnBall = (active: boolean) => {
+    if (viewport.width <= 0 || viewport.height <= 0) return;
+    Object.assign(ball, config.spawn(viewport, random), { radius: config.ballRadius });
+    ballActive = active;
+    inPlay = 0;
+    target.x = viewport.width / 2;
+    target.y = viewport.height / 2;
+  };
+
+  const endEpisode = () => spawnBall(config.afterEpisode === 'respawn');
+
+  const fit = () => {
+    config = fitScene(layout, viewport);
+    lengths = scaledLengths(model, viewport, sceneFactor(layout, viewport));
+  };
+
+  const placeGoal = () => {
+    const { motion, ...rect } = config.goal;
+    const { offset } = oscillation(motion, time);
+    Object.assign(goal, rect);
+    goal.x = viewport.width / 2 + rect.x + (motion?.axis === 'x' ? offset : 0);
+    goal.y = rect.y + (motion?.axis === 'y' ? offset : 0);
+  };
+
+  const obstacleStates = (): ObstacleState[] =>
+    config.obstacles.map(({ motion, ...obstacle }) => {
+      const { offset, speed } = oscillation(motion, time);
+      const horizontal = motion?.axis === 'x';
+      return {
+        ...obstacle,
+        x: viewport.width / 2 + obstacle.x + (horizontal ? offset : 0),
+        y: obstacle.y + (motion && !horizontal ? offset : 0),
+        vx: horizontal ? speed : 0,
+        vy: motion && !horizontal ? speed : 0,
+      };
+    });
+
+  const snapshot = (): PhysicsState => {
+    const joints = forwardKinematics(base(), angles, lengths);
+    return {
+      ball: { ...ball },
+      ballActive,
+      effector: { ...joints[joints.length - 1] },
+      goal: { ...goal },
+      obstacles: obstacleStates(),
+      viewport: { ...viewport },
+      arm: {
+        model: model.id,
+        base: base(),
+        angles: [...angles],
+        lengths: [...lengths],
+        limits: model.limits ?? [],
+        joints,
+        ik: { ...ik },
+      },
+      target: { ...target },
+    };
+  };
+
+  // Resolves ball contact against one moving segment using the relative
+  // velocity at the contact point, so arm motion transfers momentum.
+  const collideSegment = (a: Vec, b: Vec, va: Vec, vb: Vec, radius: number): number | null => {
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abLenSq = abx * abx + aby * aby || 1;
+    const t = clamp(((ball.x - a.x) * abx + (ball.y - a.y) * aby) / abLenSq, 0, 1);
+    const cx = a.x + abx * t;
+    const cy = a.y + aby * t;
+    const dx = ball.x - cx;
+    const dy = ball.y - cy;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist >= radius) return null;
+
+    const nx = dist === 0 ? 0 : dx / dist;
+    const ny = dist === 0 ? -1 : dy / dist;
+    const pushOut = radius - dist + 0.5;
+    ball.x += nx * pushOut;
+    ball.y += ny * pushOut;
+
+    const segVx = (1 - t) * va.x + t * vb.x;
+    const segVy = (1 - t) * va.y + t * vb.y;
+    const vN = (ball.vx - segVx) * nx + (ball.vy - segVy) * ny;
+    if (vN >= 0) return 0;
+
+    ball.vx -= (1 + config.restitution) * vN * nx;
+    ball.vy -= (1 + config.restitution) * vN * ny;
+
+    const tx = -ny;
+    const ty = nx;
+    const vT = ball.vx * tx + ball.vy * ty;
+    ball.vx -= (1 - config.tangentialFriction) * vT * tx;
+    ball.vy -= (1 - config.tangentialFriction) * vT * ty;
+    return -vN;
+  };
+
+  // Reflects the ball off a moving surface with normal (nx, ny), after pushing
+  // it `depth` px clear. Returns the closing speed, or 0 if already separating.
+  const bounce = (nx: number, ny: number, depth: number, vx: number, vy: number, restitution: number) => {
+    ball.x += nx * depth;
+    ball.y += ny * depth;
+    const vN = (ball.vx - vx) * nx + (ball.vy - vy) * ny;
+    if (vN >= 0) return 0;
+    ball.vx -= (1 + restitution) * vN * nx;
+    ball.vy -= (1 + restitution) * vN * ny;
+    return -vN;
+  };
+
+  const collideObstacle = (o: ObstacleState): number | null => {
+    const r = ball.radius;
+    if (o.kind === 'bumper') {
+      const dx = ball.x - o.x;
+      const dy = ball.y - o.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist >= r + o.radius) return null;
+      const nx = dist === 0 ? 0 : dx / dist;
+      const ny = dist === 0 ? -1 : dy / dist;
+      return bounce(nx, ny, r + o.radius - dist, o.vx, o.vy, o.restitution ?? BUMPER_RESTITUTION);
+    }
+
+    const cx = clamp(ball.x, o.x, o.x + o.width);
+    const cy = clamp(ball.y, o.y, o.y + o.height);
+    const dx = ball.x - cx;
+    const dy = ball.y - cy;
+    const distSq = dx * dx + dy * dy;
+    if (distSq >= r * r) return null;
+
+    if (distSq > 0) {
+      const dist = Math.sqrt(distSq);
+      return bounce(dx / dist, dy / dist, r - dist, o.vx, o.vy, config.wallRestitution);
+    }
+    // Centre inside the wall: leave through the nearest face
+    const faces = [
+      { nx: -1, ny: 0, depth: ball.x - o.x + r },
+      { nx: 1, ny: 0, depth: o.x + o.width - ball.x + r },
+      { nx: 0, ny: -1, depth: ball.y - o.y + r },
+      { nx: 0, ny: 1, depth: o.y + o.height - ball.y + r },
+    ];
+    const face = faces.reduce((a, b) => (b.depth < a.depth ? b : a));
+    return bounce(face.nx, face.ny, face.depth, o.vx, o.vy, config.wallRestitution);
+  };
+
+  const step = (dt: number, action: ArmAction): StepResult => {
+    time += dt;
+    if (config.goal.motion) placeGoal();
+    const events: SimEvent[] = [];
+    const frames = dt / FIXED_DT;
+    const armBase = base();
+    const before = forwardKinematics(armBase, angles, lengths);
+
+    if (action.kind === 'delta' && ballActive) {
+      target.x += action.dx * frames;
+      target.y += action.dy * frames;
+    } else if (action.kind === 'target') {
+      target.x = action.x;
+      target.y = action.y;
+    }
+    if (config.clampTarget) {
+      target.x = clamp(target.x, 0, viewport.width);
+      target.y = clamp(target.y, 0, viewport.height);
+    }
+
+    let desired = model.restPose;
+    if (action.kind === 'rest') {
+      ik = { converged: true, reachable: true, error: 0 };
+    } else {
+      const solution = solveIK(armBase, lengths, angles, target, {
+        limits: model.limits,
+        maxIterations: 16,
+        tolerance: 1,
+        restart: model.restPose,
+      });
+      desired = solution.angles;
+      ik = { converged: solution.converged, reachable: solution.reachable, error: solution.error };
+    }
+    const response = 1 - Math.pow(1 - config.ikResponse, frames);
+    for (let i = 0; i < angles.length; i++) angles[i] += (desired[i] - angles[i]) * response;
+
+    if (!ballActive) return { state: snapshot(), events };
+
+    const after = forwardKinematics(armBase, angles, lengths);
+    // Joint velocities in px/frame, matching the ball's velocity units
+    const velocities = after.map((joint, i) => ({ x: (joint.x - before[i].x) / frames, y: (joint.y - before[i].y) / frames }));
+
+    ball.vy += config.gravity * dt;
+    const drag = Math.pow(config.airDrag, frames);
+    ball.vx *= drag;
+    ball.vy *= drag;
+    ball.x += ball.vx * frames;
+    ball.y += ball.vy * frames;
+
+    const contactRadius = ball.radius + config.armThickness;
+    for (let i = 0; i < after.length - 1; i++) {
+      const speed = collideSegment(after[i], after[i + 1], velocities[i], velocities[i + 1], contactRadius);
+      if (speed !== null) events.push({ type: 'collision', segment: i, speed });
+    }
+
+    for (const obstacle of obstacleStates()) {
+      const speed = collideObstacle(obstacle);
+      if (speed !== null) events.push({ type: 'bounce', obstacle: obstacle.id, speed });
+    }
+
+    const r = ball.radius;
+    if (ball.x - r < 0) {
+      ball.x = r;
+      if (ball.vx < 0) ball.vx *= -config.wallRestitution;
+    }
+    if (ball.x + r > viewport.width) {
+      ball.x = viewport.width - r;
+      if (ball.vx > 0) ball.vx *= -config.wallRestitution;
+    }
+    if (config.ceiling && ball.y - r < 0) {
+      ball.y = r;
+      if (ball.vy < 0) ball.vy *= -config.wallRestitution;
+    }
+
+    if (ball.y + r > viewport.height) {
+      events.push({ type: 'miss' });
+      endEpisode();
+      return { state: snapshot(), events };
+    }
+
+    inPlay += dt;
+    const closestX = clamp(ball.x, goal.x, goal.x + goal.width);
+    const closestY = clamp(ball.y, goal.y, goal.y + goal.height);
+    if ((ball.x - closestX) ** 2 + (ball.y - closestY) ** 2 <= r * r) {
+      events.push({ type: 'goal' });
+      endEpisode();
+    } else if (config.episodeLimit !== undefined && inPlay >= config.episodeLimit) {
+      events.push({ type: 'timeout', state: snapshot() });
+      endEpisode();
+    }
+
+    return { state: snapshot(), events };
+  };
+
+  const resize = (width: number, height: number) => {
+    viewport.width = width;
+    viewport.height = height;
+    fit();
+    placeGoal();
+    if (config.afterEpisode === 'respawn' || !ballActive) spawnBall(config.afterEpisode === 'respawn');
+  };
+
+  return {
+    step,
+    resize,
+    state: snapshot,
+    // Returns the arm to its rest pose and starts a fresh episode (training)
+    // or re-parks the ball (game). Passing a new source of randomness makes
+    // the episodes that follow reproducible from that point.
+    reset: (nextRandom?: () => number) => {
+      if (nextRandom) random = nextRandom;
+      angles = [...model.restPose];
+      time = 0;
+      placeGoal();
+      spawnBall(config.afterEpisode === 'respawn');
+    },
+    // Loads a level's goal, spawns and obstacles and starts a fresh episode.
+    setLevel: (level: Level) => {
+      layout = withLevel(initialConfig, level);
+      fit();
+      time = 0;
+      placeGoal();
+      spawnBall(config.afterEpisode === 'respawn');
+    },
+    // Moves, resizes or sets a goal in motion without touching the ball, e.g.
+    // between levels of the Home game.
+    setGoal: (next: SimConfig['goal']) => {
+      layout = { ...layout, goal: next };
+      fit();
+      placeGoal();
+    },
+    // Swaps the arm model and returns it to its rest pose.
+    setArm: (next: ArmModel) => {
+      model = next;
+      lengths = scaledLengths(model, viewport, sceneFactor(layout, viewport));
+      angles = [...model.restPose];
+      ik = { converged: true, reachable: true, error: 0 };
+    },
+    // Releases a parked ball.
+    launch: () => {
+      ball.vx = 0;
+      ball.vy = 0;
+      ballActive = true;
+      inPlay = 0;
+    },
+  };
+};
+
+export type ArmSim = ReturnType<typeof createArmSim>;
@@ -0,0 +1,14 @@
+// Site-wide metadata shared by the app and the build-time feed generator.
+export const SITE = {
+  title: 'Ashok Timsina | Systems',
+  author: 'Ashok Timsina',
+  description: 'Applied AI and robotics: projects, experiments and writing.',
+  // Overridden by SITE_URL at build time when deploying elsewhere.
+  url: 'https://timsinashok.github.io/portfolio2.0',
+};
+
+export const FEEDS = [
+  { href: 'feed.xml', type: 'application/atom+xml', title: 'Atom feed' },
+  { href: 'rss.xml', type: 'application/rss+xml', title: 'RSS feed' },
+  { href: 'feed.json', type: 'application/feed+json', title: 'JSON feed' },
+] as const;
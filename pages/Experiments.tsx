@@ -1,481 +1,982 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { useOutletContext } from 'react-router-dom';
-import { RoboticArm, PhysicsState, SimulationControl } from '../components/RoboticArm';
-
-type Policy = 'pg' | 'ppo';
-type EpisodeResult = 'goal' | 'miss';
-type RewardPoint = { reward: number; result: EpisodeResult };
-type StepRecord = {
-  state: number[];
-  action: [number, number];
-  logProb: number;
+import { useSearchParams } from 'react-router-dom';
+import { RoboticArm } from '../components/RoboticArm';
+import { GOAL_ITEM, LevelEditor, SPAWN_ITEM } from '../components/LevelEditor';
+import { EpisodeReplay } from '../components/EpisodeReplay';
+import { ClipExport } from '../components/ClipExport';
+import { ARM_MODELS, ArmModel, PhysicsState, TWO_LINK_ARM } from '../lib/sim/physics';
+import { Level, nextObstacleId } from '../lib/sim/level';
+import {
+  DEFAULT_HYPERPARAMETERS,
+  EXPLORATIONS,
+  EpisodeResult,
+  Exploration,
+  Hyperparameters,
+  OFF_POLICIES,
+  POLICIES,
+  Policy,
+  isOffPolicy,
+} from '../lib/rl/trainer';
+import { EpisodeRecording } from '../lib/rl/recorder';
+import { CurriculumConfig, DEFAULT_CURRICULUM, StageChange, levelAtStage } from '../lib/rl/curriculum';
+import { TrainingClient, createTrainingClient } from '../lib/rl/client';
+import { EpisodeSummary, RECORDED_EPISODES, TrainingMetrics } from '../lib/rl/protocol';
+import {
+  CHECKPOINT_FORMAT,
+  CHECKPOINT_VERSION,
+  Checkpoint,
+  MAX_SHARE_LENGTH,
+  SHARE_PARAM,
+  decodeShare,
+  encodeShare,
+  parseCheckpoint,
+  serializeCheckpoint,
+} from '../lib/rl/checkpoint';
+import { deleteCheckpoint, listCheckpoints, saveCheckpoint } from '../lib/rl/checkpointStore';
+import { parseSeed, randomSeed } from '../lib/random';
+import { downloadBlob, downloadJson } from '../lib/download';
+import { CUSTOM_LEVEL_ID, DEFAULT_LEVEL, LEVELS, loadCustomLevel, saveCustomLevel } from '../lib/levels';
+import { validateLevel } from '../lib/schema';
+
+// `stage` is the curriculum stage the episode was played at; `stageChange`
+// marks the episode whose result moved the curriculum.
+type RewardPoint = {
+  episode: number;
   reward: number;
-  value: number;
+  result: EpisodeResult;
+  stage: number | null;
+  stageChange?: StageChange;
+};
+// Everything needed to replay a run: the level travels whole, since custom
+// levels only exist in the browser that made them. Hyperparameters are the
+// ones the run started with; `resumedFrom` is the checkpoint it continued.
+type RunSetup = {
+  id: number; // the worker's run id
+  seed: number;
+  arm: string;
+  level: Level;
+  curriculum: CurriculumConfig | null;
+  hyperparameters: Hyperparameters;
+  exploration: Exploration;
+  resumedFrom: { name: string; episodes: number; steps: number } | null;
 };
+// Success rate over the last CURVE_WINDOW episodes, every CURVE_EVERY episodes,
+// with the environment steps taken so far for sample-efficiency plots
+type CurvePoint = { episode: number; steps: number; rate: number };
 type PolicyResult = {
+  run: RunSetup | null;
+  stageChanges: StageChange[];
   episodes: number;
+  steps: number;
   goals: number;
-  misses: number;
+  misses: number; // every episode without a goal, timeouts included
   history: RewardPoint[];
+  curve: CurvePoint[];
 };
 
-const policyCopy: Record<Policy, { title: string; detail: string }> = {
+const policyCopy: Record<Policy, { label: string; title: string; detail: string }> = {
+  reinforce: {
+    label: 'REINFORCE',
+    title: 'REINFORCE',
+    detail: 'Single-episode updates on raw discounted returns, with no baseline. Every action in a bad episode is pushed down, so the gradient is very noisy.',
+  },
   pg: {
-    title: 'Policy Gradient (REINFORCE)',
+    label: 'REINFORCE + baseline',
+    title: 'Policy Gradient (REINFORCE with baseline)',
     detail: 'On-policy, single-episode updates. High variance but aggressive exploration — can find solutions fast or diverge.',
   },
   ppo: {
+    label: 'PPO',
     title: 'Proximal Policy Optimization',
-    detail: 'Clipped surrogate with mini-batch updates. More stable training, controlled exploration, better sample efficiency.',
+    detail: 'Clipped surrogate with mini-batch updates and a learned critic with GAE.',
+  },
+  ddpg: {
+    label: 'DDPG',
+    title: 'Deep Deterministic Policy Gradient',
+    detail: 'Off-policy: a deterministic actor follows a Q-network trained on a replay buffer, exploring with Gaussian action noise.',
+  },
+  td3: {
+    label: 'TD3',
+    title: 'Twin Delayed DDPG',
+    detail: 'DDPG with twin Q-networks (the smaller one sets the target), delayed actor updates and smoothed target actions.',
+  },
+  sac: {
+    label: 'SAC',
+    title: 'Soft Actor-Critic',
+    detail: 'Off-policy with twin Q-networks and a stochastic actor that maximises reward plus entropy.',
   },
 };
 
-// ─── Network architecture: 8 → 64 → 64 → 2 ───────────────────────────────────
-const STATE_SIZE = 8;
-const HIDDEN1 = 64;
-const HIDDEN2 = 64;
-const OUTPUT_SIZE = 2;
-const PPO_BATCH_SIZE = 8;
-const MAX_HISTORY = 30;
-
-const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
-
-const normalSample = (std: number) => {
-  const u = Math.max(Math.random(), 1e-10);
-  const v = Math.max(Math.random(), 1e-10);
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v) * std;
+// Bars and curves per policy
+const policyFill: Record<Policy, string> = {
+  reinforce: 'bg-zinc-300 dark:bg-zinc-600',
+  pg: 'bg-zinc-600 dark:bg-zinc-300',
+  ppo: 'bg-accent-500',
+  ddpg: 'bg-sky-300 dark:bg-sky-700',
+  td3: 'bg-sky-500',
+  sac: 'bg-amber-500',
+};
+const policyStroke: Record<Policy, string> = {
+  reinforce: 'stroke-zinc-300 dark:stroke-zinc-600',
+  pg: 'stroke-zinc-600 dark:stroke-zinc-300',
+  ppo: 'stroke-accent-500',
+  ddpg: 'stroke-sky-300 dark:stroke-sky-700',
+  td3: 'stroke-sky-500',
+  sac: 'stroke-amber-500',
 };
 
-const xavierInit = (fanIn: number, size: number): number[] =>
-  Array.from({ length: size }, () => (Math.random() - 0.5) * Math.sqrt(6 / fanIn));
-
-const createWeights = () => ({
-  w1: xavierInit(STATE_SIZE, HIDDEN1 * STATE_SIZE),
-  b1: new Float32Array(HIDDEN1).fill(0),
-  w2: xavierInit(HIDDEN1, HIDDEN2 * HIDDEN1),
-  b2: new Float32Array(HIDDEN2).fill(0),
-  w3: xavierInit(HIDDEN2, OUTPUT_SIZE * HIDDEN2),
-  b3: new Float32Array(OUTPUT_SIZE).fill(0),
+// The worker keeps this many recordings, so every bar can be replayed
+const MAX_HISTORY = RECORDED_EPISODES;
+const RESULTS_VERSION = 4;
+const CURVE_EVERY = 5;
+const CURVE_WINDOW = 20;
+
+// Sim seconds per second while training; Infinity trains as fast as the worker can
+const SPEEDS = [1, 2, 5, 10, 20, 50, 100, 200, Infinity];
+const speedLabel = (speed: number) => (Number.isFinite(speed) ? `${speed}x` : 'Max');
+
+const emptyResult = (run: RunSetup | null = null): PolicyResult => ({
+  run,
+  stageChanges: [],
+  episodes: 0,
+  steps: 0,
+  goals: 0,
+  misses: 0,
+  history: [],
+  curve: [],
 });
 
-const createAdamState = () => ({
-  mw1: new Float32Array(HIDDEN1 * STATE_SIZE).fill(0),
-  mb1: new Float32Array(HIDDEN1).fill(0),
-  mw2: new Float32Array(HIDDEN2 * HIDDEN1).fill(0),
-  mb2: new Float32Array(HIDDEN2).fill(0),
-  mw3: new Float32Array(OUTPUT_SIZE * HIDDEN2).fill(0),
-  mb3: new Float32Array(OUTPUT_SIZE).fill(0),
-  vw1: new Float32Array(HIDDEN1 * STATE_SIZE).fill(0),
-  vb1: new Float32Array(HIDDEN1).fill(0),
-  vw2: new Float32Array(HIDDEN2 * HIDDEN1).fill(0),
-  vb2: new Float32Array(HIDDEN2).fill(0),
-  vw3: new Float32Array(OUTPUT_SIZE * HIDDEN2).fill(0),
-  vb3: new Float32Array(OUTPUT_SIZE).fill(0),
-  t: 0,
-});
+const emptyResults = () =>
+  Object.fromEntries(POLICIES.map(policy => [policy, emptyResult()])) as Record<Policy, PolicyResult>;
 
-const BETA1 = 0.9;
-const BETA2 = 0.999;
-const EPS = 1e-8;
-
-const adamStep = (
-  weights: number[] | Float32Array,
-  grads: Float32Array,
-  m: Float32Array,
-  v: Float32Array,
-  lr: number,
-  t: number
-) => {
-  const bc1 = 1 - Math.pow(BETA1, t);
-  const bc2 = 1 - Math.pow(BETA2, t);
-  for (let i = 0; i < weights.length; i++) {
-    m[i] = BETA1 * m[i] + (1 - BETA1) * grads[i];
-    v[i] = BETA2 * v[i] + (1 - BETA2) * grads[i] * grads[i];
-    (weights as any)[i] += lr * (m[i] / bc1) / (Math.sqrt(v[i] / bc2) + EPS);
-  }
+const addEpisode = (prev: PolicyResult, { episode, result, stage, stageChange, steps: played }: EpisodeSummary): PolicyResult => {
+  const point: RewardPoint = {
+    episode,
+    reward: result === 'goal' ? 1 : -1,
+    result,
+    stage,
+    ...(stageChange && { stageChange }),
+  };
+  const history = [...prev.history, point].slice(-MAX_HISTORY);
+  const episodes = prev.episodes + 1;
+  const steps = prev.steps + played;
+  const recent = history.slice(-CURVE_WINDOW);
+  return {
+    ...prev,
+    stageChanges: stageChange ? [...prev.stageChanges, stageChange] : prev.stageChanges,
+    episodes,
+    steps,
+    goals: result === 'goal' ? prev.goals + 1 : prev.goals,
+    misses: result !== 'goal' ? prev.misses + 1 : prev.misses,
+    history,
+    curve:
+      episodes % CURVE_EVERY === 0
+        ? [...prev.curve, { episode: episodes, steps, rate: recent.filter(p => p.result === 'goal').length / recent.length }]
+        : prev.curve,
+  };
 };
 
-const emptyResult = (): PolicyResult => ({ episodes: 0, goals: 0, misses: 0, history: [] });
+const recentRate = (result: PolicyResult) => {
+  const recent = result.history.slice(-CURVE_WINDOW);
+  return recent.length > 0 ? Math.round((recent.filter(p => p.result === 'goal').length / recent.length) * 100) : 0;
+};
 
-export const Experiments: React.FC = () => {
-  const { isDark } = useOutletContext<{ isDark: boolean }>();
+const sameMetrics = (a: TrainingMetrics, b: TrainingMetrics) =>
+  a.stepsPerSecond === b.stepsPerSecond &&
+  a.realtime === b.realtime &&
+  a.updates === b.updates &&
+  a.entropy === b.entropy;
+
+const formatSteps = (steps: number) => (steps >= 1000 ? `${(steps / 1000).toFixed(steps >= 100_000 ? 0 : 1)}k` : `${steps}`);
+
+const explorationLabel: Record<Exploration, string> = { global: 'Global', state: 'Per-state' };
+
+const runLabel = (run: RunSetup) =>
+  `${ARM_MODELS.find(model => model.id === run.arm)?.label ?? run.arm} · ${run.level.name}`;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 text-xs font-mono border transition-colors disabled:opacity-50 ${
+    active
+      ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+      : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200'
+  }`;
+
+const CurriculumStatus: React.FC<{ level: Level; config: CurriculumConfig; stage: number; progress: number }> = ({
+  level,
+  config,
+  stage,
+  progress,
+}) => {
+  const staged = levelAtStage(level, config, stage);
+  return (
+    <span className="text-xs font-mono text-zinc-500">
+      Stage <span className="text-zinc-900 dark:text-zinc-100">{stage + 1}</span>/{config.stages} · {progress}/
+      {config.window} ep · goal {staged.goal.width}px · ball {staged.ballRadius}px
+    </span>
+  );
+};
 
-  const [policy, setPolicy] = useState<Policy>('pg');
-  const [isRunning, setIsRunning] = useState(false);
-  const [speed, setSpeed] = useState(1);
-  const [pgResult, setPgResult] = useState<PolicyResult>(emptyResult());
-  const [ppoResult, setPpoResult] = useState<PolicyResult>(emptyResult());
-
-  const simControlRef = useRef<SimulationControl | null>(null);
-  const trajectoryRef = useRef<StepRecord[]>([]);
-  const batchTrajRef = useRef<StepRecord[][]>([]);
-  const weightsRef = useRef(createWeights());
-  const adamRef = useRef(createAdamState());
-  const stdRef = useRef(0.5);
-  const baselineRef = useRef(0);
-  const batchEpisodesRef = useRef(0);
+const PolicyResultCard: React.FC<{ policy: Policy; result: PolicyResult }> = ({ policy, result }) => {
+  const rate = result.episodes > 0 ? Math.round((result.goals / result.episodes) * 100) : 0;
+  const hasRecent = result.history.length >= 5;
 
-  const policyRef = useRef<Policy>(policy);
-  useEffect(() => {
-    policyRef.current = policy;
-  }, [policy]);
-
-  const policyMeta = useMemo(() => policyCopy[policy], [policy]);
+  return (
+    <div className="mb-5">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs font-mono font-medium text-zinc-900 dark:text-zinc-100">{policyCopy[policy].label}</div>
+        {result.episodes > 0 && (
+          <div className="text-xs font-mono text-zinc-500">
+            {result.episodes} ep · {formatSteps(result.steps)} steps
+            {result.run && ` · seed ${result.run.seed}`}
+          </div>
+        )}
+      </div>
+      {result.episodes > 0 ? (
+        <>
+          <div className="flex gap-4 text-xs font-mono text-zinc-500 mb-2">
+            <span>Goals: {result.goals}</span>
+            <span>Rate: {rate}%</span>
+            {hasRecent && <span>Recent: {recentRate(result)}%</span>}
+          </div>
+          {result.run && <div className="text-xs font-mono text-zinc-400 mb-2">{runLabel(result.run)}</div>}
+          {result.run?.resumedFrom && (
+            <div className="text-xs font-mono text-zinc-400 mb-2">
+              From {result.run.resumedFrom.name} · +{result.run.resumedFrom.episodes} ep
+            </div>
+          )}
+          <div className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full ${policyFill[policy]} transition-all duration-300`} style={{ width: `${rate}%` }} />
+          </div>
+          {result.history.length > 0 && (
+            <div className="grid grid-cols-12 gap-[2px] items-end h-6 mt-2">
+              {Array.from({ length: 12 }).map((_, i) => {
+                const p = result.history[result.history.length - 12 + i];
+                return (
+                  <div
+                    key={i}
+                    className={`w-full ${
+                      p
+                        ? p.result === 'goal'
+                          ? policyFill[policy]
+                          : 'bg-zinc-300 dark:bg-zinc-700'
+                        : 'bg-zinc-100 dark:bg-zinc-800/50'
+                    }`}
+                    style={{ height: p ? (p.result === 'goal' ? '100%' : '30%') : '10%' }}
+                  />
+                );
+              })}
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-xs font-mono text-zinc-400">Not yet trained</div>
+      )}
+    </div>
+  );
+};
 
-  // Derive active stats from per-policy results
-  const activeResult = policy === 'pg' ? pgResult : ppoResult;
-  const episodes = activeResult.episodes;
-  const goals = activeResult.goals;
-  const misses = activeResult.misses;
-  const rewardHistory = activeResult.history;
-  const successRate = episodes > 0 ? Math.round((goals / episodes) * 100) : 0;
+// Success rate against episodes played, or against environment steps to
+// compare sample efficiency, one line per policy on a shared axis
+const LearningCurves: React.FC<{ results: Record<Policy, PolicyResult> }> = ({ results }) => {
+  const [axis, setAxis] = useState<'episode' | 'steps'>('episode');
+  const trained = POLICIES.filter(policy => results[policy].curve.length > 1);
+  if (trained.length === 0) return null;
+  const max = Math.max(...trained.map(policy => (axis === 'episode' ? results[policy].episodes : results[policy].steps)));
+  const width = 240;
+  const height = 64;
 
-  // ── Reset and begin training ──────────────────────────────────────────────
-  const startTraining = useCallback(() => {
-    // Reset only the current policy's stats
-    if (policy === 'pg') setPgResult(emptyResult());
-    else setPpoResult(emptyResult());
-
-    trajectoryRef.current = [];
-    batchTrajRef.current = [];
-    weightsRef.current = createWeights();
-    adamRef.current = createAdamState();
-    baselineRef.current = 0;
-    stdRef.current = 0.5;
-    batchEpisodesRef.current = 0;
-    setIsRunning(true);
-    simControlRef.current?.reset();
-  }, [policy]);
-
-  // ── Flush buffers on mid-run policy switch ────────────────────────────────
-  const handlePolicySwitch = useCallback(
-    (next: Policy) => {
-      if (next === policyRef.current) return;
-      setPolicy(next);
-      if (isRunning) {
-        trajectoryRef.current = [];
-        batchTrajRef.current = [];
-        batchEpisodesRef.current = 0;
-        baselineRef.current = 0;
-      }
-    },
-    [isRunning]
+  return (
+    <div className="mb-5">
+      <div className="flex items-center justify-between text-xs font-mono text-zinc-500 mb-1">
+        <span>Success rate ({CURVE_WINDOW} ep)</span>
+        <span>{axis === 'episode' ? `${max} ep` : `${formatSteps(max)} steps`}</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-16" aria-label="Learning curves">
+        <line x1={0} y1={height} x2={width} y2={height} className="stroke-zinc-200 dark:stroke-zinc-800" />
+        {trained.map(policy => (
+          <polyline
+            key={policy}
+            fill="none"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            className={policyStroke[policy]}
+            points={results[policy].curve
+              .map(point => `${(point[axis] / max) * width},${height - point.rate * height}`)
+              .join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="mt-1 flex flex-wrap items-center gap-3 text-xs font-mono text-zinc-500">
+        {trained.map(policy => (
+          <span key={policy} className="flex items-center gap-1">
+            <span className={`inline-block w-2 h-2 ${policyFill[policy]}`} />
+            {policyCopy[policy].label}
+          </span>
+        ))}
+        <button
+          onClick={() => setAxis(current => (current === 'episode' ? 'steps' : 'episode'))}
+          className="ml-auto underline decoration-dotted hover:text-zinc-900 dark:hover:text-zinc-200"
+        >
+          {axis === 'episode' ? 'Per step' : 'Per episode'}
+        </button>
+      </div>
+    </div>
   );
+};
 
-  // ── State featurisation ────────────────────────────────────────────────────
-  const buildState = (frame: PhysicsState): number[] => {
-    const { width, height } = frame.viewport;
-    const gcx = frame.goal.x + frame.goal.width / 2;
-    const gcy = frame.goal.y + frame.goal.height / 2;
-    return [
-      (frame.ball.x - width / 2) / width,
-      (frame.ball.y - height / 2) / height,
-      frame.ball.vx / 20,
-      frame.ball.vy / 20,
-      (gcx - width / 2) / width,
-      (gcy - height / 2) / height,
-      (frame.effector.x - width / 2) / width,
-      (frame.effector.y - height / 2) / height,
-    ];
+const MOTION_CYCLE = [undefined, 'x', 'y'] as const;
+
+interface LevelControlsProps {
+  level: Level;
+  levels: Level[];
+  isEditing: boolean;
+  isRunning: boolean;
+  selectedItem: string | null;
+  onPick: (level: Level) => void;
+  onToggleEditing: () => void;
+  onEdit: (level: Level) => void;
+  onSelect: (id: string | null) => void;
+}
+
+const LevelControls: React.FC<LevelControlsProps> = ({
+  level,
+  levels,
+  isEditing,
+  isRunning,
+  selectedItem,
+  onPick,
+  onToggleEditing,
+  onEdit,
+  onSelect,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const selectedObstacle = level.obstacles.find(o => o.id === selectedItem);
+
+  const addObstacle = (kind: 'wall' | 'bumper') => {
+    const id = nextObstacleId(level, kind);
+    const obstacle =
+      kind === 'wall'
+        ? { id, kind, x: -60, y: 160, width: 120, height: 14 }
+        : { id, kind, x: 0, y: 180, radius: 24 };
+    onEdit({ ...level, obstacles: [...level.obstacles, obstacle] });
+    onSelect(id);
   };
 
-  // ── Dense shaping reward ──────────────────────────────────────────────────
-  const computeStepReward = (frame: PhysicsState): number => {
-    const { width, height } = frame.viewport;
-    const dx = frame.ball.x - frame.effector.x;
-    const dy = frame.ball.y - frame.effector.y;
-    const gcx = frame.goal.x + frame.goal.width / 2;
-    const gcy = frame.goal.y + frame.goal.height / 2;
-    const distToBall = Math.sqrt(dx * dx + dy * dy);
-    const distToGoal = Math.sqrt((frame.ball.x - gcx) ** 2 + (frame.ball.y - gcy) ** 2);
-
-    // Strong reward for arm approaching ball (primary learning signal)
-    const proxBall = (-distToBall / width) * 1.0;
-
-    // Reward ball being high (closer to goal = better)
-    const heightBonus = (1 - frame.ball.y / height) * 0.3;
-
-    // Reward ball proximity to goal
-    const proxGoal = (-distToGoal / width) * 0.4;
-
-    // Velocity toward goal
-    const vToGoalX = gcx - frame.ball.x;
-    const vToGoalY = gcy - frame.ball.y;
-    const goalDist = Math.sqrt(vToGoalX * vToGoalX + vToGoalY * vToGoalY) + 1e-6;
-    const velTowardGoal = (frame.ball.vx * vToGoalX + frame.ball.vy * vToGoalY) / goalDist;
-    const velReward = clamp(velTowardGoal / 15, -0.15, 0.15);
-
-    return proxBall + heightBonus + proxGoal + velReward;
+  const cycleMotion = () => {
+    if (!selectedObstacle) return;
+    const current = MOTION_CYCLE.indexOf(selectedObstacle.motion?.axis);
+    const axis = MOTION_CYCLE[(current + 1) % MOTION_CYCLE.length];
+    onEdit({
+      ...level,
+      obstacles: level.obstacles.map(o =>
+        o.id === selectedObstacle.id ? { ...o, motion: axis ? { axis, amplitude: 120, period: 4 } : undefined } : o
+      ),
+    });
   };
 
-  // ── Forward pass: 8 → 64 → 64 → 2 ────────────────────────────────────────
-  const forward = (state: number[]) => {
-    const W = weightsRef.current;
+  const removeSelected = () => {
+    if (!selectedObstacle) return;
+    onEdit({ ...level, obstacles: level.obstacles.filter(o => o.id !== selectedObstacle.id) });
+    onSelect(null);
+  };
 
-    const h1 = new Float32Array(HIDDEN1);
-    for (let i = 0; i < HIDDEN1; i++) {
-      let s = W.b1[i];
-      for (let j = 0; j < STATE_SIZE; j++) s += state[j] * W.w1[i * STATE_SIZE + j];
-      h1[i] = Math.tanh(s);
+  const importLevel = async (file: File) => {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      const issues = validateLevel(parsed, file.name);
+      if (issues.length > 0) {
+        setImportError(issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; '));
+        return;
+      }
+      setImportError(null);
+      // Imported levels keep their name and replace the custom slot
+      onEdit({ ...(parsed as Level), id: CUSTOM_LEVEL_ID });
+    } catch {
+      setImportError(`${file.name} is not valid JSON`);
     }
+  };
 
-    const h2 = new Float32Array(HIDDEN2);
-    for (let i = 0; i < HIDDEN2; i++) {
-      let s = W.b2[i];
-      for (let j = 0; j < HIDDEN1; j++) s += h1[j] * W.w2[i * HIDDEN1 + j];
-      h2[i] = Math.tanh(s);
-    }
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-mono text-zinc-500 mr-1">Level</span>
+        {levels.map(item => (
+          <button
+            key={item.id}
+            onClick={() => onPick(item)}
+            disabled={isRunning || isEditing}
+            className={chipClass(level.id === item.id)}
+          >
+            {item.name}
+          </button>
+        ))}
+        <button onClick={onToggleEditing} className={chipClass(isEditing)}>
+          {isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
 
-    const mean: [number, number] = [0, 0];
-    for (let i = 0; i < OUTPUT_SIZE; i++) {
-      let s = W.b3[i];
-      for (let j = 0; j < HIDDEN2; j++) s += h2[j] * W.w3[i * HIDDEN2 + j];
-      mean[i] = s;
-    }
+      {isEditing && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button onClick={() => addObstacle('wall')} className={chipClass(false)}>
+            + Wall
+          </button>
+          <button onClick={() => addObstacle('bumper')} className={chipClass(false)}>
+            + Bumper
+          </button>
+          <button onClick={cycleMotion} disabled={!selectedObstacle} className={chipClass(!!selectedObstacle?.motion)}>
+            Motion: {selectedObstacle?.motion?.axis ?? 'none'}
+          </button>
+          <button
+            onClick={removeSelected}
+            disabled={!selectedObstacle}
+            className={chipClass(false)}
+          >
+            Delete
+          </button>
+          <button onClick={() => downloadJson(level, `level-${level.id}.json`)} className={chipClass(false)}>
+            Export
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={chipClass(false)}>
+            Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) void importLevel(file);
+              e.target.value = '';
+            }}
+          />
+          <div className="w-full text-xs text-zinc-500">
+            Drag items on the canvas; the corner handle resizes. Arrow keys nudge, Delete removes.
+          </div>
+          {importError && <div className="w-full text-xs text-rose-600 dark:text-rose-400">{importError}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
 
-    return { h1, h2, mean };
-  };
+type CheckpointNote = { text: string; error?: boolean };
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+interface CheckpointControlsProps {
+  defaultName: string;
+  canCapture: boolean; // a run has trained something
+  note: CheckpointNote | null;
+  onNote: (note: CheckpointNote) => void;
+  onCapture: (name: string) => Promise<Checkpoint>;
+  onLoad: (checkpoint: Checkpoint) => void; // throws if it doesn't fit this page
+}
+
+// Save to the browser, export or import a file, or copy a share link. Loading
+// any of them starts a run that continues from the checkpoint.
+const CheckpointControls: React.FC<CheckpointControlsProps> = ({
+  defaultName,
+  canCapture,
+  note,
+  onNote,
+  onCapture,
+  onLoad,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [saved, setSaved] = useState<Checkpoint[]>([]);
+  const checkpointName = name.trim() || defaultName;
+
+  const refresh = useCallback(
+    () =>
+      listCheckpoints().then(setSaved, () =>
+        onNote({ text: 'Saved checkpoints are unavailable in this browser', error: true })
+      ),
+    [onNote]
+  );
 
-  // ── Gaussian helpers ──────────────────────────────────────────────────────
-  const gaussianLogProb = (action: [number, number], mean: [number, number], std: number): number => {
-    const inv2v = 1 / (2 * std * std);
-    const dx = action[0] - mean[0];
-    const dy = action[1] - mean[1];
-    return -(dx * dx + dy * dy) * inv2v - Math.log(std * std * 2 * Math.PI);
-  };
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Each action reports its outcome in the note line
+  const attempt = (action: () => Promise<string>) =>
+    void action().then(
+      text => onNote({ text }),
+      (error: unknown) => onNote({ text: errorMessage(error), error: true })
+    );
+
+  const save = () =>
+    attempt(async () => {
+      await saveCheckpoint(await onCapture(checkpointName));
+      await refresh();
+      return `Saved ${checkpointName}`;
+    });
+
+  const exportFile = () =>
+    attempt(async () => {
+      const checkpoint = await onCapture(checkpointName);
+      const slug = checkpointName.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+      downloadBlob(new Blob([serializeCheckpoint(checkpoint)], { type: 'application/json' }), `policy-${slug}.json`);
+      return `Exported ${checkpointName}`;
+    });
+
+  const importFile = (file: File) =>
+    attempt(async () => {
+      const checkpoint = parseCheckpoint(await file.text());
+      onLoad(checkpoint);
+      return `Loaded ${checkpoint.name}`;
+    });
+
+  const share = () =>
+    attempt(async () => {
+      const encoded = await encodeShare(await onCapture(checkpointName));
+      const link = `${window.location.origin}${window.location.pathname}#/experiments?${SHARE_PARAM}=${encoded}`;
+      const size = `${Math.round(link.length / 1000)} kB`;
+      if (link.length > MAX_SHARE_LENGTH) throw new Error(`Too big for a link (${size}); export a file instead`);
+      await navigator.clipboard.writeText(link);
+      return `Link copied (${size})`;
+    });
 
-  const sampleAction = (state: number[]) => {
-    const { h1, h2, mean } = forward(state);
-    const std = stdRef.current;
-    const ax = mean[0] + normalSample(std);
-    const ay = mean[1] + normalSample(std);
-    const logProb = gaussianLogProb([ax, ay], [mean[0], mean[1]], std);
-    return { action: [ax, ay] as [number, number], logProb, h1, h2 };
-  };
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs font-mono text-zinc-500">
+        <label htmlFor="rl-checkpoint" className="mr-1">
+          Checkpoint
+        </label>
+        <input
+          id="rl-checkpoint"
+          value={name}
+          placeholder={defaultName}
+          onChange={e => setName(e.target.value)}
+          className="w-40 px-2 py-1 bg-transparent border border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-zinc-100"
+        />
+        <button onClick={save} disabled={!canCapture} className={chipClass(false)}>
+          Save
+        </button>
+        <button onClick={exportFile} disabled={!canCapture} className={chipClass(false)}>
+          Export
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={chipClass(false)}>
+          Import
+        </button>
+        <button onClick={share} disabled={!canCapture} className={chipClass(false)}>
+          Share
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
 
-  // ── Main training update ──────────────────────────────────────────────────
-  const finishEpisode = useCallback(
-    (result: EpisodeResult) => {
-      const traj = trajectoryRef.current;
-      if (traj.length === 0) return;
+      {saved.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs font-mono text-zinc-500">
+          {saved.map(checkpoint => (
+            <li key={checkpoint.name} className="flex items-center gap-3">
+              <span className="truncate text-zinc-900 dark:text-zinc-100">{checkpoint.name}</span>
+              <span className="shrink-0">
+                {policyCopy[checkpoint.trainer.policy].label} · {checkpoint.episodes} ep
+              </span>
+              <button
+                onClick={() =>
+                  attempt(async () => {
+                    onLoad(checkpoint);
+                    return `Loaded ${checkpoint.name}`;
+                  })
+                }
+                className="ml-auto hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+              >
+                Load
+              </button>
+              <button
+                onClick={() =>
+                  attempt(async () => {
+                    await deleteCheckpoint(checkpoint.name);
+                    await refresh();
+                    return `Deleted ${checkpoint.name}`;
+                  })
+                }
+                className="hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {note && (
+        <div className={`mt-2 text-xs ${note.error ? 'text-rose-600 dark:text-rose-400' : 'text-zinc-500'}`}>
+          {note.text}
+        </div>
+      )}
+    </div>
+  );
+};
 
-      // Terminal reward: strong goal bonus, mild miss penalty (misses are inevitable early)
-      traj[traj.length - 1].reward += result === 'goal' ? 5 : -0.5;
+// `policies` limits a field to the policies that use it
+const HYPERPARAMETER_FIELDS: {
+  key: keyof Hyperparameters;
+  label: string;
+  valid: (n: number) => boolean;
+  policies?: Policy[];
+}[] = [
+  { key: 'learningRate', label: 'lr', valid: n => n > 0 && n <= 0.1 },
+  { key: 'gamma', label: 'γ', valid: n => n >= 0 && n <= 1 },
+  { key: 'batchSize', label: 'batch', valid: n => Number.isInteger(n) && n >= 1 && n <= 64 },
+  {
+    key: 'epochs',
+    label: 'epochs',
+    valid: n => Number.isInteger(n) && n >= 1 && n <= 16,
+    policies: ['reinforce', 'pg', 'ppo'],
+  },
+  { key: 'lambda', label: 'λ', valid: n => n >= 0 && n <= 1, policies: ['ppo'] },
+  { key: 'entropyCoef', label: 'entropy', valid: n => n >= 0 && n <= 1, policies: ['reinforce', 'pg', 'ppo', 'sac'] },
+  { key: 'tau', label: 'τ', valid: n => n > 0 && n <= 1, policies: OFF_POLICIES },
+  { key: 'actionNoise', label: 'noise', valid: n => n >= 0 && n <= 1, policies: ['ddpg', 'td3'] },
+];
+
+// Applies while training, from the next update. Invalid drafts are flagged
+// and not applied.
+const HyperparameterField: React.FC<{
+  id: string;
+  label: string;
+  value: number;
+  valid: (n: number) => boolean;
+  onChange: (value: number) => void;
+}> = ({ id, label, value, valid, onChange }) => {
+  const [draft, setDraft] = useState(String(value));
+  const parsed = draft.trim() === '' ? NaN : Number(draft);
+  const isValid = Number.isFinite(parsed) && valid(parsed);
 
-      batchTrajRef.current.push(traj);
-      trajectoryRef.current = [];
-      batchEpisodesRef.current += 1;
+  return (
+    <>
+      <label htmlFor={id}>{label}</label>
+      <input
+        id={id}
+        inputMode="decimal"
+        value={draft}
+        onChange={e => {
+          setDraft(e.target.value);
+          const next = Number(e.target.value);
+          if (e.target.value.trim() !== '' && Number.isFinite(next) && valid(next)) onChange(next);
+        }}
+        aria-invalid={!isValid}
+        className={`w-16 px-2 py-1 bg-transparent border text-zinc-900 dark:text-zinc-100 ${
+          isValid ? 'border-zinc-200 dark:border-zinc-800' : 'border-rose-400 dark:border-rose-700'
+        }`}
+      />
+    </>
+  );
+};
 
-      const currentPolicy = policyRef.current;
+export const Experiments: React.FC = () => {
+  const [policy, setPolicy] = useState<Policy>('pg');
+  const [isRunning, setIsRunning] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [results, setResults] = useState(emptyResults);
+
+  const [arm, setArm] = useState<ArmModel>(TWO_LINK_ARM);
+  const [level, setLevel] = useState<Level>(DEFAULT_LEVEL);
+  const [customLevel, setCustomLevel] = useState<Level | null>(() => loadCustomLevel());
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState(() => String(randomSeed()));
+  const seed = parseSeed(seedInput);
+  const [useCurriculum, setUseCurriculum] = useState(false);
+  const [exploration, setExploration] = useState<Exploration>('global');
+  const [stage, setStage] = useState<{ stage: number; progress: number } | null>(null);
+  const [hyperparameters, setHyperparameters] = useState(DEFAULT_HYPERPARAMETERS);
+  const [metrics, setMetrics] = useState<TrainingMetrics | null>(null);
+  const [learning, setLearning] = useState(true);
+  const [pendingResume, setPendingResume] = useState<Checkpoint | null>(null);
+  const [checkpointNote, setCheckpointNote] = useState<CheckpointNote | null>(null);
+  const [loads, setLoads] = useState(0); // remounts the hyperparameter fields with loaded values
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sharedPolicy = searchParams.get(SHARE_PARAM);
+
+  // The environment and the trainer live in a worker; see lib/rl/worker.ts
+  const [client, setClient] = useState<TrainingClient | null>(null);
+  const runRef = useRef<RunSetup | null>(null);
+  const runIdRef = useRef(0);
+  const liveRef = useRef<{ episode: number; reward: number } | null>(null);
+  const replayFrameRef = useRef<PhysicsState | null>(null);
+  const [replay, setReplay] = useState<EpisodeRecording | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-      // PPO waits for a full mini-batch
-      if (currentPolicy === 'ppo' && batchEpisodesRef.current < PPO_BATCH_SIZE) return;
+  const policyRef = useRef<Policy>(policy);
+  useEffect(() => {
+    policyRef.current = policy;
+  }, [policy]);
 
-      const trainBatch = currentPolicy === 'ppo' ? batchTrajRef.current : [traj];
-      const gamma = 0.99;
+  const policyMeta = useMemo(() => policyCopy[policy], [policy]);
+  const activeHyperparameters = hyperparameters[policy];
 
-      // ── Discounted returns ───────────────────────────────────────────────
-      const returnsPerTraj: number[][] = [];
-      const allReturns: number[] = [];
-      let totalSteps = 0;
+  useEffect(() => {
+    const next = createTrainingClient();
+    setClient(next);
+    return () => next.terminate();
+  }, []);
 
-      for (const t of trainBatch) {
-        const returns: number[] = new Array(t.length);
-        let G = 0;
-        for (let i = t.length - 1; i >= 0; i--) {
-          G = t[i].reward + gamma * G;
-          returns[i] = G;
+  // Episodes arrive in batches, each tagged with its policy. Batches from a
+  // run that has since been restarted are dropped.
+  useEffect(() => {
+    if (!client) return;
+    return client.subscribe(event => {
+      if (event.type === 'frame') {
+        liveRef.current = event.live;
+        setMetrics(prev => (prev && sameMetrics(prev, event.metrics) ? prev : event.metrics));
+      } else if (event.type === 'episodes' && event.run === runIdRef.current) {
+        for (const item of POLICIES) {
+          const played = event.episodes.filter(episode => episode.policy === item);
+          if (played.length > 0) setResults(prev => ({ ...prev, [item]: played.reduce(addEpisode, prev[item]) }));
         }
-        returnsPerTraj.push(returns);
-        allReturns.push(...returns);
-        totalSteps += t.length;
+        if (event.stage) setStage(event.stage);
+      } else if (event.type === 'error' && event.run === runIdRef.current) {
+        setIsRunning(false);
+        setCheckpointNote({ text: `Couldn't start the run: ${event.message}`, error: true });
       }
+    });
+  }, [client]);
 
-      // ── Update running baseline ─────────────────────────────────────────
-      const batchMean = allReturns.reduce((a, b) => a + b, 0) / Math.max(1, allReturns.length);
-      baselineRef.current = 0.9 * baselineRef.current + 0.1 * batchMean;
+  useEffect(() => {
+    client?.send({ type: 'set', settings: { speed } });
+  }, [client, speed]);
 
-      // ── Advantage normalisation ─────────────────────────────────────────
-      const rawAdvs = allReturns.map(r => r - baselineRef.current);
-      const advMu = rawAdvs.reduce((a, b) => a + b, 0) / Math.max(1, rawAdvs.length);
-      const advSig =
-        Math.sqrt(rawAdvs.reduce((a, b) => a + (b - advMu) ** 2, 0) / Math.max(1, rawAdvs.length)) + 1e-8;
+  // Replays and the level editor freeze the scene; training picks up again after
+  useEffect(() => {
+    client?.send({ type: 'set', settings: { paused: isEditing || replay !== null } });
+  }, [client, isEditing, replay]);
 
-      let advPtr = 0;
-      const normAdvsPerTraj: number[][] = returnsPerTraj.map(returns =>
-        returns.map(() => (rawAdvs[advPtr++] - advMu) / advSig)
-      );
+  // A switch mid-run drops the experience buffered under the old policy
+  useEffect(() => {
+    client?.send({ type: 'set', settings: { policy, hyperparameters: activeHyperparameters } });
+  }, [client, policy, activeHyperparameters]);
 
-      // ── Hypers ─────────────────────────────────────────────────────────
-      const lr = currentPolicy === 'ppo' ? 3e-4 : 1e-3;
-      const clip = 0.2;
-      const epochs = currentPolicy === 'ppo' ? 4 : 1;
-      const std = stdRef.current;
-      const invVar = 1 / (std * std);
-
-      const W = weightsRef.current;
-      const opt = adamRef.current;
-
-      for (let epoch = 0; epoch < epochs; epoch++) {
-        const gw1 = new Float32Array(HIDDEN1 * STATE_SIZE);
-        const gb1 = new Float32Array(HIDDEN1);
-        const gw2 = new Float32Array(HIDDEN2 * HIDDEN1);
-        const gb2 = new Float32Array(HIDDEN2);
-        const gw3 = new Float32Array(OUTPUT_SIZE * HIDDEN2);
-        const gb3 = new Float32Array(OUTPUT_SIZE);
-
-        for (let tIdx = 0; tIdx < trainBatch.length; tIdx++) {
-          const steps = trainBatch[tIdx];
-          const normAdvs = normAdvsPerTraj[tIdx];
-
-          for (let i = 0; i < steps.length; i++) {
-            const adv = normAdvs[i];
-            const state = steps[i].state;
-            const action = steps[i].action;
-            const oldLogP = steps[i].logProb;
-
-            const { h1, h2, mean } = forward(state);
-
-            const newLogP = gaussianLogProb(action, [mean[0], mean[1]], std);
-            const ratio = Math.exp(newLogP - oldLogP);
-
-            let gradScale: number;
-            if (currentPolicy === 'ppo') {
-              const clippedRatio = clamp(ratio, 1 - clip, 1 + clip);
-              const useUnclipped = adv >= 0 ? ratio <= clippedRatio : ratio >= clippedRatio;
-              if (!useUnclipped) continue; // clipped → zero gradient
-              gradScale = ratio;
-            } else {
-              // REINFORCE: on-policy, no importance sampling
-              gradScale = 1;
-            }
-
-            const dMean: [number, number] = [
-              gradScale * adv * (action[0] - mean[0]) * invVar,
-              gradScale * adv * (action[1] - mean[1]) * invVar,
-            ];
-
-            // ── Backprop: output layer ──────────────────────────────────
-            for (let out = 0; out < OUTPUT_SIZE; out++) {
-              gb3[out] += dMean[out];
-              for (let j = 0; j < HIDDEN2; j++) {
-                gw3[out * HIDDEN2 + j] += dMean[out] * h2[j];
-              }
-            }
-
-            // ── Backprop: hidden layer 2 ─────────────────────────────────
-            for (let j = 0; j < HIDDEN2; j++) {
-              let dh2 = 0;
-              for (let out = 0; out < OUTPUT_SIZE; out++) {
-                dh2 += dMean[out] * W.w3[out * HIDDEN2 + j];
-              }
-              dh2 *= 1 - h2[j] * h2[j]; // tanh'
-
-              gb2[j] += dh2;
-              for (let k = 0; k < HIDDEN1; k++) {
-                gw2[j * HIDDEN1 + k] += dh2 * h1[k];
-              }
-
-              // ── Backprop: hidden layer 1 ───────────────────────────────
-              for (let k = 0; k < HIDDEN1; k++) {
-                const dh1 = dh2 * W.w2[j * HIDDEN1 + k] * (1 - h1[k] * h1[k]);
-                gb1[k] += dh1;
-                for (let s = 0; s < STATE_SIZE; s++) {
-                  gw1[k * STATE_SIZE + s] += dh1 * state[s];
-                }
-              }
-            }
-          }
-        }
+  // Off, the policy only acts, e.g. to watch a loaded checkpoint
+  useEffect(() => {
+    client?.send({ type: 'set', settings: { learning } });
+  }, [client, learning]);
 
-        // ── Average gradients by number of steps (critical fix) ──────────
-        const invN = 1 / Math.max(1, totalSteps);
-        for (let i = 0; i < gw1.length; i++) gw1[i] *= invN;
-        for (let i = 0; i < gb1.length; i++) gb1[i] *= invN;
-        for (let i = 0; i < gw2.length; i++) gw2[i] *= invN;
-        for (let i = 0; i < gb2.length; i++) gb2[i] *= invN;
-        for (let i = 0; i < gw3.length; i++) gw3[i] *= invN;
-        for (let i = 0; i < gb3.length; i++) gb3[i] *= invN;
-
-        opt.t += 1;
-        adamStep(W.w1, gw1, opt.mw1, opt.vw1, lr, opt.t);
-        adamStep(W.b1, gb1, opt.mb1, opt.vb1, lr, opt.t);
-        adamStep(W.w2, gw2, opt.mw2, opt.vw2, lr, opt.t);
-        adamStep(W.b2, gb2, opt.mb2, opt.vb2, lr, opt.t);
-        adamStep(W.w3, gw3, opt.mw3, opt.vw3, lr, opt.t);
-        adamStep(W.b3, gb3, opt.mb3, opt.vb3, lr, opt.t);
-      }
+  // Derive active stats from per-policy results
+  const activeResult = results[policy];
+  const episodes = activeResult.episodes;
+  const goals = activeResult.goals;
+  const misses = activeResult.misses;
+  const rewardHistory = activeResult.history;
+  const successRate = episodes > 0 ? Math.round((goals / episodes) * 100) : 0;
 
-      batchTrajRef.current = [];
-      batchEpisodesRef.current = 0;
+  // ── Reset and begin training ──────────────────────────────────────────────
+  // With a checkpoint, the run continues from its networks instead of fresh ones
+  const startTraining = useCallback((resume?: Checkpoint) => {
+    if (seed === null || !client) return;
 
-      // Exploration decay
-      stdRef.current = Math.max(0.08, stdRef.current * (currentPolicy === 'ppo' ? 0.9995 : 0.997));
-    },
-    []
-  );
+    // Reset only the current policy's stats
+    runIdRef.current += 1;
+    const run: RunSetup = {
+      id: runIdRef.current,
+      seed,
+      arm: arm.id,
+      level,
+      curriculum: useCurriculum ? DEFAULT_CURRICULUM : null,
+      hyperparameters: activeHyperparameters,
+      exploration,
+      resumedFrom: resume ? { name: resume.name, episodes: resume.episodes, steps: resume.steps } : null,
+    };
+    setResults(prev => ({ ...prev, [policy]: emptyResult(run) }));
+    runRef.current = run;
+    setStage(run.curriculum ? { stage: 0, progress: 0 } : null);
+    setReplay(null);
+
+    client.send({
+      type: 'start',
+      run: {
+        id: run.id,
+        seed,
+        policy,
+        level,
+        curriculum: run.curriculum,
+        hyperparameters: run.hyperparameters,
+        exploration,
+        resume: resume?.trainer ?? null,
+      },
+    });
+    setIsRunning(true);
+  }, [activeHyperparameters, arm, client, exploration, level, policy, seed, useCurriculum]);
+
+  // Mid-run the worker carries on with the new policy, so its results belong
+  // to the running setup. Crossing between on- and off-policy starts fresh
+  // networks, which no longer continue a checkpoint.
+  const switchPolicy = (next: Policy) => {
+    setPolicy(next);
+    const run = runRef.current;
+    if (!isRunning || !run || next === policy) return;
+    const fresh = isOffPolicy(next) !== isOffPolicy(policy);
+    const setup = { ...run, hyperparameters: hyperparameters[next], resumedFrom: fresh ? null : run.resumedFrom };
+    // Switching back within the run keeps what that policy has played so far
+    setResults(prev => (prev[next].run?.id === run.id ? prev : { ...prev, [next]: emptyResult(setup) }));
+  };
 
-  const handleEpisodeEnd = useCallback(
-    (result: EpisodeResult) => {
-      if (!isRunning) return;
-      const reward = result === 'goal' ? 1 : -1;
-      const point: RewardPoint = { reward, result };
-
-      // Update the appropriate policy's results
-      const setter = policyRef.current === 'pg' ? setPgResult : setPpoResult;
-      setter(prev => ({
-        episodes: prev.episodes + 1,
-        goals: result === 'goal' ? prev.goals + 1 : prev.goals,
-        misses: result === 'miss' ? prev.misses + 1 : prev.misses,
-        history: [...prev.history, point].slice(-MAX_HISTORY),
-      }));
-
-      finishEpisode(result);
-    },
-    [finishEpisode, isRunning]
-  );
+  const stopTraining = useCallback(() => {
+    setIsRunning(false);
+    client?.send({ type: 'stop' });
+  }, [client]);
+
+  // ── Checkpoints ───────────────────────────────────────────────────────────
+  // The trainer's state with the run it came from. Episode and step counts
+  // carry on from the checkpoint the run resumed, if any.
+  const captureCheckpoint = async (name: string): Promise<Checkpoint> => {
+    const run = runRef.current;
+    const trainer = client && run ? await client.snapshot() : null;
+    if (!run || !trainer) throw new Error('Train a policy first');
+    const result = results[trainer.policy];
+    return {
+      format: CHECKPOINT_FORMAT,
+      version: CHECKPOINT_VERSION,
+      name,
+      savedAt: new Date().toISOString(),
+      arm: run.arm,
+      level: run.level,
+      seed: run.seed,
+      episodes: (run.resumedFrom?.episodes ?? 0) + result.episodes,
+      steps: (run.resumedFrom?.steps ?? 0) + result.steps,
+      hyperparameters: hyperparameters[trainer.policy],
+      trainer,
+    };
+  };
 
-  const onGetAction = useCallback(
-    (frame: PhysicsState) => {
-      const rlState = buildState(frame);
-      const { action, logProb } = sampleAction(rlState);
-      const stepReward = computeStepReward(frame);
-
-      trajectoryRef.current.push({
-        state: rlState,
-        action,
-        logProb,
-        reward: stepReward,
-        value: 0,
+  // Puts the page in the checkpoint's setup; the run starts once that has
+  // reached the worker (see the effect below). The curriculum toggle isn't
+  // part of a checkpoint and stays as the user set it.
+  const loadCheckpoint = (checkpoint: Checkpoint) => {
+    const model = ARM_MODELS.find(item => item.id === checkpoint.arm)!; // checked by validateCheckpoint
+    const loaded = checkpoint.trainer.policy;
+    setIsEditing(false);
+    setSelectedItem(null);
+    setReplay(null);
+    setArm(model);
+    setLevel(checkpoint.level);
+    setPolicy(loaded);
+    setSeedInput(String(checkpoint.seed));
+    setExploration(checkpoint.trainer.exploration);
+    setHyperparameters(prev => ({ ...prev, [loaded]: checkpoint.hyperparameters }));
+    setLoads(count => count + 1);
+    setPendingResume(checkpoint);
+  };
+
+  // RoboticArm's effects run before this page's, so the worker already has
+  // the checkpoint's arm and level when the run starts
+  useEffect(() => {
+    if (!pendingResume) return;
+    setPendingResume(null);
+    startTraining(pendingResume);
+  }, [pendingResume, startTraining]);
+
+  // Share links (#/experiments?policy=…) play the policy once the worker is
+  // up, with learning off. The link is then dropped from the URL, so a reload
+  // doesn't replace what the user has done since.
+  useEffect(() => {
+    if (!client || !sharedPolicy) return;
+    let cancelled = false;
+    const consume = () =>
+      setSearchParams(
+        params => {
+          params.delete(SHARE_PARAM);
+          return params;
+        },
+        { replace: true }
+      );
+    decodeShare(sharedPolicy)
+      .then(checkpoint => {
+        if (cancelled) return;
+        setLearning(false);
+        loadCheckpoint(checkpoint);
+        setCheckpointNote({ text: `Playing shared policy ${checkpoint.name}` });
+        consume();
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setCheckpointNote({ text: errorMessage(error), error: true });
+        consume();
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, sharedPolicy]);
+
+  // ── Levels ────────────────────────────────────────────────────────────────
+  const levels = customLevel ? [...LEVELS, customLevel] : LEVELS;
+
+  const toggleEditing = () => {
+    stopTraining();
+    setReplay(null);
+    setSelectedItem(null);
+    setIsEditing(editing => !editing);
+  };
 
-      return { dx: Math.tanh(action[0]) * 15, dy: Math.tanh(action[1]) * 15 };
-    },
-    []
-  );
+  // Any edit turns the level into the custom one, which is kept in storage.
+  const editLevel = (next: Level) => {
+    const custom: Level = {
+      ...next,
+      id: CUSTOM_LEVEL_ID,
+      name: next.id === CUSTOM_LEVEL_ID ? next.name : `${next.name} (edited)`,
+    };
+    setCustomLevel(custom);
+    saveCustomLevel(custom);
+    setLevel(custom);
+  };
+
+  const editHyperparameter = (key: keyof Hyperparameters, value: number) =>
+    setHyperparameters(prev => ({ ...prev, [policy]: { ...prev[policy], [key]: value } }));
+
+  // Recordings stay in the worker until a bar asks for one
+  const openReplay = (point: RewardPoint) => {
+    if (!client || isEditing) return;
+    void client.recording(policy, point.episode).then(recording => {
+      if (recording) setReplay(recording);
+    });
+  };
+
+  // Live clips label each frame with the episode being played and its return
+  const clipOverlay = useCallback(() => {
+    const label = policyCopy[policyRef.current].label;
+    const live = liveRef.current;
+    if (!live) return [label];
+    return [`${label} · Ep ${live.episode.toString().padStart(3, '0')}`, `return ${live.reward.toFixed(2)}`];
+  }, []);
+
+  // The viewport is part of the environment, so it's recorded alongside the seed.
+  const exportResults = () => {
+    const seedLabel = POLICIES.map(item => results[item].run?.seed).find(s => s !== undefined) ?? 'untrained';
+    downloadJson(
+      {
+        version: RESULTS_VERSION,
+        exportedAt: new Date().toISOString(),
+        viewport: { width: window.innerWidth, height: window.innerHeight },
+        results,
+      },
+      `rl-results-${seedLabel}.json`
+    );
+  };
 
   // ── Comparison stats ────────────────────────────────────────────────────
-  const pgRate = pgResult.episodes > 0 ? Math.round((pgResult.goals / pgResult.episodes) * 100) : 0;
-  const ppoRate = ppoResult.episodes > 0 ? Math.round((ppoResult.goals / ppoResult.episodes) * 100) : 0;
-
-  const pgRecent = pgResult.history.slice(-20);
-  const ppoRecent = ppoResult.history.slice(-20);
-  const pgRecentRate = pgRecent.length >= 5
-    ? Math.round((pgRecent.filter(p => p.result === 'goal').length / pgRecent.length) * 100)
-    : pgRate;
-  const ppoRecentRate = ppoRecent.length >= 5
-    ? Math.round((ppoRecent.filter(p => p.result === 'goal').length / ppoRecent.length) * 100)
-    : ppoRate;
-
-  const hasBothResults = pgResult.episodes > 0 && ppoResult.episodes > 0;
-
-  let verdict = '';
-  if (hasBothResults) {
-    const diff = ppoRecentRate - pgRecentRate;
-    if (diff > 5) verdict = `PPO leads by ${diff}pp (recent)`;
-    else if (diff < -5) verdict = `PG leads by ${-diff}pp (recent)`;
-    else verdict = 'Roughly tied (recent)';
+  const trained = POLICIES.filter(item => results[item].episodes > 0);
+  const ranked = [...trained].sort((a, b) => recentRate(results[b]) - recentRate(results[a]));
+
+  let verdict = 'Train two or more policies to compare';
+  if (ranked.length >= 2) {
+    const diff = recentRate(results[ranked[0]]) - recentRate(results[ranked[1]]);
+    verdict = diff > 5 ? `${policyCopy[ranked[0]].label} leads by ${diff}pp (recent)` : 'Roughly tied (recent)';
   }
 
   // ─── Render ───────────────────────────────────────────────────────────────
@@ -486,7 +987,7 @@ export const Experiments: React.FC = () => {
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
-          className="border border-zinc-200 dark:border-zinc-800 bg-white/75 dark:bg-zinc-900/70 backdrop-blur-sm p-6 md:p-8 shadow-sm"
+          className="border border-zinc-200 dark:border-zinc-800 bg-white/75 dark:bg-zinc-900/70 backdrop-blur-sm p-6 md:p-8 shadow-sm max-h-[calc(100vh-7rem)] overflow-y-auto"
         >
           <div className="flex items-center justify-between gap-6">
             <div>
@@ -501,28 +1002,92 @@ export const Experiments: React.FC = () => {
           </div>
 
           <p className="mt-4 text-zinc-600 dark:text-zinc-400">
-            Train Policy Gradient and PPO side by side. Compare stability and convergence speed in a continuous-control task.
+            Train on-policy (REINFORCE, REINFORCE with a baseline, PPO) and off-policy (DDPG, TD3, SAC) methods side by side. Compare stability, convergence speed and sample efficiency in a continuous-control task.
           </p>
 
           <div className="mt-6 flex flex-wrap gap-2">
-            {(['pg', 'ppo'] as Policy[]).map(item => (
+            {POLICIES.map(item => (
               <button
                 key={item}
-                onClick={() => handlePolicySwitch(item)}
+                onClick={() => switchPolicy(item)}
                 className={`px-4 py-2 text-sm font-mono border transition-colors ${
                   policy === item
                     ? 'border-accent-500 text-accent-600 dark:text-accent-500'
                     : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200'
                 }`}
               >
-                {item === 'pg' ? 'Policy Gradient' : 'PPO'}
+                {policyCopy[item].label}
               </button>
             ))}
           </div>
 
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-zinc-500 mr-1">Arm</span>
+            {ARM_MODELS.map(model => (
+              <button
+                key={model.id}
+                onClick={() => setArm(model)}
+                disabled={isRunning}
+                className={chipClass(arm.id === model.id)}
+              >
+                {model.label}
+              </button>
+            ))}
+          </div>
+
+          <LevelControls
+            level={level}
+            levels={levels}
+            isEditing={isEditing}
+            isRunning={isRunning}
+            selectedItem={selectedItem}
+            onPick={setLevel}
+            onToggleEditing={toggleEditing}
+            onEdit={editLevel}
+            onSelect={setSelectedItem}
+          />
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-zinc-500 mr-1">Curriculum</span>
+            <button
+              onClick={() => setUseCurriculum(on => !on)}
+              disabled={isRunning}
+              aria-pressed={useCurriculum}
+              className={chipClass(useCurriculum)}
+            >
+              {useCurriculum ? 'On' : 'Off'}
+            </button>
+            {useCurriculum && stage && runRef.current?.curriculum && (
+              <CurriculumStatus level={level} config={runRef.current.curriculum} {...stage} />
+            )}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-zinc-500 mr-1">Exploration</span>
+            {EXPLORATIONS.map(item => (
+              <button
+                key={item}
+                onClick={() => setExploration(item)}
+                disabled={isRunning}
+                aria-pressed={exploration === item}
+                className={chipClass(exploration === item)}
+              >
+                {explorationLabel[item]}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-zinc-500 mr-1">Learning</span>
+            <button onClick={() => setLearning(on => !on)} aria-pressed={learning} className={chipClass(learning)}>
+              {learning ? 'On' : 'Off'}
+            </button>
+          </div>
+
           <div className="mt-5 flex items-center gap-3">
             <button
-              onClick={() => (isRunning ? setIsRunning(false) : startTraining())}
+              onClick={() => (isRunning ? stopTraining() : startTraining())}
+              disabled={!isRunning && (seed === null || isEditing || !client)}
               className={`px-4 py-2 text-sm font-mono border transition-colors ${
                 isRunning
                   ? 'border-accent-500 text-accent-600 dark:text-accent-500'
@@ -534,6 +1099,66 @@ export const Experiments: React.FC = () => {
             <div className="text-xs text-zinc-500">{policyMeta.title}</div>
           </div>
 
+          <div className="mt-4 flex items-center gap-3 text-xs font-mono text-zinc-500">
+            <label htmlFor="rl-seed">Seed</label>
+            <input
+              id="rl-seed"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={e => setSeedInput(e.target.value)}
+              disabled={isRunning}
+              aria-invalid={seed === null}
+              className={`w-32 px-2 py-1 bg-transparent border text-zinc-900 dark:text-zinc-100 disabled:opacity-60 ${
+                seed === null ? 'border-rose-400 dark:border-rose-700' : 'border-zinc-200 dark:border-zinc-800'
+              }`}
+            />
+            <button
+              onClick={() => setSeedInput(String(randomSeed()))}
+              disabled={isRunning}
+              className="hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors disabled:opacity-40"
+            >
+              Randomize
+            </button>
+            <button
+              onClick={exportResults}
+              disabled={trained.length === 0}
+              className="ml-auto hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors disabled:opacity-40"
+            >
+              Export
+            </button>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-xs font-mono text-zinc-500">
+            {HYPERPARAMETER_FIELDS.filter(field => !field.policies || field.policies.includes(policy)).map(field => (
+              <HyperparameterField
+                key={`${policy}-${field.key}-${loads}`}
+                id={`rl-${field.key}`}
+                label={field.label}
+                value={activeHyperparameters[field.key]}
+                valid={field.valid}
+                onChange={value => editHyperparameter(field.key, value)}
+              />
+            ))}
+          </div>
+
+          <CheckpointControls
+            defaultName={`${policyCopy[policy].label} ${seedInput}`}
+            canCapture={trained.length > 0}
+            note={checkpointNote}
+            onNote={setCheckpointNote}
+            onCapture={captureCheckpoint}
+            onLoad={loadCheckpoint}
+          />
+
+          <div className="mt-4">
+            <ClipExport
+              name={`rl-${policy}-${activeResult.run?.seed ?? 'untrained'}`}
+              canvasRef={canvasRef}
+              overlay={clipOverlay}
+              recording={replay}
+            />
+          </div>
+
           <div className="mt-4 text-sm text-zinc-600 dark:text-zinc-400">{policyMeta.detail}</div>
 
           <div className="mt-6 grid grid-cols-3 gap-4 text-xs font-mono text-zinc-500">
@@ -562,22 +1187,55 @@ export const Experiments: React.FC = () => {
                     ? 'bg-accent-500'
                     : 'bg-zinc-400 dark:bg-zinc-600'
                   : 'bg-zinc-200 dark:bg-zinc-800';
-                return <div key={index} className={`w-full ${color}`} style={{ height }} />;
+                const change = point?.stageChange;
+                const canReplay = !!point && !isEditing;
+                const isReplaying = !!point && replay?.episode === point.episode;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => point && openReplay(point)}
+                    disabled={!canReplay}
+                    aria-label={point ? `Replay episode ${point.episode} (${point.result})` : 'No episode yet'}
+                    className="relative h-full flex items-end enabled:cursor-pointer enabled:hover:opacity-70 transition-opacity"
+                  >
+                    <div
+                      className={`w-full ${color} ${isReplaying ? 'ring-2 ring-zinc-900 dark:ring-zinc-100' : ''}`}
+                      style={{ height }}
+                    />
+                    {change && (
+                      <span
+                        title={`Stage ${change.from + 1} → ${change.to + 1}`}
+                        className="absolute inset-y-0 -right-[3px] w-0.5 bg-zinc-900 dark:bg-zinc-100"
+                      />
+                    )}
+                  </button>
+                );
               })}
             </div>
+            <div className="mt-1 text-xs font-mono text-zinc-500">
+              Click a bar to replay it
+              {rewardHistory.some(point => point.stageChange) && ' · | curriculum stage change'}
+            </div>
           </div>
 
           <div className="mt-5">
-            <div className="text-xs font-mono text-zinc-500 mb-2">Simulation Speed: {speed}x</div>
+            <div className="text-xs font-mono text-zinc-500 mb-2">Simulation Speed: {speedLabel(speed)}</div>
             <input
               type="range"
-              min="1"
-              max="40"
+              min="0"
+              max={SPEEDS.length - 1}
               step="1"
-              value={speed}
-              onChange={e => setSpeed(Number(e.target.value))}
+              value={SPEEDS.indexOf(speed)}
+              onChange={e => setSpeed(SPEEDS[Number(e.target.value)])}
+              aria-valuetext={speedLabel(speed)}
               className="w-full accent-accent-500"
             />
+            {isRunning && metrics && (
+              <div className="mt-1 text-xs font-mono text-zinc-500">
+                {metrics.stepsPerSecond} steps/s · {metrics.realtime.toFixed(1)}× real time · {metrics.updates} updates
+                {metrics.entropy !== null && ` · entropy ${metrics.entropy.toFixed(2)} nats`}
+              </div>
+            )}
           </div>
         </motion.div>
       </div>
@@ -588,125 +1246,36 @@ export const Experiments: React.FC = () => {
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
-          className="border border-zinc-200 dark:border-zinc-800 bg-white/75 dark:bg-zinc-900/70 backdrop-blur-sm p-6 shadow-sm"
+          className="border border-zinc-200 dark:border-zinc-800 bg-white/75 dark:bg-zinc-900/70 backdrop-blur-sm p-6 shadow-sm max-h-[calc(100vh-7rem)] overflow-y-auto"
         >
           <div className="text-sm font-mono text-zinc-500 mb-5">Results</div>
 
-          {/* PG results */}
-          <div className="mb-5">
-            <div className="flex items-center justify-between mb-2">
-              <div className="text-xs font-mono font-medium text-zinc-900 dark:text-zinc-100">Policy Gradient</div>
-              {pgResult.episodes > 0 && (
-                <div className="text-xs font-mono text-zinc-500">{pgResult.episodes} ep</div>
-              )}
-            </div>
-            {pgResult.episodes > 0 ? (
-              <>
-                <div className="flex gap-4 text-xs font-mono text-zinc-500 mb-2">
-                  <span>Goals: {pgResult.goals}</span>
-                  <span>Rate: {pgRate}%</span>
-                  {pgRecent.length >= 5 && <span>Recent: {pgRecentRate}%</span>}
-                </div>
-                <div className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
-                  <div
-                    className="h-full bg-zinc-500 dark:bg-zinc-400 transition-all duration-300"
-                    style={{ width: `${pgRate}%` }}
-                  />
-                </div>
-                {pgResult.history.length > 0 && (
-                  <div className="grid grid-cols-12 gap-[2px] items-end h-6 mt-2">
-                    {Array.from({ length: 12 }).map((_, i) => {
-                      const p = pgResult.history[pgResult.history.length - 12 + i];
-                      return (
-                        <div
-                          key={i}
-                          className={`w-full ${
-                            p
-                              ? p.result === 'goal'
-                                ? 'bg-zinc-600 dark:bg-zinc-300'
-                                : 'bg-zinc-300 dark:bg-zinc-700'
-                              : 'bg-zinc-100 dark:bg-zinc-800/50'
-                          }`}
-                          style={{ height: p ? (p.result === 'goal' ? '100%' : '30%') : '10%' }}
-                        />
-                      );
-                    })}
-                  </div>
-                )}
-              </>
-            ) : (
-              <div className="text-xs font-mono text-zinc-400">Not yet trained</div>
-            )}
-          </div>
+          <LearningCurves results={results} />
 
-          {/* PPO results */}
-          <div className="mb-5">
-            <div className="flex items-center justify-between mb-2">
-              <div className="text-xs font-mono font-medium text-zinc-900 dark:text-zinc-100">PPO</div>
-              {ppoResult.episodes > 0 && (
-                <div className="text-xs font-mono text-zinc-500">{ppoResult.episodes} ep</div>
-              )}
-            </div>
-            {ppoResult.episodes > 0 ? (
-              <>
-                <div className="flex gap-4 text-xs font-mono text-zinc-500 mb-2">
-                  <span>Goals: {ppoResult.goals}</span>
-                  <span>Rate: {ppoRate}%</span>
-                  {ppoRecent.length >= 5 && <span>Recent: {ppoRecentRate}%</span>}
-                </div>
-                <div className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
-                  <div
-                    className="h-full bg-accent-500 transition-all duration-300"
-                    style={{ width: `${ppoRate}%` }}
-                  />
-                </div>
-                {ppoResult.history.length > 0 && (
-                  <div className="grid grid-cols-12 gap-[2px] items-end h-6 mt-2">
-                    {Array.from({ length: 12 }).map((_, i) => {
-                      const p = ppoResult.history[ppoResult.history.length - 12 + i];
-                      return (
-                        <div
-                          key={i}
-                          className={`w-full ${
-                            p
-                              ? p.result === 'goal'
-                                ? 'bg-accent-500'
-                                : 'bg-zinc-300 dark:bg-zinc-700'
-                              : 'bg-zinc-100 dark:bg-zinc-800/50'
-                          }`}
-                          style={{ height: p ? (p.result === 'goal' ? '100%' : '30%') : '10%' }}
-                        />
-                      );
-                    })}
-                  </div>
-                )}
-              </>
-            ) : (
-              <div className="text-xs font-mono text-zinc-400">Not yet trained</div>
-            )}
-          </div>
+          {POLICIES.map(item => (
+            <PolicyResultCard key={item} policy={item} result={results[item]} />
+          ))}
 
           {/* Verdict */}
           <div className="pt-3 border-t border-zinc-200 dark:border-zinc-800">
-            {hasBothResults ? (
-              <div className="text-xs font-mono text-accent-600 dark:text-accent-500">{verdict}</div>
-            ) : (
-              <div className="text-xs font-mono text-zinc-400">
-                Train both policies to compare
-              </div>
-            )}
+            <div
+              className={`text-xs font-mono ${
+                ranked.length >= 2 ? 'text-accent-600 dark:text-accent-500' : 'text-zinc-400'
+              }`}
+            >
+              {verdict}
+            </div>
           </div>
         </motion.div>
       </div>
 
-      <RoboticArm
-        isDark={isDark}
-        isRunning={isRunning}
-        simulationSpeed={speed}
-        onGetAction={onGetAction}
-        onEpisodeEnd={handleEpisodeEnd}
-        controlRef={simControlRef}
-      />
+      {isEditing && (
+        <LevelEditor level={level} selected={selectedItem} onSelect={setSelectedItem} onChange={editLevel} />
+      )}
+
+      {replay && <EpisodeReplay recording={replay} frameRef={replayFrameRef} onClose={() => setReplay(null)} />}
+
+      <RoboticArm client={client} arm={arm} level={level} frameRef={replayFrameRef} canvasRef={canvasRef} />
     </div>
   );
 };
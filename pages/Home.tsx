@@ -1,60 +1,168 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Link, useOutletContext } from 'react-router-dom';
+import { Link } from 'react-router-dom';
 import { ArrowRight, Github, Linkedin, Twitter } from 'lucide-react';
-import { RoboticArmInteractive } from '../components/RoboticArmInteractive';
+import { GameControl, RoboticArmInteractive } from '../components/RoboticArmInteractive';
+import { ClipExport } from '../components/ClipExport';
+import { GAME_LEVELS, GAME_MODES, GameMode, GameStatus, LEVEL_LIVES } from '../lib/game/modes';
+import { loadLeaderboard } from '../lib/game/leaderboard';
+import { INPUT_HINTS, InputMethod, TargetInput, createTargetInput } from '../lib/game/input';
 import { Point } from '../types';
 
+// Phones and tablets get the touch layout; small desktop windows too, since the
+// desktop HUD doesn't fit them
+const TOUCH_QUERY = '(max-width: 767px), (pointer: coarse)';
+const PORTRAIT_QUERY = '(orientation: portrait)';
+
+const useMediaQuery = (query: string) => {
+  const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+  useEffect(() => {
+    const media = window.matchMedia(query);
+    const onChange = (e: MediaQueryListEvent) => setMatches(e.matches);
+    setMatches(media.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, [query]);
+  return matches;
+};
+
+// Mode-specific part of the HUD, after the goal count
+const statusDetail = (status: GameStatus | null) => {
+  if (!status) return '';
+  if (status.timeLeft !== null) return ` · ${status.timeLeft}s`;
+  if (status.level !== null) {
+    const lives = LEVEL_LIVES - status.misses;
+    return ` · ${status.level + 1}/${GAME_LEVELS.length} ${GAME_LEVELS[status.level].name} · ${'♥'.repeat(Math.max(0, lives))}`;
+  }
+  if (status.mode === 'sudden-death') return ' · no misses';
+  return '';
+};
+
 export const Home: React.FC = () => {
   const [hasInteracted, setHasInteracted] = useState(false);
-  const [score, setScore] = useState(0);
+  const [mode, setMode] = useState<GameMode>('free');
+  const [status, setStatus] = useState<GameStatus | null>(null);
+  const [leaderboard, setLeaderboard] = useState(loadLeaderboard);
   const [target, setTarget] = useState<Point>({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
-  const rafRef = useRef<number | null>(null);
-  const pendingTargetRef = useRef<Point | null>(null);
-  const { isDark } = useOutletContext<{ isDark: boolean }>();
+  const inputRef = useRef<TargetInput | null>(null);
+  const gameControlRef = useRef<GameControl | null>(null);
+  const [inputMethod, setInputMethod] = useState<InputMethod>('pointer');
+  const [showHint, setShowHint] = useState(true);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const touch = useMediaQuery(TOUCH_QUERY);
+  const portrait = useMediaQuery(PORTRAIT_QUERY);
+  // Landscape phones put the hero in a column beside the arm
+  const sideHero = touch && !portrait;
+  const statusRef = useRef(status);
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+  const clipOverlay = useCallback(() => {
+    const current = statusRef.current;
+    const label = GAME_MODES.find(item => item.id === current?.mode)?.label ?? '';
+    return [label, `Goals ${current?.score ?? 0}${statusDetail(current)}`];
+  }, []);
+  const onRunEnd = useCallback(() => setLeaderboard(loadLeaderboard()), []);
+
+  const score = status?.score ?? 0;
+  const modeInfo = GAME_MODES.find(item => item.id === mode);
+  const best = leaderboard[mode] ?? [];
 
+  // One loop for every input source: pointer moves are picked up on the next
+  // frame, keys and the gamepad stick move the target with a velocity.
   useEffect(() => {
-    setTarget({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
-    return () => {
-      if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
+    const input = createTargetInput({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    inputRef.current = input;
+    let current: Point | null = null;
+    let rafId = 0;
+    let lastT = performance.now();
+
+    const loop = (t: number) => {
+      const dt = Math.min(0.05, (t - lastT) / 1000);
+      lastT = t;
+      const { target: next, method, commands } = input.update(dt, { width: window.innerWidth, height: window.innerHeight });
+      if (next !== current) {
+        current = next;
+        setTarget(next);
       }
+      setInputMethod(method);
+      if (method === 'gamepad') setHasInteracted(true);
+      for (const command of commands) gameControlRef.current?.[command]();
+      rafId = requestAnimationFrame(loop);
+    };
+    rafId = requestAnimationFrame(loop);
+
+    const release = () => input.release();
+    window.addEventListener('blur', release);
+    return () => {
+      cancelAnimationFrame(rafId);
+      window.removeEventListener('blur', release);
     };
   }, []);
 
+  // Show the hint for the input method just picked up, then fade it again
+  useEffect(() => {
+    setShowHint(true);
+    const timer = window.setTimeout(() => setShowHint(false), 3000);
+    return () => window.clearTimeout(timer);
+  }, [inputMethod]);
+
   const handleInteraction = (e: React.PointerEvent) => {
     if (!hasInteracted) {
       setHasInteracted(true);
     }
-    pendingTargetRef.current = { x: e.clientX, y: e.clientY };
-    if (rafRef.current === null) {
-      rafRef.current = requestAnimationFrame(() => {
-        if (pendingTargetRef.current) {
-          setTarget(pendingTargetRef.current);
-        }
-        rafRef.current = null;
-      });
+    inputRef.current?.pointer({ x: e.clientX, y: e.clientY }, e.pointerType === 'touch' ? 'touch' : 'pointer');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.matches('input, textarea, select, [contenteditable]')) return;
+    // Space and Enter keep activating focused links and buttons
+    if (target !== e.currentTarget && (e.key === ' ' || e.key === 'Enter')) return;
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    if (inputRef.current?.keyDown(e.key, e.repeat)) {
+      e.preventDefault();
+      setHasInteracted(true);
     }
   };
 
   return (
     <div 
       ref={containerRef}
-      className="relative w-full h-screen overflow-hidden flex flex-col justify-center items-center"
       onPointerMove={handleInteraction}
       onPointerDown={handleInteraction}
+      onKeyDown={handleKeyDown}
+      onKeyUp={e => inputRef.current?.keyUp(e.key)}
+      onBlur={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) inputRef.current?.release();
+      }}
       tabIndex={0}
+      aria-label="Interactive robotic arm"
+      aria-describedby="arm-input-hint"
+      className={`relative w-full overflow-hidden flex flex-col focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:-outline-offset-4 focus-visible:outline-accent-500/40 ${
+        // Touch: dragging steers the arm instead of scrolling, and the height
+        // follows the visible viewport the sim is sized to
+        touch ? 'h-[100dvh] touch-none overscroll-none select-none' : 'h-screen'
+      } ${
+        !touch ? 'justify-center items-center' : portrait ? 'justify-start items-center pt-24' : 'justify-center items-start pt-16'
+      }`}
     >
       {/* Content Layer */}
-      <div className="z-20 text-center max-w-5xl px-6 relative pointer-events-none">
+      <div
+        className={`z-20 relative pointer-events-none px-6 ${
+          sideHero ? 'text-left max-w-[45%]' : 'text-center max-w-5xl'
+        }`}
+      >
         
         {/* Portrait Placeholder */}
         <motion.div 
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.8 }}
-          className="w-40 h-40 mx-auto mb-7 pointer-events-auto group cursor-pointer"
+          className={`${
+            touch ? (sideHero ? 'hidden' : 'w-24 h-24 mb-4') : 'w-40 h-40 mb-7'
+          } mx-auto pointer-events-auto group cursor-pointer`}
         >
           <div className="w-full h-full rounded-full border-2 border-zinc-400 dark:border-zinc-600 group-hover:border-accent-500 group-hover:border-4 transition-all duration-300 p-1.5 bg-transparent">
             <div className="w-full h-full rounded-full overflow-hidden relative">
@@ -65,7 +173,9 @@ export const Home: React.FC = () => {
         </motion.div>
 
         <motion.h1 
-          className="text-4xl md:text-4xl font-medium tracking-tight text-zinc-900 dark:text-zinc-100 mb-6 leading-tight"
+          className={`${
+            touch ? 'text-2xl mb-4' : 'text-4xl md:text-4xl mb-6'
+          } font-medium tracking-tight text-zinc-900 dark:text-zinc-100 leading-tight`}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.8, delay: 0.1 }}
@@ -74,7 +184,9 @@ export const Home: React.FC = () => {
         </motion.h1>
 
         <motion.p 
-          className="text-zinc-600 dark:text-zinc-400 text-lg md:text-2xl mb-9 font-light max-w-3xl mx-auto leading-normal"
+          className={`text-zinc-600 dark:text-zinc-400 font-light max-w-3xl mx-auto leading-normal ${
+            touch ? (sideHero ? 'hidden' : 'text-base mb-6') : 'text-lg md:text-2xl mb-9'
+          }`}
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ duration: 1, delay: 0.4 }}
@@ -88,7 +200,7 @@ export const Home: React.FC = () => {
            initial={{ opacity: 0, y: 10 }}
            animate={{ opacity: 1, y: 0 }}
            transition={{ duration: 0.6, delay: 0.2 }}
-           className="pointer-events-auto flex flex-col items-center gap-8"
+           className={`pointer-events-auto flex flex-col ${sideHero ? 'items-start' : 'items-center'} ${touch ? 'gap-5' : 'gap-8'}`}
         >
           <div className="flex flex-col sm:flex-row items-center gap-4">
             <Link 
@@ -115,25 +227,85 @@ export const Home: React.FC = () => {
         </motion.div>
       </div>
 
-      {/* Interaction Hint + Arm: desktop only */}
-      <div className="hidden md:block">
+      {/* Interaction Hint + Arm */}
+      <div>
         <motion.div
-          animate={{ opacity: hasInteracted ? 0 : 0.6 }}
+          id="arm-input-hint"
+          animate={{ opacity: hasInteracted && !showHint ? 0 : 0.6 }}
           transition={{ duration: 1 }}
-          className="absolute bottom-32 text-xs uppercase tracking-widest text-zinc-500 dark:text-zinc-600 font-mono pointer-events-none z-20"
+          className={`absolute ${
+            touch ? (portrait ? 'bottom-28' : 'bottom-4') : 'bottom-32'
+          } left-1/2 -translate-x-1/2 whitespace-nowrap text-xs uppercase tracking-widest text-zinc-500 dark:text-zinc-600 font-mono pointer-events-none z-20`}
         >
-          Move to guide the arm
+          {/* Touch screens report as a pointer until the first drag */}
+          {INPUT_HINTS[touch && inputMethod === 'pointer' ? 'touch' : inputMethod]}
         </motion.div>
 
         {/* Robotic Arm Layer */}
-        <div className="absolute top-28 right-6 md:right-12 z-30 text-xs font-mono text-zinc-500 dark:text-zinc-500 pointer-events-none">
-          Goals: <span className="text-zinc-900 dark:text-zinc-100">{score.toString().padStart(2, '0')}</span>
+        <div
+          className={`absolute z-30 flex flex-col gap-3 text-xs font-mono text-zinc-500 dark:text-zinc-500 ${
+            !touch ? 'top-28 right-6 md:right-12 items-end' : portrait ? 'bottom-4 inset-x-4 items-center text-center' : 'top-20 right-4 items-end'
+          }`}
+        >
+          <div className="pointer-events-none">
+            Goals: <span className="text-zinc-900 dark:text-zinc-100">{score.toString().padStart(2, '0')}</span>
+            {statusDetail(status)}
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-1 pointer-events-auto" role="group" aria-label="Game mode">
+            {GAME_MODES.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setMode(item.id)}
+                aria-pressed={mode === item.id}
+                title={item.rule}
+                className={`px-2 py-1 border transition-colors bg-white/60 dark:bg-zinc-950/60 ${
+                  mode === item.id
+                    ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+                    : 'border-zinc-200 dark:border-zinc-800 hover:text-zinc-900 dark:hover:text-zinc-200'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <div className="pointer-events-none text-zinc-400 dark:text-zinc-600">{modeInfo?.rule}</div>
+
+          {/* Leaderboard and clips stay on the desktop, where there's room */}
+          {!touch && mode !== 'free' && (
+            <div className="pointer-events-none text-right" aria-label="Leaderboard">
+              <div className="mb-1">Best</div>
+              {best.length > 0 ? (
+                <ol className="space-y-0.5">
+                  {best.map((entry, index) => (
+                    <li key={`${entry.at}-${index}`}>
+                      <span className="text-zinc-900 dark:text-zinc-100">{entry.score.toString().padStart(2, '0')}</span> ·{' '}
+                      {new Date(entry.at).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <div className="text-zinc-400 dark:text-zinc-600">No runs yet</div>
+              )}
+            </div>
+          )}
+
+          {!touch && (
+            <div className="pointer-events-auto p-2 bg-white/60 dark:bg-zinc-950/60 backdrop-blur-sm">
+              <ClipExport name="arm" canvasRef={canvasRef} overlay={clipOverlay} />
+            </div>
+          )}
         </div>
         <RoboticArmInteractive
+          key={touch ? 'touch' : 'desktop'}
+          touch={touch}
           isActive={hasInteracted}
           target={target}
-          isDark={isDark}
-          onScoreUpdate={setScore}
+          mode={mode}
+          onStatusChange={setStatus}
+          onRunEnd={onRunEnd}
+          canvasRef={canvasRef}
+          controlRef={gameControlRef}
         />
       </div>
       
@@ -1,14 +1,44 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowRight } from 'lucide-react';
-import { PROJECTS } from '../lib/data';
-import { Project } from '../types';
+import { ArrowRight, Search } from 'lucide-react';
+import { ContentIssues } from '../components/ContentIssues';
+import { INTERESTS, PROJECTS, ROLES, currentRoles, formatMonth, roleTimeline } from '../lib/data';
+import {
+  ProjectQuery,
+  SORT_OPTIONS,
+  applyProjectQuery,
+  readProjectQuery,
+  uniqueValues,
+  writeProjectQuery,
+} from '../lib/projectQuery';
+import { isProject, validateProjects, validateRoles } from '../lib/schema';
+import { Interest, Project, Role } from '../types';
+
+const CATEGORIES = uniqueValues(PROJECTS, project => (project.category ? [project.category] : []));
+const TECH = uniqueValues(PROJECTS, project => project.tech);
+const BUILDING = INTERESTS.filter(interest => interest.kind === 'building');
+const EXPLORING = INTERESTS.filter(interest => interest.kind === 'exploring');
+const CONTENT_ISSUES = import.meta.env.DEV ? [...validateProjects(PROJECTS), ...validateRoles(ROLES)] : [];
 
 export const Work: React.FC = () => {
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => readProjectQuery(searchParams), [searchParams]);
+  const projects = useMemo(() => applyProjectQuery(PROJECTS, query), [query]);
+  const selectedId = searchParams.get('open');
+  const [showTimeline, setShowTimeline] = useState(false);
+
+  // Typing replaces the current history entry; chips and sort push a new one
+  // so the back button steps through filter changes.
+  const updateQuery = (patch: Partial<ProjectQuery>, replace = false) => {
+    setSearchParams(writeProjectQuery(searchParams, { ...query, ...patch }), { replace });
+  };
 
   const toggleProject = (id: string) => {
-    setSelectedId(selectedId === id ? null : id);
+    const next = new URLSearchParams(searchParams);
+    if (selectedId === id) next.delete('open');
+    else next.set('open', id);
+    setSearchParams(next, { preventScrollReset: true });
   };
 
   return (
@@ -33,111 +63,34 @@ export const Work: React.FC = () => {
           <div className="relative overflow-hidden rounded-xl border border-zinc-200/80 dark:border-zinc-800/80 bg-gradient-to-br from-white via-zinc-50 to-zinc-100 dark:from-zinc-950 dark:via-zinc-950/90 dark:to-zinc-900/80 px-6 py-6 md:px-8 md:py-7 shadow-sm">
             <div className="pointer-events-none absolute inset-0 opacity-[0.04] bg-[radial-gradient(circle_at_top,_#38bdf8_0,_transparent_55%),radial-gradient(circle_at_bottom,_#a855f7_0,_transparent_55%)]" />
             <div className="relative grid grid-cols-1 md:grid-cols-2 gap-8 md:gap-10">
-              <div className="space-y-3">
-                <h3 className="text-xs md:text-sm font-mono text-zinc-500 dark:text-zinc-400 uppercase tracking-[0.22em]">
-                  Currently Building
-                </h3>
-                <ul className="space-y-2.5 text-zinc-800 dark:text-zinc-200 font-light text-sm md:text-base">
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500 shadow-[0_0_0_4px_rgba(59,130,246,0.18)]" />
-                    <span>Sample-efficient offline RL algorithms</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Trace Robotics: evaluation infrastructure for robot foundation models</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Confyde AI: AI-powered saas for clinical trials</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Vibe coder&apos;s keyboard</span>
-                  </li>
-                </ul>
-              </div>
-
-              <div className="space-y-3">
-                <h3 className="text-xs md:text-sm font-mono text-zinc-500 dark:text-zinc-400 uppercase tracking-[0.22em]">
-                  Current Interests
-                </h3>
-                <ul className="space-y-2.5 text-zinc-700 dark:text-zinc-300 font-light text-sm md:text-base">
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Planning using state-only data</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Data-collection pipelines for robotics</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Evaluation frameworks for foundation robot policies</span>
-                  </li>
-                  <li className="flex items-center gap-3">
-                    <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-500/80" />
-                    <span>Applied AI solutions for real-world problem solving</span>
-                  </li>
-                </ul>
-              </div>
+              <InterestList title="Currently Building" items={BUILDING} className="text-zinc-800 dark:text-zinc-200" />
+              <InterestList title="Current Interests" items={EXPLORING} className="text-zinc-700 dark:text-zinc-300" />
             </div>
           </div>
         </div>
 
-        {/* New Section: Current Involvement */}
+        {/* Current Involvement */}
         <div className="md:col-span-12 mt-9 pt-9 border-t border-zinc-200 dark:border-zinc-800">
-           <h3 className="text-sm font-mono text-zinc-500 uppercase tracking-widest mb-4">Current Involvement</h3>
-           <div className="flex flex-col gap-6">
-              <a
-                href="https://tracerobotics.tech"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="block bg-gradient-to-br from-zinc-50 to-white dark:from-zinc-900 dark:to-zinc-900/50 border border-zinc-200 dark:border-zinc-800 p-8 rounded-md relative overflow-hidden group hover:border-accent-500/20 transition-colors shadow-sm"
-              >
-                <div className="absolute top-0 left-0 w-1.5 h-full bg-accent-500 opacity-80" />
-                <div className="flex items-start justify-between gap-4">
-                  <div>
-                    <h4 className="text-lg md:text-xl text-zinc-900 dark:text-zinc-100 font-medium mb-3">
-                      Trace Robotics <span className="text-zinc-500">• Founder</span>
-                    </h4>
-                    <p className="text-base text-zinc-600 dark:text-zinc-300 font-light leading-relaxed">
-                      Developing diagnostic and robustness evaluation tools for robot policies, stress-testing real-world deployment conditions.
-                    </p>
-                  </div>
-                  <ArrowRight className="w-5 h-5 text-zinc-400 dark:text-zinc-500 mt-1 group-hover:translate-x-1 group-hover:text-accent-500 transition-all" />
-                </div>
-              </a>
-
-              <div className="bg-gradient-to-br from-zinc-50 to-white dark:from-zinc-900 dark:to-zinc-900/50 border border-zinc-200 dark:border-zinc-800 p-8 rounded-md relative overflow-hidden group hover:border-accent-500/20 transition-colors shadow-sm">
-                <div className="absolute top-0 left-0 w-1.5 h-full bg-accent-500 opacity-80" />
-                <h4 className="text-lg md:text-xl text-zinc-900 dark:text-zinc-100 font-medium mb-3">
-                  NYUAD Deep Learning Lab <span className="text-zinc-500">• Deep Learning Researcher</span>
-                </h4>
-                <p className="text-base text-zinc-600 dark:text-zinc-300 font-light leading-relaxed">
-                  Researching learning from state-only data and building sample-efficient offline RL and world-model pipelines for robot learning.
-                </p>
-              </div>
-
-              <a
-                href="https://confyde.ai"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="block bg-gradient-to-br from-zinc-50 to-white dark:from-zinc-900 dark:to-zinc-900/50 border border-zinc-200 dark:border-zinc-800 p-8 rounded-md relative overflow-hidden group hover:border-accent-500/20 transition-colors shadow-sm"
-              >
-                <div className="absolute top-0 left-0 w-1.5 h-full bg-accent-500 opacity-80" />
-                <div className="flex items-start justify-between gap-4">
-                  <div>
-                    <h4 className="text-lg md:text-xl text-zinc-900 dark:text-zinc-100 font-medium mb-3">
-                      Confyde.ai <span className="text-zinc-500">• Founding Engineer, Backend & AI</span>
-                    </h4>
-                    <p className="text-base text-zinc-600 dark:text-zinc-300 font-light leading-relaxed">
-                      Building scalable AI backends and agent orchestration for pharma market research, from data pipelines to deployed services.
-                    </p>
-                  </div>
-                  <ArrowRight className="w-5 h-5 text-zinc-400 dark:text-zinc-500 mt-1 group-hover:translate-x-1 group-hover:text-accent-500 transition-all" />
-                </div>
-              </a>
+           <div className="flex items-center justify-between mb-4">
+             <h3 className="text-sm font-mono text-zinc-500 uppercase tracking-widest">
+               {showTimeline ? 'Timeline' : 'Current Involvement'}
+             </h3>
+             <button
+               onClick={() => setShowTimeline(!showTimeline)}
+               className="text-xs font-mono text-zinc-500 hover:text-accent-600 dark:hover:text-accent-500 transition-colors"
+             >
+               {showTimeline ? 'Show current' : 'Show timeline'}
+             </button>
            </div>
+           {showTimeline ? (
+             <RoleTimeline roles={roleTimeline()} />
+           ) : (
+             <div className="flex flex-col gap-6">
+               {currentRoles().map(role => (
+                 <RoleCard key={role.id} role={role} />
+               ))}
+             </div>
+           )}
         </div>
       </motion.div>
 
@@ -148,12 +101,16 @@ export const Work: React.FC = () => {
          initial={{ opacity: 0 }}
          animate={{ opacity: 1 }}
          transition={{ delay: 0.2 }}
-         className="mb-16 flex items-center gap-6"
+         className="mb-10 flex items-center gap-6"
       >
         <h2 className="text-2xl md:text-3xl font-medium text-zinc-900 dark:text-zinc-100">Selected Projects</h2>
         <div className="h-px flex-grow bg-zinc-200 dark:bg-zinc-800 mt-2"></div>
       </motion.div>
 
+      <ContentIssues issues={CONTENT_ISSUES} />
+
+      <FilterBar query={query} resultCount={projects.length} onChange={updateQuery} />
+
       {/* Projects List */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -161,11 +118,23 @@ export const Work: React.FC = () => {
         transition={{ duration: 0.6, delay: 0.2 }}
         className="space-y-20"
       >
-        {PROJECTS.map((project) => (
+        {projects.length === 0 && (
+          <div className="text-zinc-500 font-mono text-sm">
+            No projects match these filters.{' '}
+            <button
+              onClick={() => updateQuery({ q: '', categories: [], tech: [] })}
+              className="text-accent-600 dark:text-accent-500 hover:underline"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+        {projects.map((project) => (
           <ProjectItem 
             key={project.id} 
             project={project} 
             isOpen={selectedId === project.id}
+            isInvalid={import.meta.env.DEV && !isProject(project)}
             onClick={() => toggleProject(project.id)}
           />
         ))}
@@ -174,9 +143,181 @@ export const Work: React.FC = () => {
   );
 };
 
-const ProjectItem: React.FC<{ project: Project; isOpen: boolean; onClick: () => void }> = ({ project, isOpen, onClick }) => {
+const InterestList: React.FC<{ title: string; items: Interest[]; className: string }> = ({ title, items, className }) => (
+  <div className="space-y-3">
+    <h3 className="text-xs md:text-sm font-mono text-zinc-500 dark:text-zinc-400 uppercase tracking-[0.22em]">
+      {title}
+    </h3>
+    <ul className={`space-y-2.5 font-light text-sm md:text-base ${className}`}>
+      {items.map((item, i) => (
+        <li key={item.label} className="flex items-center gap-3">
+          <span
+            className={`inline-block w-1.5 h-1.5 rounded-full ${
+              i === 0 && item.kind === 'building'
+                ? 'bg-accent-500 shadow-[0_0_0_4px_rgba(59,130,246,0.18)]'
+                : 'bg-accent-500/80'
+            }`}
+          />
+          <span>{item.label}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const RoleCard: React.FC<{ role: Role }> = ({ role }) => {
+  const className =
+    'block bg-gradient-to-br from-zinc-50 to-white dark:from-zinc-900 dark:to-zinc-900/50 border border-zinc-200 dark:border-zinc-800 p-8 rounded-md relative overflow-hidden group hover:border-accent-500/20 transition-colors shadow-sm';
+  const body = (
+    <>
+      <div className="absolute top-0 left-0 w-1.5 h-full bg-accent-500 opacity-80" />
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-lg md:text-xl text-zinc-900 dark:text-zinc-100 font-medium mb-3">
+            {role.organisation} <span className="text-zinc-500">• {role.title}</span>
+          </h4>
+          <p className="text-base text-zinc-600 dark:text-zinc-300 font-light leading-relaxed">
+            {role.summary}
+          </p>
+        </div>
+        {role.url && (
+          <ArrowRight className="w-5 h-5 shrink-0 text-zinc-400 dark:text-zinc-500 mt-1 group-hover:translate-x-1 group-hover:text-accent-500 transition-all" />
+        )}
+      </div>
+    </>
+  );
+
+  return role.url ? (
+    <a href={role.url} target="_blank" rel="noopener noreferrer" className={className}>
+      {body}
+    </a>
+  ) : (
+    <div className={className}>{body}</div>
+  );
+};
+
+const RoleTimeline: React.FC<{ roles: Role[] }> = ({ roles }) => (
+  <ol className="relative border-l border-zinc-200 dark:border-zinc-800 ml-1.5 space-y-10 py-2">
+    {roles.map(role => (
+      <li key={role.id} className="pl-8 relative">
+        <span
+          className={`absolute -left-[5px] top-2 w-2.5 h-2.5 rounded-full ${
+            role.end ? 'bg-zinc-300 dark:bg-zinc-700' : 'bg-accent-500'
+          }`}
+        />
+        <div className="text-xs font-mono text-zinc-500 mb-2">
+          {role.start && `${formatMonth(role.start)} — `}
+          {role.end ? formatMonth(role.end) : 'Present'}
+        </div>
+        <h4 className="text-lg text-zinc-900 dark:text-zinc-100 font-medium">
+          {role.url ? (
+            <a href={role.url} target="_blank" rel="noopener noreferrer" className="hover:text-accent-600 dark:hover:text-accent-500 transition-colors">
+              {role.organisation}
+            </a>
+          ) : (
+            role.organisation
+          )}{' '}
+          <span className="text-zinc-500">• {role.title}</span>
+        </h4>
+        <p className="mt-2 text-base text-zinc-600 dark:text-zinc-400 font-light leading-relaxed max-w-3xl">{role.summary}</p>
+      </li>
+    ))}
+  </ol>
+);
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const Chip: React.FC<{ label: string; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={onClick}
+    aria-pressed={active}
+    className={`text-xs uppercase tracking-wider px-3 py-1.5 rounded border transition-colors ${
+      active
+        ? 'border-accent-500 text-accent-600 dark:text-accent-500 bg-accent-500/10'
+        : 'border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-900/50 hover:text-zinc-900 dark:hover:text-zinc-200'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const FilterBar: React.FC<{
+  query: ProjectQuery;
+  resultCount: number;
+  onChange: (patch: Partial<ProjectQuery>, replace?: boolean) => void;
+}> = ({ query, resultCount, onChange }) => {
+  const hasFilters = query.q !== '' || query.categories.length > 0 || query.tech.length > 0;
+
+  return (
+    <div className="mb-16 space-y-5">
+      <div className="flex flex-col md:flex-row gap-4 md:items-center">
+        <label className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" />
+          <input
+            type="search"
+            value={query.q}
+            onChange={e => onChange({ q: e.target.value }, true)}
+            placeholder="Search projects"
+            className="w-full pl-9 pr-3 py-2.5 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-sm text-sm text-zinc-700 dark:text-zinc-200 placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none focus:ring-2 focus:ring-accent-500/40"
+          />
+        </label>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          {SORT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ sort: option.value })}
+              className={`px-3 py-2 border transition-colors ${
+                query.sort === option.value
+                  ? 'border-accent-500 text-accent-600 dark:text-accent-500'
+                  : 'border-zinc-200 dark:border-zinc-800 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {CATEGORIES.map(category => (
+          <Chip
+            key={category}
+            label={category}
+            active={query.categories.includes(category)}
+            onClick={() => onChange({ categories: toggle(query.categories, category) })}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {TECH.map(tech => (
+          <Chip
+            key={tech}
+            label={tech}
+            active={query.tech.includes(tech)}
+            onClick={() => onChange({ tech: toggle(query.tech, tech) })}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs font-mono text-zinc-500">
+        <span>{resultCount} of {PROJECTS.length} projects</span>
+        {hasFilters && (
+          <button
+            onClick={() => onChange({ q: '', categories: [], tech: [] })}
+            className="text-accent-600 dark:text-accent-500 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ProjectItem: React.FC<{ project: Project; isOpen: boolean; isInvalid?: boolean; onClick: () => void }> = ({ project, isOpen, isInvalid, onClick }) => {
   return (
-    <div className="group border-b border-zinc-200 dark:border-zinc-800 pb-16 last:border-0">
+    <div className={`group border-b border-zinc-200 dark:border-zinc-800 pb-16 last:border-0 ${isInvalid ? 'outline outline-2 outline-offset-8 outline-rose-500/60' : ''}`}>
       <div 
         onClick={onClick}
         className="cursor-pointer block md:flex gap-12 items-start transition-opacity duration-300 hover:opacity-100 opacity-90"
@@ -253,6 +394,14 @@ const ProjectItem: React.FC<{ project: Project; isOpen: boolean; onClick: () =>
                             </span>
                             ))}
                         </div>
+                        <Link
+                          to={`/work/${project.id}`}
+                          onClick={e => e.stopPropagation()}
+                          className="group/link mt-8 inline-flex items-center gap-2 text-sm font-mono text-accent-600 dark:text-accent-500 hover:text-accent-700 dark:hover:text-accent-600 transition-colors"
+                        >
+                          READ CASE STUDY
+                          <ArrowRight className="w-4 h-4 group-hover/link:translate-x-1 transition-transform" />
+                        </Link>
                       </div>
                   </div>
                 </div>
@@ -1,10 +1,14 @@
 import React from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Github, Globe } from 'lucide-react';
+import { ArrowLeft, ArrowRight, FileText, Github, Globe } from 'lucide-react';
+import { findProject, suggestProjects } from '../lib/data';
+import { getCaseStudy } from '../lib/content';
+import { Project } from '../types';
 
 export const WorkDetail: React.FC = () => {
   const { id } = useParams();
+  const project = findProject(id);
 
   return (
     <div className="pt-40 pb-24 px-6 md:px-12 max-w-6xl mx-auto w-full">
@@ -13,74 +17,141 @@ export const WorkDetail: React.FC = () => {
         Back to Index
       </Link>
 
-      <motion.div
-        initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-      >
-        <span className="font-mono text-accent-600 dark:text-accent-500 text-base mb-4 block">Case Study: {id}</span>
-        <h1 className="text-5xl md:text-7xl font-medium text-zinc-900 dark:text-zinc-100 mb-6">
-          System Architecture & Failure Modes
-        </h1>
-        <p className="text-zinc-600 dark:text-zinc-400 text-xl max-w-3xl">
-          A field-tested autonomy stack designed for safe operation under uncertainty with clear, measurable failure boundaries.
-        </p>
+      {project ? <CaseStudy project={project} /> : <NotFound id={id ?? ''} />}
+    </div>
+  );
+};
+
+const CaseStudy: React.FC<{ project: Project }> = ({ project }) => {
+  const doc = getCaseStudy(project.id);
+  const snapshot = [
+    { label: 'Role', value: project.role },
+    { label: 'Focus', value: project.focus },
+    { label: 'Timeline', value: project.timeline },
+  ].filter(item => item.value);
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-16 mt-20">
-          <div className="md:col-span-2 space-y-8 text-zinc-700 dark:text-zinc-400 leading-relaxed text-xl">
-            <p>
-              <strong className="text-zinc-900 dark:text-zinc-200">Overview:</strong> This project explored the intersection of deterministic safety guarantees and probabilistic model outputs. The core challenge was ensuring the system fails gracefully when the model encounters out-of-distribution inputs.
-            </p>
-            <p>
-              We moved away from end-to-end learning approaches, opting instead for a modular architecture where the AI component acts as a "proposer" and a classical control stack acts as a "verifier". This allows us to bound the operational envelope mathematically.
-            </p>
-            
-            <h3 className="text-zinc-900 dark:text-zinc-200 font-medium text-2xl mt-16 mb-6">Key Tradeoffs</h3>
-            <ul className="list-disc list-outside ml-6 space-y-4 marker:text-zinc-400">
-              <li>Sacrificed 5% peak throughput for verifiable safety bounds.</li>
-              <li>Chose TypeScript/Rust hybrid over pure Python to enforce type safety at the API boundary.</li>
-              <li>Implemented "human-in-the-loop" escalation for uncertainty scores {'>'}  0.8.</li>
-            </ul>
+  const artifacts = [
+    { href: project.links.github, label: 'Source', Icon: Github },
+    { href: project.links.demo, label: 'Live Demo', Icon: Globe },
+    { href: project.links.writeup, label: 'Write-up', Icon: FileText },
+  ].filter(item => item.href);
 
-             <h3 className="text-zinc-900 dark:text-zinc-200 font-medium text-2xl mt-16 mb-6">Robustness Analysis</h3>
-             <ul className="list-disc list-outside ml-6 space-y-4 marker:text-zinc-400">
-              <li>Tested against adversarial noise injection (Gaussian, Salt & Pepper).</li>
-              <li>Simulated network partition scenarios to ensure local cache consistency.</li>
-            </ul>
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <span className="font-mono text-accent-600 dark:text-accent-500 text-base mb-4 block">
+        Case Study{project.category ? ` / ${project.category}` : ''}
+      </span>
+      <h1 className="text-5xl md:text-7xl font-medium text-zinc-900 dark:text-zinc-100 mb-6">
+        {project.title}
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400 text-xl max-w-3xl">
+        {doc?.frontmatter.summary ?? project.description}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-16 mt-20">
+        <div className="md:col-span-2 space-y-8 text-zinc-700 dark:text-zinc-400 leading-relaxed text-xl">
+          {doc ? (
+            <article
+              className="prose prose-xl prose-zinc dark:prose-invert max-w-none prose-headings:font-medium prose-a:text-accent-600 dark:prose-a:text-accent-500 prose-li:marker:text-zinc-400"
+              dangerouslySetInnerHTML={{ __html: doc.html }}
+            />
+          ) : (
+            <>
+              <h3 className="text-zinc-900 dark:text-zinc-200 font-medium text-2xl mb-6">Highlights</h3>
+              <ul className="list-disc list-outside ml-6 space-y-4 marker:text-zinc-400">
+                {project.longDescription.map((item, i) => (
+                  <li key={i}>{item}</li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <h3 className="text-zinc-900 dark:text-zinc-200 font-medium text-2xl mt-16 mb-6">Technology Stack</h3>
+          <div className="flex flex-wrap gap-3">
+            {project.tech.map(t => (
+              <span key={t} className="text-xs uppercase tracking-wider text-zinc-600 dark:text-zinc-400 border border-zinc-300 dark:border-zinc-700 px-3 py-1.5 rounded bg-zinc-100 dark:bg-zinc-900/50">
+                {t}
+              </span>
+            ))}
           </div>
+        </div>
 
-          <div className="space-y-10">
-             <div className="bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-8 rounded-sm">
-               <h4 className="text-zinc-900 dark:text-zinc-200 font-medium mb-6 text-base">Artifacts</h4>
-               <div className="space-y-4">
-                 <a href="#" className="flex items-center gap-3 text-base text-zinc-600 dark:text-zinc-500 hover:text-accent-600 dark:hover:text-accent-500 transition-colors">
-                   <Github className="w-5 h-5" />
-                   Source (Partial)
-                 </a>
-                 <a href="#" className="flex items-center gap-3 text-base text-zinc-600 dark:text-zinc-500 hover:text-accent-600 dark:hover:text-accent-500 transition-colors">
-                   <Globe className="w-5 h-5" />
-                   Live Demo
-                 </a>
-               </div>
-             </div>
+        <div className="space-y-10">
+          {artifacts.length > 0 && (
+            <div className="bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-8 rounded-sm">
+              <h4 className="text-zinc-900 dark:text-zinc-200 font-medium mb-6 text-base">Artifacts</h4>
+              <div className="space-y-4">
+                {artifacts.map(({ href, label, Icon }) => (
+                  <a
+                    key={label}
+                    href={href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-3 text-base text-zinc-600 dark:text-zinc-500 hover:text-accent-600 dark:hover:text-accent-500 transition-colors"
+                  >
+                    <Icon className="w-5 h-5" />
+                    {label}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
 
-             <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-8 rounded-sm">
-               <h4 className="text-zinc-900 dark:text-zinc-200 font-medium mb-6 text-base">Snapshot</h4>
-               <ul className="space-y-3 text-sm text-zinc-600 dark:text-zinc-400">
-                 <li>Role: Systems Engineer</li>
-                 <li>Focus: Safe motion planning</li>
-                 <li>Timeline: 2023–2024</li>
-               </ul>
-             </div>
+          {(snapshot.length > 0 || doc?.frontmatter.updated) && (
+            <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-8 rounded-sm">
+              <h4 className="text-zinc-900 dark:text-zinc-200 font-medium mb-6 text-base">Snapshot</h4>
+              <ul className="space-y-3 text-sm text-zinc-600 dark:text-zinc-400">
+                {snapshot.map(item => (
+                  <li key={item.label}>{item.label}: {item.value}</li>
+                ))}
+                {doc?.frontmatter.updated && <li>Updated: {doc.frontmatter.updated.slice(0, 10)}</li>}
+              </ul>
+            </div>
+          )}
 
-             <div className="aspect-square bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 flex items-center justify-center">
-                <span className="text-zinc-500 dark:text-zinc-700 font-mono text-sm">Architecture Diagram</span>
-             </div>
-             <div className="aspect-video bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 flex items-center justify-center">
-                <span className="text-zinc-500 dark:text-zinc-700 font-mono text-sm">Performance Graph</span>
-             </div>
+          <div className="aspect-video bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+            <img src={project.imageUrl} alt={project.title} className="w-full h-full object-cover" />
           </div>
         </div>
-      </motion.div>
-    </div>
+      </div>
+    </motion.div>
+  );
+};
+
+const NotFound: React.FC<{ id: string }> = ({ id }) => {
+  const suggestions = suggestProjects(id);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <span className="font-mono text-accent-600 dark:text-accent-500 text-base mb-4 block">404 / {id}</span>
+      <h1 className="text-5xl md:text-7xl font-medium text-zinc-900 dark:text-zinc-100 mb-6">
+        No case study here.
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400 text-xl max-w-3xl">
+        There is no project with this id. It may have been renamed. Some nearby work:
+      </p>
+
+      <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-6">
+        {suggestions.map(project => (
+          <Link
+            key={project.id}
+            to={`/work/${project.id}`}
+            className="group border border-zinc-200 dark:border-zinc-800 bg-white/60 dark:bg-zinc-900/50 backdrop-blur-sm p-6 hover:border-accent-500/30 transition-colors"
+          >
+            <div className="text-sm font-mono text-zinc-500 mb-3">{project.category}</div>
+            <div className="flex items-start justify-between gap-4">
+              <div className="text-lg text-zinc-900 dark:text-zinc-100 font-medium leading-snug">{project.title}</div>
+              <ArrowRight className="w-5 h-5 shrink-0 text-zinc-400 group-hover:translate-x-1 group-hover:text-accent-500 transition-all" />
+            </div>
+          </Link>
+        ))}
+      </div>
+    </motion.div>
   );
 };
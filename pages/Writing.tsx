@@ -1,7 +1,14 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { ArrowRight } from 'lucide-react';
+import { formatDate, getPosts } from '../lib/content';
 
 export const Writing: React.FC = () => {
+  const posts = getPosts();
+  const published = posts.filter(post => post.status === 'published');
+  const drafts = posts.filter(post => post.status === 'draft');
+
   return (
     <div className="pt-40 pb-24 px-6 md:px-12 max-w-5xl mx-auto w-full">
       <motion.div
@@ -9,31 +16,57 @@ export const Writing: React.FC = () => {
         animate={{ opacity: 1, y: 0 }}
       >
         <h2 className="text-3xl font-medium text-zinc-900 dark:text-zinc-100 mb-16">Writing</h2>
-        
-        <div className="space-y-8 text-center mt-24">
-          <p className="text-4xl md:text-5xl text-zinc-800 dark:text-zinc-200 font-medium">
-            Writing in progress.
-          </p>
-          <p className="text-xl text-zinc-600 dark:text-zinc-500">
-            Notes on autonomy, safety, and the practical edges of applied ML.
-          </p>
-        </div>
 
-        <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-6">
-          {[
-            { title: 'Failure modes in real-world robotics', status: 'Drafting' },
-            { title: 'How I evaluate model robustness', status: 'Outlining' },
-            { title: 'Systems notes from field deployments', status: 'Collecting' },
-          ].map(item => (
-            <div
-              key={item.title}
-              className="border border-zinc-200 dark:border-zinc-800 bg-white/60 dark:bg-zinc-900/50 backdrop-blur-sm p-6 text-left"
-            >
-              <div className="text-sm font-mono text-zinc-500 mb-3">{item.status}</div>
-              <div className="text-lg text-zinc-900 dark:text-zinc-100 font-medium leading-snug">{item.title}</div>
+        {published.length > 0 ? (
+          <div className="space-y-12">
+            {published.map(post => (
+              <Link key={post.slug} to={`/writing/${post.slug}`} className="group block border-b border-zinc-200 dark:border-zinc-800 pb-12 last:border-0">
+                <div className="text-sm font-mono text-zinc-500 mb-3">{formatDate(post.date)}</div>
+                <div className="flex items-start justify-between gap-6">
+                  <h3 className="text-2xl md:text-3xl font-medium text-zinc-900 dark:text-zinc-100 tracking-tight group-hover:text-accent-600 dark:group-hover:text-accent-500 transition-colors">
+                    {post.title}
+                  </h3>
+                  <ArrowRight className="w-5 h-5 mt-2 shrink-0 text-zinc-400 group-hover:translate-x-1 group-hover:text-accent-500 transition-all" />
+                </div>
+                <p className="mt-4 text-lg text-zinc-600 dark:text-zinc-400 font-light max-w-3xl leading-relaxed">{post.summary}</p>
+                {post.tags.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-3">
+                    {post.tags.map(tag => (
+                      <span key={tag} className="text-xs font-mono uppercase tracking-wider text-zinc-500">#{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-8 text-center mt-24">
+            <p className="text-4xl md:text-5xl text-zinc-800 dark:text-zinc-200 font-medium">
+              Writing in progress.
+            </p>
+            <p className="text-xl text-zinc-600 dark:text-zinc-500">
+              Notes on autonomy, safety, and the practical edges of applied ML.
+            </p>
+          </div>
+        )}
+
+        {drafts.length > 0 && (
+          <div className="mt-16">
+            <div className="text-sm font-mono text-zinc-500 uppercase tracking-widest mb-6">Unpublished (dev only)</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {drafts.map(post => (
+                <Link
+                  key={post.slug}
+                  to={`/writing/${post.slug}`}
+                  className="border border-zinc-200 dark:border-zinc-800 bg-white/60 dark:bg-zinc-900/50 backdrop-blur-sm p-6 text-left hover:border-accent-500/30 transition-colors"
+                >
+                  <div className="text-sm font-mono text-zinc-500 mb-3">{post.stage ?? 'Draft'}</div>
+                  <div className="text-lg text-zinc-900 dark:text-zinc-100 font-medium leading-snug">{post.title}</div>
+                </Link>
+              ))}
             </div>
-          ))}
-        </div>
+          </div>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { formatDate, getPost } from '../lib/content';
+
+export const WritingPost: React.FC = () => {
+  const { slug } = useParams();
+  const post = getPost(slug);
+
+  return (
+    <div className="pt-40 pb-24 px-6 md:px-12 max-w-3xl mx-auto w-full">
+      <Link to="/writing" className="inline-flex items-center gap-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300 mb-12 text-base group transition-colors">
+        <ArrowLeft className="w-5 h-5 group-hover:-translate-x-1 transition-transform" />
+        All Writing
+      </Link>
+
+      {post ? (
+        <motion.article
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="font-mono text-accent-600 dark:text-accent-500 text-base mb-4">
+            {formatDate(post.date)}
+            {post.status === 'draft' && ` / ${post.stage ?? 'Draft'}`}
+          </div>
+          <h1 className="text-4xl md:text-6xl font-medium text-zinc-900 dark:text-zinc-100 mb-6 leading-tight">
+            {post.title}
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400 text-xl">{post.summary}</p>
+          {post.tags.length > 0 && (
+            <div className="mt-6 flex flex-wrap gap-3">
+              {post.tags.map(tag => (
+                <span key={tag} className="text-xs font-mono uppercase tracking-wider text-zinc-500">#{tag}</span>
+              ))}
+            </div>
+          )}
+
+          <div
+            className="mt-16 prose prose-lg prose-zinc dark:prose-invert max-w-none prose-headings:font-medium prose-a:text-accent-600 dark:prose-a:text-accent-500 prose-li:marker:text-zinc-400"
+            dangerouslySetInnerHTML={{ __html: post.html }}
+          />
+        </motion.article>
+      ) : (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <span className="font-mono text-accent-600 dark:text-accent-500 text-base mb-4 block">404 / {slug}</span>
+          <h1 className="text-4xl md:text-6xl font-medium text-zinc-900 dark:text-zinc-100 mb-6">
+            No post here.
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400 text-xl">
+            It may still be a draft, or the link may be out of date.
+          </p>
+        </motion.div>
+      )}
+    </div>
+  );
+};
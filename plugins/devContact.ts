@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import type { Connect, Plugin } from 'vite';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Local stand-in for the contact backend. `npm run dev` and `npm run preview`
+// accept POST /__contact and write each message to .dev-inbox/ as JSON.
+export const devContact = (options: { dir?: string } = {}): Plugin => {
+  let inbox = '';
+
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    if (req.url !== '/__contact') return next();
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      return res.end();
+    }
+
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) req.destroy();
+    });
+    req.on('end', () => {
+      try {
+        const message = JSON.parse(body);
+        fs.mkdirSync(inbox, { recursive: true });
+        const file = path.join(inbox, `${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+        fs.writeFileSync(file, JSON.stringify({ ...message, receivedAt: new Date().toISOString() }, null, 2));
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ ok: true }));
+      } catch {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ ok: false }));
+      }
+    });
+  };
+
+  return {
+    name: 'portfolio-dev-contact',
+    configResolved(config) {
+      inbox = path.resolve(config.root, options.dir ?? '.dev-inbox');
+    },
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { SITE } from '../lib/site';
+import type { PostFrontmatter } from '../types';
+import { parseMarkdown } from './markdown';
+
+interface FeedEntry {
+  id: string;
+  title: string;
+  url: string;
+  date: string;
+  summary: string;
+  html?: string;
+  tags: string[];
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toIso = (date: string) => new Date(date).toISOString();
+
+const collectEntries = (root: string, siteUrl: string): FeedEntry[] => {
+  const postsDir = path.join(root, 'content/writing');
+  if (!fs.existsSync(postsDir)) return [];
+  return fs
+    .readdirSync(postsDir)
+    .filter(file => file.endsWith('.md'))
+    .map(file => ({ slug: file.replace(/\.md$/, ''), doc: parseMarkdown(fs.readFileSync(path.join(postsDir, file), 'utf8')) }))
+    .filter(({ doc }) => (doc.frontmatter as PostFrontmatter).status === 'published')
+    .map(({ slug, doc }) => {
+      const fm = doc.frontmatter as PostFrontmatter;
+      const url = `${siteUrl}/#/writing/${slug}`;
+      return { id: url, title: fm.title, url, date: toIso(fm.date), summary: fm.summary, html: doc.html, tags: fm.tags ?? [] };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+const renderAtom = (entries: FeedEntry[], siteUrl: string) => {
+  // With nothing published yet, the feed was last updated by this build.
+  const updated = entries[0]?.date ?? new Date().toISOString();
+  const items = entries
+    .map(
+      entry => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <link href="${escapeXml(entry.url)}"/>
+    <updated>${entry.date}</updated>
+    <summary>${escapeXml(entry.summary)}</summary>
+${entry.html ? `    <content type="html">${escapeXml(entry.html)}</content>\n` : ''}${entry.tags.map(tag => `    <category term="${escapeXml(tag)}"/>\n`).join('')}  </entry>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(siteUrl)}/</id>
+  <title>${escapeXml(SITE.title)}</title>
+  <subtitle>${escapeXml(SITE.description)}</subtitle>
+  <link href="${escapeXml(siteUrl)}/"/>
+  <link rel="self" href="${escapeXml(siteUrl)}/feed.xml"/>
+  <author><name>${escapeXml(SITE.author)}</name></author>
+  <updated>${updated}</updated>
+${items}
+</feed>
+`;
+};
+
+const renderRss = (entries: FeedEntry[], siteUrl: string) => {
+  const items = entries
+    .map(
+      entry => `    <item>
+      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>
+      <title>${escapeXml(entry.title)}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <pubDate>${new Date(entry.date).toUTCString()}</pubDate>
+      <description>${escapeXml(entry.summary)}</description>
+${entry.tags.map(tag => `      <category>${escapeXml(tag)}</category>\n`).join('')}    </item>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(SITE.title)}</title>
+    <link>${escapeXml(siteUrl)}/</link>
+    <description>${escapeXml(SITE.description)}</description>
+    <atom:link href="${escapeXml(siteUrl)}/rss.xml" rel="self" type="application/rss+xml"/>
+${items}
+  </channel>
+</rss>
+`;
+};
+
+const renderJsonFeed = (entries: FeedEntry[], siteUrl: string) =>
+  JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: SITE.title,
+      description: SITE.description,
+      home_page_url: `${siteUrl}/`,
+      feed_url: `${siteUrl}/feed.json`,
+      authors: [{ name: SITE.author }],
+      items: entries.map(entry => ({
+        id: entry.id,
+        url: entry.url,
+        title: entry.title,
+        summary: entry.summary,
+        date_published: entry.date,
+        tags: entry.tags,
+        ...(entry.html ? { content_html: entry.html } : { content_text: entry.summary }),
+      })),
+    },
+    null,
+    2
+  );
+
+// Emits Atom, RSS and JSON feeds for published posts as part of `vite build`.
+// Everything is read from disk; no network access.
+export const feeds = (options: { siteUrl?: string } = {}): Plugin => {
+  let root = process.cwd();
+  const siteUrl = (options.siteUrl || SITE.url).replace(/\/+$/, '');
+
+  return {
+    name: 'portfolio-feeds',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root;
+    },
+    generateBundle() {
+      const entries = collectEntries(root, siteUrl);
+      this.emitFile({ type: 'asset', fileName: 'feed.xml', source: renderAtom(entries, siteUrl) });
+      this.emitFile({ type: 'asset', fileName: 'rss.xml', source: renderRss(entries, siteUrl) });
+      this.emitFile({ type: 'asset', fileName: 'feed.json', source: renderJsonFeed(entries, siteUrl) });
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import { Marked } from 'marked';
+import type { Plugin } from 'vite';
+import type { MarkdownHeading } from '../types';
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/<[^>]+>/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Parses a Markdown file with YAML frontmatter into plain data. Dates are
+// normalised to ISO strings so the result survives JSON serialisation.
+export const parseMarkdown = (source: string) => {
+  const { data, content } = matter(source);
+  const headings: MarkdownHeading[] = [];
+
+  const marked = new Marked({
+    gfm: true,
+    renderer: {
+      heading({ tokens, depth }) {
+        const text = this.parser.parseInline(tokens);
+        const id = slugify(text);
+        headings.push({ id, text, depth });
+        return `<h${depth} id="${id}">${text}</h${depth}>\n`;
+      },
+    },
+  });
+
+  const html = marked.parse(content, { async: false });
+  const frontmatter = JSON.parse(JSON.stringify(data));
+
+  return { frontmatter, html, headings };
+};
+
+const WRITING_MODULE = 'virtual:writing';
+const RESOLVED_WRITING_MODULE = `\0${WRITING_MODULE}`;
+const WRITING_DIR = 'content/writing';
+
+// Turns `*.md` imports into JSON modules at build time, so pages receive
+// rendered HTML and no Markdown parser is shipped to the client.
+// `virtual:writing` maps each post's slug to its document. Production builds
+// leave drafts out of it, so no part of unpublished writing (not even the
+// title or slug) reaches the bundle.
+export const markdown = (): Plugin => {
+  let isBuild = false;
+  let postsDir = '';
+  return {
+    name: 'portfolio-markdown',
+    configResolved(config) {
+      isBuild = config.command === 'build';
+      postsDir = path.join(config.root, WRITING_DIR);
+    },
+    resolveId(id) {
+      return id === WRITING_MODULE ? RESOLVED_WRITING_MODULE : null;
+    },
+    load(id) {
+      if (id !== RESOLVED_WRITING_MODULE) return null;
+      const files = fs.existsSync(postsDir) ? fs.readdirSync(postsDir).filter(file => file.endsWith('.md')).sort() : [];
+      const included = files.filter(
+        file => !isBuild || matter(fs.readFileSync(path.join(postsDir, file), 'utf8')).data.status !== 'draft'
+      );
+      const imports = included.map((file, i) => `import post${i} from ${JSON.stringify(path.join(postsDir, file))};`);
+      const entries = included.map((file, i) => `  ${JSON.stringify(file.replace(/\.md$/, ''))}: post${i},`);
+      return [...imports, `export default {`, ...entries, `};`].join('\n');
+    },
+    // New or deleted posts change the module's imports
+    configureServer(server) {
+      const refresh = (file: string) => {
+        if (path.dirname(file) !== postsDir || !file.endsWith('.md')) return;
+        const module = server.moduleGraph.getModuleById(RESOLVED_WRITING_MODULE);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', refresh);
+      server.watcher.on('unlink', refresh);
+    },
+    transform(code, id) {
+      if (!id.endsWith('.md')) return null;
+      return {
+        code: `export default ${JSON.stringify(parseMarkdown(code))};`,
+        map: null,
+      };
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import path from 'path';
+import type { Plugin } from 'vite';
+import { MetricsStore, createMetricsHandler, createMetricsStore } from '../server/metricsStore';
+
+// Serves the metrics endpoint from the dev server, persisting counts to
+// .metrics/counts.json. Production builds (preview included) report only to
+// VITE_METRICS_URL; see metricsAvailable in lib/metrics.ts.
+export const metrics = (options: { file?: string; route?: string } = {}): Plugin => {
+  const route = options.route ?? '/__metrics';
+  let store: MetricsStore | null = null;
+  let handler: ReturnType<typeof createMetricsHandler> | null = null;
+
+  return {
+    name: 'portfolio-metrics',
+    configResolved(config) {
+      const file = path.resolve(config.root, options.file ?? '.metrics/counts.json');
+      store = createMetricsStore(file);
+      handler = createMetricsHandler(store);
+    },
+    configureServer(server) {
+      server.middlewares.use(route, (req, res) => handler!(req, res));
+      server.httpServer?.on('close', () => store?.flush());
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { INTERESTS, PROJECTS, ROLES } from '../lib/data';
+import {
+  Issue,
+  array,
+  formatIssues,
+  interestSchema,
+  postFrontmatterSchema,
+  validateLevel,
+  validateProjects,
+  validateRoles,
+} from '../lib/schema';
+import { parseMarkdown } from './markdown';
+
+const validatePosts = (root: string): Issue[] => {
+  const postsDir = path.join(root, 'content/writing');
+  if (!fs.existsSync(postsDir)) return [];
+  return fs
+    .readdirSync(postsDir)
+    .filter(file => file.endsWith('.md'))
+    .flatMap(file => {
+      const { frontmatter } = parseMarkdown(fs.readFileSync(path.join(postsDir, file), 'utf8'));
+      return postFrontmatterSchema.check(frontmatter, `content/writing/${file}`);
+    });
+};
+
+const validateLevels = (root: string): Issue[] => {
+  const levelsDir = path.join(root, 'content/levels');
+  if (!fs.existsSync(levelsDir)) return [];
+  return fs
+    .readdirSync(levelsDir)
+    .filter(file => file.endsWith('.json'))
+    .flatMap(file => {
+      const label = `content/levels/${file}`;
+      let level: unknown;
+      try {
+        level = JSON.parse(fs.readFileSync(path.join(levelsDir, file), 'utf8'));
+      } catch (error) {
+        return [{ path: label, message: `is not valid JSON (${(error as Error).message})` }];
+      }
+      const issues = validateLevel(level, label);
+      const id = (level as { id?: unknown })?.id;
+      if (typeof id === 'string' && `${id}.json` !== file) {
+        issues.push({ path: `${label}.id`, message: `must match the file name ("${file.replace(/\.json$/, '')}")` });
+      }
+      return issues;
+    });
+};
+
+// Checks hand-edited content before bundling. `vite build` fails on the first
+// run with a list of every broken entry; the dev server only warns, and the
+// pages flag the same problems in place.
+export const validateContent = (): Plugin => {
+  let root = process.cwd();
+  let publicDir = path.join(root, 'public');
+  let isBuild = false;
+
+  return {
+    name: 'portfolio-validate-content',
+    configResolved(config) {
+      root = config.root;
+      publicDir = config.publicDir;
+      isBuild = config.command === 'build';
+    },
+    buildStart() {
+      const issues = [
+        ...validateProjects(PROJECTS, {
+          fileExists: publicPath => fs.existsSync(path.join(publicDir, publicPath)),
+        }),
+        ...validateRoles(ROLES),
+        ...array(interestSchema).check(INTERESTS, 'INTERESTS'),
+        ...validatePosts(root),
+        ...validateLevels(root),
+      ];
+      if (issues.length === 0) return;
+
+      const message = `Invalid portfolio content (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${formatIssues(issues)}`;
+      if (isBuild) this.error(message);
+      else this.warn(message);
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MAX_PATHS, OTHER_PATH, createMetricsStore } from './metricsStore';
+
+describe('createMetricsStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+    file = path.join(dir, 'counts.json');
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('counts page views and only new visitors', () => {
+    const store = createMetricsStore(file);
+    store.record({ path: '/', type: 'human', newVisitor: true });
+    store.record({ path: '/work', type: 'human', newVisitor: false });
+    store.record({ path: '/', type: 'ai', newVisitor: true });
+    expect(store.counts()).toEqual({ visitors: { human: 1, bot: 0, ai: 1 }, pageViews: 3 });
+    store.flush();
+  });
+
+  it('batches writes until flushed and reloads them', () => {
+    const store = createMetricsStore(file, { writeDelayMs: 60_000 });
+    store.record({ path: '/writing', type: 'bot', newVisitor: true });
+    expect(fs.existsSync(file)).toBe(false);
+
+    store.flush();
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(saved.paths).toEqual({ '/writing': 1 });
+    expect(createMetricsStore(file).counts()).toEqual({ visitors: { human: 0, bot: 1, ai: 0 }, pageViews: 1 });
+  });
+
+  it('starts from zero when the file is unreadable', () => {
+    fs.writeFileSync(file, '{not json');
+    expect(createMetricsStore(file).counts()).toEqual({ visitors: { human: 0, bot: 0, ai: 0 }, pageViews: 0 });
+  });
+
+  it('puts paths past the cap in a shared bucket', () => {
+    const store = createMetricsStore(file);
+    for (let i = 0; i < MAX_PATHS; i++) store.record({ path: `/p${i}`, type: 'human', newVisitor: false });
+    store.record({ path: '/extra', type: 'human', newVisitor: false });
+    store.record({ path: '/p0', type: 'human', newVisitor: false });
+    store.flush();
+
+    const { paths } = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(Object.keys(paths)).toHaveLength(MAX_PATHS + 1);
+    expect(paths[OTHER_PATH]).toBe(1);
+    expect(paths['/p0']).toBe(2);
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { MetricsCounts, VISITOR_TYPES, VisitorType } from '../lib/metrics';
+
+interface StoredMetrics extends MetricsCounts {
+  paths: Record<string, number>;
+}
+
+const empty = (): StoredMetrics => ({
+  visitors: { human: 0, bot: 0, ai: 0 },
+  pageViews: 0,
+  paths: {},
+});
+
+// Per-path counts stop at this many paths; later ones share OTHER_PATH, so
+// clients can't grow the file without bound
+export const MAX_PATHS = 100;
+export const OTHER_PATH = '(other)';
+const WRITE_DELAY_MS = 1000;
+
+// Aggregate counts in a single JSON file. Writes are batched: a burst of
+// page views is written once, WRITE_DELAY_MS after the first. They go
+// through a temp file and rename so a crash never leaves half-written JSON.
+export const createMetricsStore = (file: string, options: { writeDelayMs?: number } = {}) => {
+  const writeDelayMs = options.writeDelayMs ?? WRITE_DELAY_MS;
+  let data: StoredMetrics = empty();
+  try {
+    data = { ...empty(), ...JSON.parse(fs.readFileSync(file, 'utf8')) };
+  } catch {
+    // First run or unreadable file: start from zero.
+  }
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const persist = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, file);
+  };
+
+  const flush = () => {
+    if (!timer) return;
+    clearTimeout(timer);
+    timer = null;
+    persist();
+  };
+
+  return {
+    counts: (): MetricsCounts => ({ visitors: { ...data.visitors }, pageViews: data.pageViews }),
+    record(visit: { path: string; type: VisitorType; newVisitor: boolean }) {
+      const key = visit.path in data.paths || Object.keys(data.paths).length < MAX_PATHS ? visit.path : OTHER_PATH;
+      data.pageViews += 1;
+      data.paths[key] = (data.paths[key] ?? 0) + 1;
+      if (visit.newVisitor) data.visitors[visit.type] += 1;
+      timer ??= setTimeout(flush, writeDelayMs);
+    },
+    // Writes pending counts now, e.g. when the server closes
+    flush,
+  };
+};
+
+export type MetricsStore = ReturnType<typeof createMetricsStore>;
+
+const MAX_BODY_BYTES = 4 * 1024;
+// App routes are lowercase kebab-case segments, e.g. /work/sentinel-ai
+const ROUTE_PATH = /^\/[a-z0-9\-/]{0,100}$/;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+// GET returns the counts; POST { path, type, newVisitor } records a page view.
+export const createMetricsHandler = (store: MetricsStore) => (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === 'GET') return sendJson(res, 200, store.counts());
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) req.destroy();
+  });
+  req.on('end', () => {
+    try {
+      const visit = JSON.parse(body);
+      if (typeof visit.path !== 'string' || !ROUTE_PATH.test(visit.path) || !VISITOR_TYPES.includes(visit.type)) {
+        return sendJson(res, 400, { error: 'Expected { path, type } with a route path' });
+      }
+      store.record({ path: visit.path, type: visit.type, newVisitor: visit.newVisitor === true });
+      sendJson(res, 200, store.counts());
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON' });
+    }
+  });
+};
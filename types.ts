@@ -11,6 +11,10 @@ export interface Project {
   longDescription: string[]; // Bullet points for detail view
   imageUrl: string;
   tech: string[];
+  role?: string; // Snapshot: what I did on the project
+  focus?: string; // Snapshot: the core technical problem
+  timeline?: string; // Snapshot: when / how long
+  featured?: boolean;
   links: {
     github?: string;
     demo?: string;
@@ -18,7 +22,59 @@ export interface Project {
   };
 }
 
+export interface Role {
+  id: string;
+  organisation: string;
+  title: string;
+  url?: string;
+  start?: string; // YYYY-MM; omit when the month isn't known
+  end?: string; // YYYY-MM; omit while the role is ongoing
+  summary: string;
+}
+
+export type InterestKind = 'building' | 'exploring';
+
+export interface Interest {
+  label: string;
+  kind: InterestKind;
+}
+
 export interface NavItem {
   label: string;
   path: string;
-}
\ No newline at end of file
+}
+
+export interface MarkdownHeading {
+  id: string;
+  text: string;
+  depth: number;
+}
+
+// Shape of a `*.md` import after the build-time Markdown plugin runs.
+export interface MarkdownDocument<F = Record<string, unknown>> {
+  frontmatter: F;
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+export interface CaseStudyFrontmatter {
+  summary?: string;
+  updated?: string;
+}
+
+export type PostStatus = 'draft' | 'published';
+
+export interface PostFrontmatter {
+  title: string;
+  date: string;
+  status: PostStatus;
+  tags: string[];
+  summary: string;
+  stage?: string; // Free-form progress label for drafts, e.g. "Outlining"
+}
+
+export interface Post extends PostFrontmatter {
+  slug: string;
+  html: string;
+  headings: MarkdownHeading[];
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+declare module '*.md' {
+  const doc: import('./types').MarkdownDocument;
+  export default doc;
+}
+
+// Posts by slug, from plugins/markdown.ts; production builds omit drafts
+declare module 'virtual:writing' {
+  const posts: Record<string, import('./types').MarkdownDocument<import('./types').PostFrontmatter>>;
+  export default posts;
+}
@@ -1,6 +1,11 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { devContact } from './plugins/devContact';
+import { feeds } from './plugins/feeds';
+import { markdown } from './plugins/markdown';
+import { metrics } from './plugins/metrics';
+import { validateContent } from './plugins/validateContent';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +14,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), validateContent(), markdown(), feeds({ siteUrl: env.SITE_URL }), devContact(), metrics()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests cover the pure modules only, so the site's build plugins stay out
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**'],
+  },
+});